@@ -0,0 +1,269 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles component accessibility tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+
+import { BundleAddToCart } from '../components/BundleAddToCart.js';
+import { BundleLineItem, type BundleLineItemProps } from '../components/BundleLineItem.js';
+import { BundlePicker } from '../components/BundlePicker.js';
+import { BundleProvider } from '../components/BundleProvider.js';
+
+import type { BundleComponent, BundleDefinition, BundleSelection } from '../types.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+const component = (
+  id: number,
+  title: string,
+  overrides: Partial<BundleComponent> = {},
+): BundleComponent => ({
+  productId: `gid://shopify/Product/${id}`,
+  productTitle: title,
+  productHandle: title.toLowerCase(),
+  productImage: { url: `https://cdn.test/${id}.jpg` },
+  quantity: 1,
+  variants: [
+    {
+      id: `gid://shopify/ProductVariant/${id}`,
+      title: 'Default Title',
+      price: money('10.00'),
+      availableForSale: true,
+    },
+  ],
+  ...overrides,
+});
+
+const definition: BundleDefinition = {
+  id: 'gid://shopify/Product/1',
+  title: 'Build a Box',
+  handle: 'build-a-box',
+  bundleType: 'mix_and_match',
+  minSelections: 2,
+  maxSelections: 2,
+  availableForSale: true,
+  pricing: { discountType: 'percentage', discountValue: 10 },
+  components: [
+    component(10, 'Socks', {
+      allowQuantitySelection: true,
+      variants: ['S', 'M'].map((size, i) => ({
+        id: `gid://shopify/ProductVariant/1${i}`,
+        title: size,
+        price: money('10.00'),
+        availableForSale: true,
+        selectedOptions: [{ name: 'Size', value: size }],
+      })),
+    }),
+    component(20, 'Scarf'),
+    component(30, 'Hat'),
+    component(40, 'Gloves', {
+      variants: [
+        {
+          id: 'gid://shopify/ProductVariant/40',
+          title: 'Default Title',
+          price: money('10.00'),
+          availableForSale: false,
+        },
+      ],
+    }),
+  ],
+};
+
+/**
+ * Assert axe finds no WCAG 2.2 A/AA violations (color contrast needs a
+ * layout engine, which jsdom lacks)
+ */
+async function expectAccessible(container: HTMLElement) {
+  const results = await axe.run(container, {
+    runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa'] },
+    rules: { 'color-contrast': { enabled: false } },
+  });
+  expect(results.violations.map((v) => `${v.id}: ${v.help}`)).toEqual([]);
+}
+
+function Picker({ initial = [] }: { initial?: BundleSelection[] }) {
+  const [selections, setSelections] = useState(initial);
+  return (
+    <BundlePicker
+      definition={definition}
+      selectedComponents={selections}
+      onSelectionChange={setSelections}
+    />
+  );
+}
+
+const toggles = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLButtonElement>('.bundle-picker__toggle'));
+
+describe('BundlePicker accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = render(
+      <Picker
+        initial={[
+          {
+            productId: 'gid://shopify/Product/10',
+            variantId: 'gid://shopify/ProductVariant/10',
+            quantity: 1,
+          },
+        ]}
+      />,
+    );
+
+    await expectAccessible(container);
+  });
+
+  it('keeps one card in the tab order and moves focus with arrow keys', () => {
+    const { container } = render(<Picker />);
+    const cards = toggles(container);
+
+    expect(cards.map((card) => card.tabIndex)).toEqual([0, -1, -1, -1]);
+
+    cards[0]!.focus();
+    fireEvent.keyDown(cards[0]!, { key: 'ArrowRight' });
+    expect(document.activeElement).toBe(cards[1]);
+
+    fireEvent.keyDown(cards[1]!, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(cards[3]);
+    expect(cards.map((card) => card.tabIndex)).toEqual([-1, -1, -1, 0]);
+
+    fireEvent.keyDown(cards[3]!, { key: 'Home' });
+    expect(document.activeElement).toBe(cards[0]);
+
+    fireEvent.keyDown(cards[0]!, { key: 'ArrowUp' });
+    expect(document.activeElement).toBe(cards[0]);
+  });
+
+  it('announces progress, completion and the selection limit', () => {
+    const { container } = render(<Picker />);
+    const status = screen.getByRole('status');
+    const cards = toggles(container);
+
+    expect(status.textContent).toBe('');
+
+    fireEvent.click(cards[0]!);
+    expect(status.textContent).toBe('Socks added. 1 of 2 selected. Select 1 more.');
+
+    fireEvent.click(cards[1]!);
+    expect(status.textContent).toBe(
+      'Scarf added. 2 of 2 selected. Bundle complete. Selection limit reached.',
+    );
+
+    fireEvent.click(cards[2]!);
+    expect(status.textContent).toBe('Selection limit reached: 2 items. Remove an item to add Hat.');
+    expect(cards[2]!.getAttribute('aria-pressed')).toBe('false');
+
+    fireEvent.click(cards[3]!);
+    expect(status.textContent).toBe('Gloves is out of stock.');
+
+    fireEvent.click(cards[1]!);
+    expect(status.textContent).toBe('Scarf removed. 1 of 2 selected. Select 1 more.');
+  });
+
+  it('keeps card toggles to phrasing content', () => {
+    const { container } = render(<Picker />);
+
+    for (const card of toggles(container)) {
+      expect(card.querySelector('div, p, h1, h2, h3, h4, h5, h6')).toBeNull();
+    }
+    expect(toggles(container)[0]!.textContent).toContain('Socks');
+  });
+
+  it('hides the live region without the built-in styles', () => {
+    render(
+      <BundlePicker
+        definition={definition}
+        selectedComponents={[]}
+        onSelectionChange={vi.fn()}
+        unstyled
+      />,
+    );
+
+    const status = screen.getByRole('status');
+    expect(status.style.position).toBe('absolute');
+    expect(status.style.overflow).toBe('hidden');
+  });
+
+  it('labels quantity steppers with their product', () => {
+    render(
+      <Picker
+        initial={[
+          {
+            productId: 'gid://shopify/Product/10',
+            variantId: 'gid://shopify/ProductVariant/10',
+            quantity: 1,
+          },
+        ]}
+      />,
+    );
+
+    const increase = screen.getByRole('button', { name: 'Increase quantity of Socks' });
+    expect(screen.getByRole('group', { name: 'Quantity of Socks' })).toBeTruthy();
+    expect(document.getElementById(increase.getAttribute('aria-describedby')!)?.textContent).toBe(
+      '1',
+    );
+
+    fireEvent.click(increase);
+    expect(screen.getByRole('status').textContent).toBe(
+      'Socks quantity 2. 2 of 2 selected. Bundle complete. Selection limit reached.',
+    );
+  });
+});
+
+describe('BundleLineItem accessibility', () => {
+  const lines: BundleLineItemProps['lines'] = [10, 20].map((id) => ({
+    id: `gid://shopify/CartLine/${id}`,
+    quantity: 1,
+    merchandise: {
+      id: `gid://shopify/ProductVariant/${id}`,
+      title: 'Default Title',
+      image: { url: `https://cdn.test/${id}.jpg` },
+      price: money('10.00'),
+      product: { id: `gid://shopify/Product/${id}`, title: `Product ${id}`, handle: `p-${id}` },
+    },
+    attributes: [],
+    cost: { totalAmount: money('10.00') },
+  }));
+
+  it.each(['combined', 'expanded'] as const)('has no axe violations (%s)', async (displayMode) => {
+    const { container } = render(
+      <BundleLineItem
+        lines={lines}
+        bundleTitle="Build a Box"
+        displayMode={displayMode}
+        allowQuantityChange
+        onQuantityChange={vi.fn()}
+        onRemove={vi.fn()}
+      />,
+    );
+
+    await expectAccessible(container);
+    expect(screen.getByRole('button', { name: 'Increase quantity of Build a Box' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Remove Build a Box' })).toBeTruthy();
+  });
+});
+
+describe('BundleAddToCart accessibility', () => {
+  const config = {
+    storeDomain: 'my-store.myshopify.com',
+    storefront: { query: vi.fn(), mutate: vi.fn() },
+  };
+
+  it('has no axe violations and describes why it is disabled', async () => {
+    const { container } = render(
+      <BundleProvider config={config}>
+        <BundleAddToCart definition={definition} selectedComponents={[]} />
+      </BundleProvider>,
+    );
+
+    await expectAccessible(container);
+
+    const button = screen.getByRole('button', { name: 'Add Bundle to Cart' });
+    expect(document.getElementById(button.getAttribute('aria-describedby')!)?.textContent).toBe(
+      'Please select 2 items to continue.',
+    );
+  });
+});
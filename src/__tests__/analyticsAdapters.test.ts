@@ -0,0 +1,121 @@
+/**
+ * hydrogen-bundles analytics adapter tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  createConsoleAdapter,
+  createGa4Adapter,
+  createHydrogenAnalyticsAdapter,
+} from '../sdk/analyticsAdapters.js';
+
+import type { BundleAnalyticsEvent } from '../types.js';
+
+const addEvent: BundleAnalyticsEvent = {
+  eventType: 'add_to_cart',
+  bundleId: 'gid://shopify/Product/1',
+  bundleTitle: 'Starter Kit',
+  quantity: 2,
+  selectedComponents: [
+    { productId: 'gid://shopify/Product/2', variantId: 'gid://shopify/ProductVariant/2', quantity: 1 },
+    { productId: 'gid://shopify/Product/3', variantId: 'gid://shopify/ProductVariant/3', quantity: 2 },
+  ],
+  price: { amount: '45.00', currencyCode: 'USD' },
+  componentPrices: [
+    {
+      productId: 'gid://shopify/Product/2',
+      variantId: 'gid://shopify/ProductVariant/2',
+      quantity: 1,
+      unitPrice: { amount: '30.00', currencyCode: 'USD' },
+      lineTotal: { amount: '30.00', currencyCode: 'USD' },
+    },
+    {
+      productId: 'gid://shopify/Product/3',
+      variantId: 'gid://shopify/ProductVariant/3',
+      quantity: 2,
+      unitPrice: { amount: '10.00', currencyCode: 'USD' },
+      lineTotal: { amount: '20.00', currencyCode: 'USD' },
+    },
+  ],
+};
+
+describe('createGa4Adapter', () => {
+  it('pushes add_to_cart with one item per component and the bundle as item list', () => {
+    const dataLayer: unknown[] = [];
+    createGa4Adapter({ dataLayer }).track(addEvent);
+
+    expect(dataLayer[0]).toEqual({ ecommerce: null });
+    expect(dataLayer[1]).toEqual({
+      event: 'add_to_cart',
+      ecommerce: {
+        currency: 'USD',
+        value: 90,
+        item_list_id: 'gid://shopify/Product/1',
+        item_list_name: 'Starter Kit',
+        items: [
+          {
+            item_id: 'gid://shopify/Product/2',
+            item_variant: 'gid://shopify/ProductVariant/2',
+            item_list_id: 'gid://shopify/Product/1',
+            item_list_name: 'Starter Kit',
+            price: 30,
+            quantity: 2,
+          },
+          {
+            item_id: 'gid://shopify/Product/3',
+            item_variant: 'gid://shopify/ProductVariant/3',
+            item_list_id: 'gid://shopify/Product/1',
+            item_list_name: 'Starter Kit',
+            price: 10,
+            quantity: 4,
+          },
+        ],
+      },
+    });
+  });
+
+  it('falls back to selections when no prices are known', () => {
+    const dataLayer: unknown[] = [];
+    createGa4Adapter({ dataLayer }).track({
+      ...addEvent,
+      price: undefined,
+      componentPrices: undefined,
+    });
+
+    const pushed = dataLayer[1] as { ecommerce: { value?: number; items: unknown[] } };
+    expect(pushed.ecommerce.value).toBeUndefined();
+    expect(pushed.ecommerce.items).toHaveLength(2);
+  });
+
+  it('pushes non-ecommerce events as bundle_<eventType>', () => {
+    const dataLayer: unknown[] = [];
+    createGa4Adapter({ dataLayer }).track({
+      eventType: 'add_to_cart_failure',
+      bundleId: 'b1',
+      error: 'Out of stock',
+    });
+
+    expect(dataLayer).toEqual([
+      { event: 'bundle_add_to_cart_failure', bundle_id: 'b1', bundle_title: undefined, error: 'Out of stock' },
+    ]);
+  });
+});
+
+describe('createHydrogenAnalyticsAdapter', () => {
+  it('publishes custom events', () => {
+    const publish = vi.fn();
+    createHydrogenAnalyticsAdapter({ publish }).track(addEvent);
+
+    expect(publish).toHaveBeenCalledWith('custom_bundle_add_to_cart', addEvent);
+  });
+});
+
+describe('createConsoleAdapter', () => {
+  it('logs events with a prefix', () => {
+    const log = vi.fn();
+    createConsoleAdapter({ log }).track(addEvent);
+
+    expect(log).toHaveBeenCalledWith('[bundles]', 'add_to_cart', addEvent);
+  });
+});
@@ -2,17 +2,28 @@
  * hydrogen-bundles buildCartMutation tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 
 import {
   buildBundleCartLines,
+  getBundleQuantity,
+  removeBundleFromCart,
+  updateBundleQuantityInCart,
+  editBundleInCart,
+  getBundleSelections,
+  resolveAddMode,
   isBundleLine,
   getBundleInfoFromLine,
   groupCartLinesByBundle,
 } from '../sdk/buildCartMutation.js';
 import { BUNDLE_ATTRIBUTES } from '../utils/constants.js';
 
-import type { BundleDefinition, AddBundleInput } from '../types.js';
+import type {
+  BundleDefinition,
+  AddBundleInput,
+  BundleBridgeConfig,
+  BundleLineGroup,
+} from '../types.js';
 
 const fixedBundle: BundleDefinition = {
   id: 'gid://shopify/Product/100',
@@ -105,6 +116,7 @@ describe('buildBundleCartLines', () => {
 
     expect(keys).toContain(BUNDLE_ATTRIBUTES.bundleParent);
     expect(keys).toContain(BUNDLE_ATTRIBUTES.bundleProductId);
+    expect(keys).toContain(BUNDLE_ATTRIBUTES.bundleInstanceId);
     expect(keys).toContain(BUNDLE_ATTRIBUTES.componentIndex);
     expect(keys).toContain(BUNDLE_ATTRIBUTES.totalComponents);
     expect(keys).toContain(BUNDLE_ATTRIBUTES.componentProductId);
@@ -120,6 +132,32 @@ describe('buildBundleCartLines', () => {
     expect(bundleIdAttr!.value).toBe('gid://shopify/Product/100');
   });
 
+  it('stamps one instance ID on every line of an add', () => {
+    const input: AddBundleInput = { bundleId: 'gid://shopify/Product/100' };
+    const first = buildBundleCartLines(fixedBundle, input);
+    const second = buildBundleCartLines(fixedBundle, input);
+
+    const instanceIds = (lines: typeof first) =>
+      lines.map(
+        (l) => l.attributes.find((a) => a.key === BUNDLE_ATTRIBUTES.bundleInstanceId)!.value,
+      );
+
+    expect(new Set(instanceIds(first)).size).toBe(1);
+    expect(instanceIds(first)[0]).not.toBe(instanceIds(second)[0]);
+  });
+
+  it('uses the provided instance ID', () => {
+    const lines = buildBundleCartLines(fixedBundle, {
+      bundleId: 'gid://shopify/Product/100',
+      instanceId: 'instance-1',
+    });
+
+    const instanceAttr = lines[1]!.attributes.find(
+      (a) => a.key === BUNDLE_ATTRIBUTES.bundleInstanceId,
+    );
+    expect(instanceAttr!.value).toBe('instance-1');
+  });
+
   it('sets correct component indices', () => {
     const input: AddBundleInput = { bundleId: 'gid://shopify/Product/100' };
     const lines = buildBundleCartLines(fixedBundle, input);
@@ -135,6 +173,18 @@ describe('buildBundleCartLines', () => {
     expect(index1!.value).toBe('1');
   });
 
+  it('records the per-bundle component quantity', () => {
+    const lines = buildBundleCartLines(fixedBundle, {
+      bundleId: 'gid://shopify/Product/100',
+      quantity: 3,
+    });
+
+    const componentQuantity = lines[0]!.attributes.find(
+      (a) => a.key === BUNDLE_ATTRIBUTES.componentQuantity,
+    );
+    expect(componentQuantity!.value).toBe('2');
+  });
+
   it('sets total components count', () => {
     const input: AddBundleInput = { bundleId: 'gid://shopify/Product/100' };
     const lines = buildBundleCartLines(fixedBundle, input);
@@ -171,6 +221,63 @@ describe('buildBundleCartLines', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Native add mode
+// ---------------------------------------------------------------------------
+
+describe('native add mode', () => {
+  const nativeBundle: BundleDefinition = {
+    ...fixedBundle,
+    variantId: 'gid://shopify/ProductVariant/900',
+  };
+
+  it('adds the bundle parent variant as a single line', () => {
+    const lines = buildBundleCartLines(nativeBundle, {
+      bundleId: nativeBundle.id,
+      quantity: 2,
+      addMode: 'native',
+    });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]!.merchandiseId).toBe('gid://shopify/ProductVariant/900');
+    expect(lines[0]!.quantity).toBe(2);
+  });
+
+  it('does not add bundle attributes to the parent line', () => {
+    const lines = buildBundleCartLines(nativeBundle, {
+      bundleId: nativeBundle.id,
+      addMode: 'native',
+      customAttributes: { gift_note: 'Hi' },
+    });
+
+    expect(lines[0]!.attributes).toEqual([{ key: 'gift_note', value: 'Hi' }]);
+  });
+
+  it('falls back to exploded lines for mix-and-match bundles', () => {
+    const mixBundle: BundleDefinition = { ...nativeBundle, bundleType: 'mix_and_match' };
+
+    expect(resolveAddMode(mixBundle, 'native')).toBe('exploded');
+    expect(
+      buildBundleCartLines(mixBundle, {
+        bundleId: mixBundle.id,
+        addMode: 'native',
+        selectedComponents: [{ productId: 'p1', variantId: 'v1', quantity: 1 }],
+      }),
+    ).toHaveLength(1);
+  });
+
+  it('falls back to exploded lines without a parent variant', () => {
+    expect(resolveAddMode(fixedBundle, 'native')).toBe('exploded');
+    expect(
+      buildBundleCartLines(fixedBundle, { bundleId: fixedBundle.id, addMode: 'native' }),
+    ).toHaveLength(2);
+  });
+
+  it('defaults to exploded mode', () => {
+    expect(resolveAddMode(nativeBundle)).toBe('exploded');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // isBundleLine
 // ---------------------------------------------------------------------------
@@ -197,6 +304,11 @@ describe('isBundleLine', () => {
     const line = { attributes: [] };
     expect(isBundleLine(line)).toBe(false);
   });
+
+  it('returns true for componentized lines', () => {
+    const line = { attributes: [], lineComponents: [{ id: 'child-1' }] };
+    expect(isBundleLine(line)).toBe(true);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -271,6 +383,30 @@ describe('groupCartLinesByBundle', () => {
     expect(groups.get('bundle-B')!.lines).toHaveLength(1);
   });
 
+  it('keeps separate instances of the same bundle apart', () => {
+    const bundleLine = (id: string, instanceId: string, variantId: string) => ({
+      id,
+      quantity: 1,
+      attributes: [
+        { key: BUNDLE_ATTRIBUTES.bundleParent, value: 'true' },
+        { key: BUNDLE_ATTRIBUTES.bundleProductId, value: 'bundle-A' },
+        { key: BUNDLE_ATTRIBUTES.bundleInstanceId, value: instanceId },
+      ],
+      merchandise: { id: variantId, title: variantId, product: { title: variantId } },
+    });
+
+    const groups = groupCartLinesByBundle([
+      bundleLine('line-1', 'instance-1', 'v1'),
+      bundleLine('line-2', 'instance-2', 'v2'),
+      bundleLine('line-3', 'instance-1', 'v3'),
+    ]);
+
+    expect(groups.size).toBe(2);
+    expect(groups.get('instance-1')!.lines.map((l) => l.id)).toEqual(['line-1', 'line-3']);
+    expect(groups.get('instance-2')!.bundleProductId).toBe('bundle-A');
+    expect(groups.get('instance-2')!.instanceId).toBe('instance-2');
+  });
+
   it('skips non-bundle lines', () => {
     const lines = [
       {
@@ -289,4 +425,334 @@ describe('groupCartLinesByBundle', () => {
     const groups = groupCartLinesByBundle([]);
     expect(groups.size).toBe(0);
   });
+
+  it('groups componentized lines under their parent', () => {
+    const parent = {
+      id: 'line-parent',
+      quantity: 1,
+      attributes: [],
+      merchandise: {
+        id: 'bundle-variant',
+        title: 'Default Title',
+        product: { id: 'bundle-product', title: 'Bundle' },
+      },
+      lineComponents: [
+        {
+          id: 'line-child-1',
+          quantity: 2,
+          attributes: [],
+          merchandise: { id: 'v1', title: 'V1', product: { title: 'P1' } },
+        },
+        {
+          id: 'line-child-2',
+          quantity: 1,
+          attributes: [],
+          merchandise: { id: 'v2', title: 'V2', product: { title: 'P2' } },
+        },
+      ],
+    };
+
+    const groups = groupCartLinesByBundle([parent]);
+    const group = groups.get('line-parent')!;
+
+    expect(groups.size).toBe(1);
+    expect(group.bundleProductId).toBe('bundle-product');
+    expect(group.parentLine).toBe(parent);
+    expect(group.lines.map((l) => l.id)).toEqual(['line-child-1', 'line-child-2']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Removing and updating bundles
+// ---------------------------------------------------------------------------
+
+describe('bundle cart updates', () => {
+  const config: BundleBridgeConfig = {
+    storeDomain: 'my-store.myshopify.com',
+    storefrontAccessToken: 'token',
+  };
+
+  const componentLine = (id: string, quantity: number) => ({
+    id,
+    quantity,
+    attributes: [
+      { key: BUNDLE_ATTRIBUTES.bundleParent, value: 'true' },
+      { key: BUNDLE_ATTRIBUTES.bundleProductId, value: 'bundle-A' },
+    ],
+    merchandise: { id: `variant-${id}`, title: id, product: { id, title: id } },
+  });
+
+  // 2 bundles of (2 socks + 1 shirt)
+  const group: BundleLineGroup = {
+    bundleProductId: 'bundle-A',
+    lines: [componentLine('socks', 4), componentLine('shirt', 2)],
+  };
+
+  const mockFetch = (payloadKey: string) => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: { [payloadKey]: { cart: { id: 'cart-1', lines: [] }, userErrors: [] } },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  const sentVariables = (fetchMock: ReturnType<typeof vi.fn>) =>
+    JSON.parse(fetchMock.mock.calls[0]![1].body).variables;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives bundle quantity from component lines', () => {
+    expect(getBundleQuantity(group)).toBe(2);
+  });
+
+  it('uses recorded component quantities over line quantities', () => {
+    // One bundle of 2 socks: the line quantity alone would suggest 2 bundles
+    const socksOnly: BundleLineGroup = {
+      bundleProductId: 'bundle-A',
+      lines: [
+        {
+          ...componentLine('socks', 2),
+          attributes: [
+            ...componentLine('socks', 2).attributes,
+            { key: BUNDLE_ATTRIBUTES.componentQuantity, value: '2' },
+          ],
+        },
+      ],
+    };
+
+    expect(getBundleQuantity(socksOnly)).toBe(1);
+    expect(getBundleSelections(socksOnly)[0]!.quantity).toBe(2);
+  });
+
+  it('sets bundle quantity on grouped lines', () => {
+    const lines = buildBundleCartLines(fixedBundle, {
+      bundleId: fixedBundle.id,
+      quantity: 3,
+      instanceId: 'instance-1',
+    }).map((line, index) => ({
+      id: `line-${index}`,
+      quantity: line.quantity,
+      attributes: line.attributes,
+      merchandise: { id: line.merchandiseId, title: '', product: { title: '' } },
+    }));
+
+    expect(groupCartLinesByBundle(lines).get('instance-1')!.bundleQuantity).toBe(3);
+  });
+
+  it('uses the parent line quantity for native bundles', () => {
+    const parentLine = { ...componentLine('parent', 3), lineComponents: group.lines };
+    expect(getBundleQuantity({ ...group, parentLine })).toBe(3);
+  });
+
+  it('removes every line of the group in one mutation', async () => {
+    const fetchMock = mockFetch('cartLinesRemove');
+
+    const result = await removeBundleFromCart(group, config, { cartId: 'cart-1' });
+
+    expect(result.success).toBe(true);
+    expect(result.cart!.id).toBe('cart-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sentVariables(fetchMock).lineIds).toEqual(['socks', 'shirt']);
+  });
+
+  it('scales each component line by its per-bundle multiplier', async () => {
+    const fetchMock = mockFetch('cartLinesUpdate');
+
+    const result = await updateBundleQuantityInCart(group, config, {
+      cartId: 'cart-1',
+      quantity: 3,
+    });
+
+    expect(result.success).toBe(true);
+    expect(sentVariables(fetchMock).lines).toEqual([
+      { id: 'socks', quantity: 6 },
+      { id: 'shirt', quantity: 3 },
+    ]);
+  });
+
+  it('removes the bundle when quantity drops to zero', async () => {
+    const fetchMock = mockFetch('cartLinesRemove');
+
+    await updateBundleQuantityInCart(group, config, { cartId: 'cart-1', quantity: 0 });
+
+    expect(sentVariables(fetchMock).lineIds).toEqual(['socks', 'shirt']);
+  });
+
+  it('derives per-bundle selections from the group', () => {
+    expect(getBundleSelections(group)).toEqual([
+      { productId: 'socks', variantId: 'variant-socks', quantity: 2 },
+      { productId: 'shirt', variantId: 'variant-shirt', quantity: 1 },
+    ]);
+  });
+
+  it('swaps a component variant in place when editing', async () => {
+    const fetchMock = mockFetch('cartLinesUpdate');
+    const editGroup: BundleLineGroup = {
+      bundleProductId: fixedBundle.id,
+      instanceId: 'instance-1',
+      lines: [
+        {
+          id: 'line-1',
+          quantity: 2,
+          attributes: [
+            { key: BUNDLE_ATTRIBUTES.bundleParent, value: 'true' },
+            { key: BUNDLE_ATTRIBUTES.bundleProductId, value: fixedBundle.id },
+            { key: BUNDLE_ATTRIBUTES.bundleInstanceId, value: 'instance-1' },
+            { key: BUNDLE_ATTRIBUTES.componentProductId, value: 'p1' },
+            { key: 'gift_note', value: 'Hi' },
+          ],
+          merchandise: { id: 'v1', title: 'Small', product: { title: 'Product 1' } },
+        },
+      ],
+    };
+    const definition: BundleDefinition = {
+      ...fixedBundle,
+      components: [
+        {
+          ...fixedBundle.components[0]!,
+          variants: [
+            ...fixedBundle.components[0]!.variants,
+            {
+              id: 'v1-large',
+              title: 'Large',
+              price: { amount: '10.00', currencyCode: 'USD' },
+              availableForSale: true,
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = await editBundleInCart(definition, config, {
+      cartId: 'cart-1',
+      group: editGroup,
+      selectedComponents: [{ productId: 'p1', variantId: 'v1-large', quantity: 1 }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [update] = sentVariables(fetchMock).lines;
+    const attribute = (key: string) =>
+      update.attributes.find((a: { key: string }) => a.key === key)?.value;
+
+    expect(update.id).toBe('line-1');
+    expect(update.merchandiseId).toBe('v1-large');
+    // Bundle quantity (2) is preserved
+    expect(update.quantity).toBe(2);
+    expect(attribute(BUNDLE_ATTRIBUTES.bundleInstanceId)).toBe('instance-1');
+    expect(attribute('gift_note')).toBe('Hi');
+  });
+
+  it('drops deselected components in the update and undoes it when the add fails', async () => {
+    const payload = (key: string, userErrors: unknown[] = []) => ({
+      ok: true,
+      json: async () => ({ data: { [key]: { cart: null, userErrors } } }),
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(payload('cartLinesUpdate'))
+      .mockResolvedValueOnce(
+        payload('cartLinesAdd', [{ field: ['lines'], message: 'Sold out', code: 'INVALID' }]),
+      )
+      .mockResolvedValue(payload('cartLinesUpdate'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const mixBundle: BundleDefinition = {
+      ...fixedBundle,
+      bundleType: 'mix_and_match',
+      minSelections: 2,
+      maxSelections: 2,
+    };
+    const editGroup: BundleLineGroup = {
+      bundleProductId: mixBundle.id,
+      lines: [
+        {
+          ...componentLine('p1', 1),
+          id: 'line-1',
+          merchandise: { id: 'v1-old', title: 'Old', product: { id: 'p1', title: 'Product 1' } },
+        },
+        componentLine('socks', 1),
+      ],
+    };
+
+    const result = await editBundleInCart(mixBundle, config, {
+      cartId: 'cart-1',
+      group: editGroup,
+      selectedComponents: [
+        { productId: 'p1', variantId: 'v1', quantity: 1 },
+        { productId: 'p2', variantId: 'v2', quantity: 1 },
+      ],
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'Sold out' });
+
+    const variables = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).variables);
+    expect(variables).toHaveLength(4);
+    expect(variables[0].lines).toEqual([
+      expect.objectContaining({ id: 'line-1', merchandiseId: 'v1' }),
+      { id: 'socks', quantity: 0 },
+    ]);
+    expect(variables[1].lines).toEqual([expect.objectContaining({ merchandiseId: 'v2' })]);
+    // The swapped line gets its variant back and the removed line is re-added
+    expect(variables[2].lines).toEqual([
+      {
+        id: 'line-1',
+        merchandiseId: 'v1-old',
+        quantity: 1,
+        attributes: editGroup.lines[0]!.attributes,
+      },
+    ]);
+    expect(variables[3].lines).toEqual([
+      { merchandiseId: 'variant-socks', quantity: 1, attributes: editGroup.lines[1]!.attributes },
+    ]);
+  });
+
+  it('rejects invalid selections when editing', async () => {
+    const fetchMock = mockFetch('cartLinesUpdate');
+    const mixBundle: BundleDefinition = {
+      ...fixedBundle,
+      bundleType: 'mix_and_match',
+      minSelections: 2,
+    };
+
+    const result = await editBundleInCart(mixBundle, config, {
+      cartId: 'cart-1',
+      group,
+      selectedComponents: [{ productId: 'p1', variantId: 'v1', quantity: 1 }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns user errors as a failed result', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: {
+            cartLinesUpdate: {
+              cart: null,
+              userErrors: [{ field: ['lines'], message: 'Not enough stock', code: 'INVALID' }],
+            },
+          },
+        }),
+      }),
+    );
+
+    const result = await updateBundleQuantityInCart(group, config, {
+      cartId: 'cart-1',
+      quantity: 5,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Not enough stock');
+  });
 });
@@ -7,9 +7,18 @@
 
 import { describe, it, expect } from 'vitest';
 
-import { formatMoney, formatSavings } from '../sdk/calculatePrice.js';
+import {
+  allocateBundlePrice,
+  calculateBundlePrice,
+  formatMoney,
+  formatNextTier,
+  formatSavings,
+  getNextPricingTier,
+  getPricingTier,
+} from '../sdk/calculatePrice.js';
+import { clearAllCache } from '../utils/cache.js';
 
-import type { Money } from '../types.js';
+import type { BundleDefinition, Money } from '../types.js';
 
 // We can't directly test calculatePriceFromDefinition (not exported), but we can
 // test calculateBundlePrice with a definition object (no API call needed).
@@ -85,3 +94,193 @@ describe('formatSavings', () => {
     expect(result).toContain('50%');
   });
 });
+
+// ---------------------------------------------------------------------------
+// calculateBundlePrice (from a definition)
+// ---------------------------------------------------------------------------
+
+function createDefinition(
+  currencyCode: string,
+  prices: Array<[string, number]>,
+  pricing: BundleDefinition['pricing'],
+): BundleDefinition {
+  return {
+    id: `gid://shopify/Product/${currencyCode}`,
+    title: 'Kit',
+    handle: 'kit',
+    bundleType: 'fixed',
+    availableForSale: true,
+    pricing,
+    components: prices.map(([amount, quantity], index) => ({
+      productId: `gid://shopify/Product/${index + 10}`,
+      productTitle: `Product ${index}`,
+      productHandle: `product-${index}`,
+      quantity,
+      variants: [
+        {
+          id: `gid://shopify/ProductVariant/${index + 10}`,
+          title: 'Default',
+          price: { amount, currencyCode },
+          availableForSale: true,
+        },
+      ],
+    })),
+  };
+}
+
+describe('calculateBundlePrice', () => {
+  const config = { storeDomain: 'my-store.myshopify.com' };
+
+  it('keeps cents exact on large bundles', async () => {
+    clearAllCache();
+    const definition = createDefinition(
+      'USD',
+      Array.from({ length: 30 }, (): [string, number] => ['0.10', 3]),
+      { discountType: 'percentage', discountValue: 15 },
+    );
+
+    const result = await calculateBundlePrice(definition, config);
+
+    expect(result.originalPrice.amount).toBe('9.00');
+    expect(result.savings.amount).toBe('1.35');
+    expect(result.bundlePrice.amount).toBe('7.65');
+  });
+
+  it('uses zero decimals for JPY', async () => {
+    clearAllCache();
+    const definition = createDefinition(
+      'JPY',
+      [
+        ['1999.0', 1],
+        ['1000.0', 2],
+      ],
+      { discountType: 'percentage', discountValue: 15, currencyCode: 'JPY' },
+    );
+
+    const result = await calculateBundlePrice(definition, config);
+
+    expect(result.originalPrice).toEqual({ amount: '3999', currencyCode: 'JPY' });
+    expect(result.savings.amount).toBe('600');
+    expect(result.bundlePrice.amount).toBe('3399');
+    expect(result.componentPrices[1]!.lineTotal.amount).toBe('2000');
+  });
+
+  it('uses three decimals for KWD', async () => {
+    clearAllCache();
+    const definition = createDefinition('KWD', [['1.255', 2]], {
+      discountType: 'fixed_amount',
+      discountValue: 0.5,
+      currencyCode: 'KWD',
+    });
+
+    const result = await calculateBundlePrice(definition, config);
+
+    expect(result.originalPrice.amount).toBe('2.510');
+    expect(result.bundlePrice.amount).toBe('2.010');
+  });
+});
+
+describe('allocateBundlePrice', () => {
+  const config = { storeDomain: 'my-store.myshopify.com' };
+  const definition = createDefinition(
+    'USD',
+    [
+      ['10.00', 1],
+      ['10.00', 1],
+      ['20.00', 1],
+    ],
+    { discountType: 'fixed_price', discountValue: 33.33 },
+  );
+
+  const totals = (result: { componentPrices: Array<{ allocatedTotal?: Money }> }) =>
+    result.componentPrices.map((c) => c.allocatedTotal?.amount);
+
+  it('allocates proportionally to line totals by default', async () => {
+    clearAllCache();
+    const result = await calculateBundlePrice(definition, config);
+
+    expect(result.allocationStrategy).toBe('proportional');
+    expect(totals(result)).toEqual(['8.33', '8.33', '16.67']);
+  });
+
+  it('splits equally or by weight', async () => {
+    clearAllCache();
+    const equal = await calculateBundlePrice(definition, config, { allocationStrategy: 'equal' });
+    expect(totals(equal)).toEqual(['11.11', '11.11', '11.11']);
+
+    const weighted = allocateBundlePrice(
+      equal,
+      'weighted',
+      {
+        ...definition,
+        components: definition.components.map((c, i) => ({ ...c, allocationWeight: i + 1 })),
+      },
+    );
+    expect(totals(weighted)).toEqual(['5.56', '11.11', '16.66']);
+  });
+
+  it('re-allocates a cached price for another strategy', async () => {
+    clearAllCache();
+    await calculateBundlePrice(definition, config);
+
+    const result = await calculateBundlePrice(definition, { ...config, priceAllocation: 'equal' });
+
+    expect(result.allocationStrategy).toBe('equal');
+  });
+});
+
+describe('tiered pricing', () => {
+  const config = { storeDomain: 'my-store.myshopify.com' };
+  const pricing: BundleDefinition['pricing'] = {
+    discountType: 'tiered',
+    tiers: [
+      { minQuantity: 5, discountValue: 20 },
+      { minQuantity: 3, discountValue: 10 },
+      { minQuantity: 8, discountValue: 30 },
+    ],
+  };
+  const definition: BundleDefinition = {
+    ...createDefinition('USD', [['10.00', 1]], pricing),
+    bundleType: 'mix_and_match',
+  };
+  const select = (quantity: number) => [
+    {
+      productId: definition.components[0]!.productId,
+      variantId: definition.components[0]!.variants[0]!.id,
+      quantity,
+    },
+  ];
+
+  it('applies the highest tier the selection count reaches', async () => {
+    clearAllCache();
+    const two = await calculateBundlePrice(definition, config, { selectedComponents: select(2) });
+    expect(two.bundlePrice.amount).toBe('20.00');
+    expect(two.appliedTier).toBeUndefined();
+
+    const six = await calculateBundlePrice(definition, config, { selectedComponents: select(6) });
+    expect(six.bundlePrice.amount).toBe('48.00');
+    expect(six.appliedTier).toEqual({ minQuantity: 5, discountValue: 20 });
+  });
+
+  it('finds the current and next tier', () => {
+    expect(getPricingTier(pricing, 2)).toBeNull();
+    expect(getPricingTier(pricing, 8)?.discountValue).toBe(30);
+    expect(getNextPricingTier(pricing, 3)).toEqual({
+      tier: { minQuantity: 5, discountValue: 20 },
+      itemsNeeded: 2,
+    });
+    expect(getNextPricingTier(pricing, 9)).toBeNull();
+    expect(getNextPricingTier({ discountType: 'percentage', discountValue: 10 }, 1)).toBeNull();
+  });
+
+  it('formats the next tier', () => {
+    const tier = { minQuantity: 5, discountValue: 20 };
+    expect(formatNextTier({ tier, itemsNeeded: 2 }, 'USD')).toBe('Add 2 more to save 20%');
+    expect(
+      formatNextTier({ tier: { ...tier, discountType: 'fixed_amount' }, itemsNeeded: 1 }, 'USD'),
+    ).toBe('Add 1 more to save $20.00');
+    expect(
+      formatNextTier({ tier: { ...tier, discountType: 'fixed_price' }, itemsNeeded: 1 }, 'USD'),
+    ).toBe('Add 1 more to get 5 for $20.00');
+  });
+});
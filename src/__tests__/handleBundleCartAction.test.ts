@@ -0,0 +1,132 @@
+/**
+ * hydrogen-bundles cart action tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { handleBundleCartAction } from '../sdk/handleBundleCartAction.js';
+import { clearAllCache, cacheDefinition } from '../utils/cache.js';
+import { BUNDLE_ATTRIBUTES, BUNDLE_CART_ACTIONS, CART_FORM_INPUT_FIELD } from '../utils/constants.js';
+import { BundleBridgeError, ERROR_CODES } from '../utils/errors.js';
+
+import type { BundleBridgeConfig, BundleDefinition } from '../types.js';
+
+const config: BundleBridgeConfig = { storeDomain: 'my-store.myshopify.com' };
+
+const definition: BundleDefinition = {
+  id: 'gid://shopify/Product/1',
+  title: 'Pick Two',
+  handle: 'pick-two',
+  bundleType: 'mix_and_match',
+  minSelections: 2,
+  availableForSale: true,
+  pricing: { discountType: 'percentage', discountValue: 10 },
+  components: [
+    {
+      productId: 'gid://shopify/Product/2',
+      productTitle: 'Soap',
+      productHandle: 'soap',
+      quantity: 1,
+      variants: [
+        {
+          id: 'gid://shopify/ProductVariant/2',
+          title: 'Default',
+          price: { amount: '10.00', currencyCode: 'USD' },
+          availableForSale: true,
+        },
+      ],
+    },
+  ],
+};
+
+function createCart() {
+  return {
+    addLines: vi.fn().mockResolvedValue({ cart: { id: 'cart-1' } }),
+    updateLines: vi.fn().mockResolvedValue({ cart: { id: 'cart-1' } }),
+    removeLines: vi.fn().mockResolvedValue({ cart: { id: 'cart-1' } }),
+  };
+}
+
+describe('handleBundleCartAction', () => {
+  beforeEach(() => {
+    clearAllCache();
+    cacheDefinition(definition.id, definition);
+  });
+
+  it('adds bundle lines with the cart handler', async () => {
+    const cart = createCart();
+
+    const result = await handleBundleCartAction(
+      cart,
+      {
+        action: BUNDLE_CART_ACTIONS.add,
+        inputs: {
+          bundleId: definition.id,
+          selectedComponents: [
+            { productId: 'gid://shopify/Product/2', variantId: 'gid://shopify/ProductVariant/2', quantity: 2 },
+          ],
+        },
+      },
+      config,
+    );
+
+    expect(result).toEqual({ cart: { id: 'cart-1' } });
+    const [lines] = cart.addLines.mock.calls[0] as [
+      Array<{ merchandiseId: string; quantity: number; attributes: Array<{ key: string; value: string }> }>,
+    ];
+    expect(lines).toHaveLength(1);
+    expect(lines[0]!.merchandiseId).toBe('gid://shopify/ProductVariant/2');
+    expect(lines[0]!.attributes).toContainEqual({
+      key: BUNDLE_ATTRIBUTES.bundleProductId,
+      value: definition.id,
+    });
+  });
+
+  it('rejects incomplete mix-and-match selections', async () => {
+    const cart = createCart();
+
+    const error = await handleBundleCartAction(
+      cart,
+      { action: BUNDLE_CART_ACTIONS.add, inputs: { bundleId: definition.id, selectedComponents: [] } },
+      config,
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(BundleBridgeError);
+    expect((error as BundleBridgeError).code).toBe(ERROR_CODES.INVALID_SELECTION);
+    expect(cart.addLines).not.toHaveBeenCalled();
+  });
+
+  it('reads the CartForm input from form data', async () => {
+    const cart = createCart();
+    const formData = new FormData();
+    formData.set(
+      CART_FORM_INPUT_FIELD,
+      JSON.stringify({ action: BUNDLE_CART_ACTIONS.remove, inputs: { lineIds: ['line-1', 'line-2'] } }),
+    );
+
+    await handleBundleCartAction(cart, formData, config);
+
+    expect(cart.removeLines).toHaveBeenCalledWith(['line-1', 'line-2']);
+  });
+
+  it('updates line quantities', async () => {
+    const cart = createCart();
+
+    await handleBundleCartAction(
+      cart,
+      { action: BUNDLE_CART_ACTIONS.update, inputs: { lines: [{ id: 'line-1', quantity: 4 }] } },
+      config,
+    );
+
+    expect(cart.updateLines).toHaveBeenCalledWith([{ id: 'line-1', quantity: 4 }]);
+  });
+
+  it('returns null for other actions', async () => {
+    const cart = createCart();
+
+    expect(
+      await handleBundleCartAction(cart, { action: 'LinesAdd', inputs: { lines: [] } }, config),
+    ).toBeNull();
+    expect(cart.addLines).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles headless hook and unstyled component tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ReactNode } from 'react';
+import { act, render, renderHook } from '@testing-library/react';
+
+import { BundleAddToCart } from '../components/BundleAddToCart.js';
+import { BundleLineItem } from '../components/BundleLineItem.js';
+import { BundlePicker } from '../components/BundlePicker.js';
+import { BundleProvider } from '../components/BundleProvider.js';
+import { BundleSavings } from '../components/BundleSavings.js';
+import { useBundleAddToCartButton } from '../hooks/useBundleAddToCartButton.js';
+import { useBundleLineItem } from '../hooks/useBundleLineItem.js';
+import { useBundlePicker } from '../hooks/useBundlePicker.js';
+
+import type { BundleDefinition, BundleSelection } from '../types.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+const definition: BundleDefinition = {
+  id: 'gid://shopify/Product/1',
+  title: 'Build a Box',
+  handle: 'build-a-box',
+  bundleType: 'mix_and_match',
+  minSelections: 1,
+  maxSelections: 1,
+  availableForSale: true,
+  pricing: { discountType: 'percentage', discountValue: 10 },
+  components: [10, 20].map((id) => ({
+    productId: `gid://shopify/Product/${id}`,
+    productTitle: `Product ${id}`,
+    productHandle: `product-${id}`,
+    quantity: 1,
+    variants: ['S', 'M'].map((size, i) => ({
+      id: `gid://shopify/ProductVariant/${id + i}`,
+      title: size,
+      price: money('10.00'),
+      availableForSale: true,
+      selectedOptions: [{ name: 'Size', value: size }],
+    })),
+  })),
+};
+
+const lines = [
+  {
+    id: 'gid://shopify/CartLine/1',
+    quantity: 2,
+    merchandise: {
+      id: 'gid://shopify/ProductVariant/10',
+      title: 'S',
+      price: money('10.00'),
+      product: { id: 'gid://shopify/Product/10', title: 'Product 10', handle: 'product-10' },
+    },
+    attributes: [{ key: '_bundle_component_quantity', value: '1' }],
+    cost: { totalAmount: money('20.00') },
+  },
+];
+
+const config = {
+  storeDomain: 'my-store.myshopify.com',
+  storefront: { query: vi.fn(), mutate: vi.fn() },
+};
+
+describe('useBundlePicker', () => {
+  it('selects up to the limit and moves selections to the chosen variant', () => {
+    const onSelectionChange = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ selectedComponents }) =>
+        useBundlePicker({ definition, selectedComponents, onSelectionChange }),
+      { initialProps: { selectedComponents: [] as BundleSelection[] } },
+    );
+
+    act(() => result.current.toggle(result.current.items[0]!));
+    const selections = onSelectionChange.mock.calls[0]![0];
+    expect(selections).toEqual([
+      {
+        productId: 'gid://shopify/Product/10',
+        variantId: 'gid://shopify/ProductVariant/10',
+        quantity: 1,
+      },
+    ]);
+
+    rerender({ selectedComponents: selections });
+    expect(result.current.isComplete).toBe(true);
+    expect(result.current.getToggleProps(result.current.items[1]!)['aria-disabled']).toBe(true);
+
+    act(() => result.current.toggle(result.current.items[1]!));
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+    expect(result.current.announcement).toMatch(/^Selection limit reached/);
+
+    act(() =>
+      result.current.chooseVariant(
+        result.current.items[0]!,
+        definition.components[0]!.variants[1]!,
+      ),
+    );
+    expect(onSelectionChange).toHaveBeenLastCalledWith([
+      {
+        productId: 'gid://shopify/Product/10',
+        variantId: 'gid://shopify/ProductVariant/11',
+        quantity: 1,
+      },
+    ]);
+  });
+});
+
+describe('useBundleLineItem', () => {
+  it('derives the bundle quantity and wires the stepper', () => {
+    const onQuantityChange = vi.fn();
+    const { result } = renderHook(() =>
+      useBundleLineItem({ lines, bundleTitle: 'Build a Box', onQuantityChange }),
+    );
+
+    expect(result.current.bundleQuantity).toBe(2);
+    expect(result.current.totalPrice).toEqual(money('20.00'));
+
+    const increment = result.current.getIncrementProps();
+    expect(increment['aria-label']).toBe('Increase quantity of Build a Box');
+    expect(increment['aria-describedby']).toBe(result.current.getQuantityProps().id);
+
+    act(() => result.current.getDecrementProps().onClick?.({} as never));
+    expect(onQuantityChange).toHaveBeenCalledWith(1);
+  });
+
+  it('keeps the editor open until the edit succeeds', async () => {
+    const onEdit = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: 'Sold out' })
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ success: true });
+    const { result } = renderHook(() => useBundleLineItem({ lines, definition, onEdit }));
+
+    act(() => result.current.startEdit());
+
+    for (const saved of [false, false, true]) {
+      await act(async () => {
+        expect(await result.current.saveEdit()).toBe(saved);
+      });
+      expect(result.current.isEditing).toBe(!saved);
+    }
+    expect(onEdit).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('useBundleAddToCartButton', () => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <BundleProvider config={config}>{children}</BundleProvider>
+  );
+
+  it('disables the button until the selection is complete', () => {
+    const { result } = renderHook(
+      () => useBundleAddToCartButton({ definition, selectedComponents: [] }),
+      { wrapper },
+    );
+
+    expect(result.current.isSelectionIncomplete).toBe(true);
+    expect(result.current.getButtonProps()).toMatchObject({
+      type: 'button',
+      disabled: true,
+      'aria-describedby': result.current.getHintProps().id,
+    });
+  });
+
+  it('submits a form with the hidden fields when given an action', () => {
+    const { result } = renderHook(
+      () =>
+        useBundleAddToCartButton({
+          definition: { ...definition, bundleType: 'fixed' },
+          action: '/bundles/add',
+          cartId: 'gid://shopify/Cart/1',
+        }),
+      { wrapper },
+    );
+
+    expect(result.current.getButtonProps()).toMatchObject({ type: 'submit', disabled: false });
+    expect(result.current.getFormProps()).toMatchObject({ method: 'post', action: '/bundles/add' });
+    expect(result.current.getHiddenInputs().map((input) => input.name)).toEqual([
+      'bundleId',
+      'quantity',
+      'cartId',
+    ]);
+  });
+});
+
+describe('unstyled components', () => {
+  it('render without style tags', () => {
+    const { container } = render(
+      <BundleProvider config={config}>
+        <BundlePicker
+          definition={definition}
+          selectedComponents={[]}
+          onSelectionChange={vi.fn()}
+          unstyled
+        />
+        <BundleLineItem lines={lines} unstyled />
+        <BundleLineItem lines={lines} displayMode="expanded" unstyled />
+        <BundleAddToCart definition={definition} unstyled />
+        <BundleSavings
+          savings={money('5.00')}
+          savingsPercentage={10}
+          nextTier={{ itemsNeeded: 1, tier: { minQuantity: 2, discountValue: 20 } }}
+          unstyled
+        />
+      </BundleProvider>,
+    );
+
+    expect(container.querySelector('.bundle-picker__toggle')).not.toBeNull();
+    expect(container.querySelector('.bundle-savings--badge')).not.toBeNull();
+    expect(container.querySelectorAll('style')).toHaveLength(0);
+  });
+
+  it('keep their styles by default', () => {
+    const { container } = render(<BundleSavings savings={money('5.00')} savingsPercentage={10} />);
+
+    expect(container.querySelectorAll('style')).toHaveLength(1);
+  });
+});
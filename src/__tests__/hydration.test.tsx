@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles server data (initialData) hydration tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StrictMode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+
+import { useBundleDefinition } from '../hooks/useBundleDefinition.js';
+import { useBundleInventory } from '../hooks/useBundleInventory.js';
+import { useBundlePrice } from '../hooks/useBundlePrice.js';
+
+import type {
+  BundleDefinition,
+  BundleInventory,
+  BundlePriceResult,
+  BundleSelection,
+} from '../types.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+function createPageData(id: number, handle: string, amount: string) {
+  const definition: BundleDefinition = {
+    id: `gid://shopify/Product/${id}`,
+    title: handle,
+    handle,
+    bundleType: 'fixed',
+    availableForSale: true,
+    pricing: { discountType: 'percentage', discountValue: 10 },
+    components: [],
+  };
+  const inventory: BundleInventory = {
+    available: true,
+    status: 'available',
+    maxQuantity: id,
+    components: [],
+  };
+  const price: BundlePriceResult = {
+    originalPrice: money(amount),
+    bundlePrice: money(amount),
+    savings: money('0.00'),
+    savingsPercentage: 0,
+    componentPrices: [],
+  };
+
+  return { definition, inventory, price };
+}
+
+function createConfig() {
+  const query = vi.fn(async () => {
+    throw new Error('unexpected request');
+  });
+  return {
+    query,
+    config: { storeDomain: 'my-store.myshopify.com', storefront: { query, mutate: vi.fn() } },
+  };
+}
+
+describe('initialData hydration', () => {
+  it('replaces the state with the next page data without fetching', () => {
+    const { config, query } = createConfig();
+    const pageA = createPageData(1, 'bundle-a', '30.00');
+    const pageB = createPageData(2, 'bundle-b', '45.00');
+
+    const { result, rerender } = renderHook(
+      ({ data }) => {
+        const { definition } = useBundleDefinition({
+          bundleId: data.definition.id,
+          config,
+          initialData: data.definition,
+        });
+        const { inventory } = useBundleInventory({
+          definition,
+          config,
+          initialData: data.inventory,
+        });
+        const { priceResult } = useBundlePrice({ definition, config, initialData: data.price });
+        return { definition, inventory, priceResult };
+      },
+      { initialProps: { data: pageA }, wrapper: StrictMode },
+    );
+
+    expect(result.current.definition).toBe(pageA.definition);
+
+    rerender({ data: pageB });
+
+    expect(result.current).toEqual({
+      definition: pageB.definition,
+      inventory: pageB.inventory,
+      priceResult: pageB.price,
+    });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('fetches once the selections move away from the server data', async () => {
+    const { config, query } = createConfig();
+    const { definition, inventory } = createPageData(1, 'bundle-a', '30.00');
+    const selections: BundleSelection[] = [
+      {
+        productId: 'gid://shopify/Product/10',
+        variantId: 'gid://shopify/ProductVariant/10',
+        quantity: 1,
+      },
+    ];
+
+    const { rerender } = renderHook(
+      ({ selectedComponents }) =>
+        useBundleInventory({ definition, config, selectedComponents, initialData: inventory }),
+      { initialProps: { selectedComponents: [] as BundleSelection[] }, wrapper: StrictMode },
+    );
+
+    expect(query).not.toHaveBeenCalled();
+
+    rerender({ selectedComponents: selections });
+
+    await waitFor(() => expect(query).toHaveBeenCalled());
+  });
+
+  it('fetches a bundle the server data is not for', async () => {
+    const { config, query } = createConfig();
+    const { definition } = createPageData(1, 'bundle-a', '30.00');
+
+    renderHook(() =>
+      useBundleDefinition({ bundleId: 'bundle-b', config, initialData: definition }),
+    );
+
+    await waitFor(() => expect(query).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * hydrogen-bundles server helper tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { handleBundleAddToCartAction, loadBundlePageData } from '../sdk/loadBundlePage.js';
+import { clearAllCache } from '../utils/cache.js';
+import { BUNDLE_FORM_FIELDS } from '../utils/constants.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+const bundleProduct = {
+  id: 'gid://shopify/Product/1',
+  title: 'Starter Kit',
+  handle: 'starter-kit',
+  availableForSale: true,
+  variants: {
+    nodes: [
+      {
+        id: 'gid://shopify/ProductVariant/1',
+        title: 'Default',
+        price: money('45.00'),
+        availableForSale: true,
+        bundleComponents: {
+          nodes: [
+            {
+              product: { id: 'gid://shopify/Product/2', title: 'Shampoo', handle: 'shampoo' },
+              variant: {
+                id: 'gid://shopify/ProductVariant/2',
+                title: 'Default',
+                availableForSale: true,
+                quantityAvailable: 10,
+                price: money('50.00'),
+              },
+              quantity: 1,
+            },
+          ],
+        },
+      },
+    ],
+  },
+};
+
+function createStorefront() {
+  return {
+    query: vi.fn(async (query: string) => {
+      if (query.includes('VariantsInventory')) {
+        return {
+          nodes: [{ id: 'gid://shopify/ProductVariant/2', availableForSale: true, quantityAvailable: 10 }],
+        };
+      }
+      return { product: bundleProduct };
+    }),
+    mutate: vi.fn(async () => ({
+      cartCreate: {
+        cart: { id: 'gid://shopify/Cart/1', lines: { nodes: [] }, cost: { totalAmount: money('45.00') } },
+        userErrors: [],
+      },
+    })),
+  };
+}
+
+function createFormRequest(fields: Record<string, string>) {
+  const body = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    body.set(key, value);
+  }
+  return new Request('https://shop.test/products/starter-kit', { method: 'POST', body });
+}
+
+describe('loadBundlePageData', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('loads the definition, inventory and price through the storefront client', async () => {
+    const storefront = createStorefront();
+
+    const data = await loadBundlePageData(
+      new Request('https://shop.test/products/starter-kit'),
+      { storefront, env: { PUBLIC_STORE_DOMAIN: 'my-store.myshopify.com' } },
+      'starter-kit',
+    );
+
+    expect(data.definition.id).toBe('gid://shopify/Product/1');
+    expect(data.inventory?.available).toBe(true);
+    expect(data.price?.bundlePrice.amount).toBe('45.00');
+    expect(storefront.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null inventory when the inventory check fails', async () => {
+    const storefront = createStorefront();
+    storefront.query.mockImplementation(async (query: string) => {
+      if (query.includes('VariantsInventory')) throw new Error('Throttled');
+      return { product: bundleProduct };
+    });
+
+    const data = await loadBundlePageData(
+      new Request('https://shop.test/products/starter-kit'),
+      { storefront },
+      'starter-kit',
+    );
+
+    expect(data.inventory).toBeNull();
+    expect(data.price).not.toBeNull();
+  });
+});
+
+describe('handleBundleAddToCartAction', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('requires a bundle ID', async () => {
+    const result = await handleBundleAddToCartAction(createFormRequest({}), {
+      storefront: createStorefront(),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'A bundle ID is required',
+      errorKey: 'validation.bundleIdRequired',
+    });
+  });
+
+  it('adds the bundle to a new cart, persists it and redirects to a same-origin path', async () => {
+    const storefront = createStorefront();
+    const setCartId = vi.fn(
+      (cartId: string) => new Headers({ 'Set-Cookie': `cart=${cartId.split('/').pop()}` }),
+    );
+
+    const response = await handleBundleAddToCartAction(
+      createFormRequest({
+        [BUNDLE_FORM_FIELDS.bundleId]: 'starter-kit',
+        [BUNDLE_FORM_FIELDS.quantity]: '2',
+        [BUNDLE_FORM_FIELDS.redirectTo]: '/cart',
+      }),
+      { storefront, cart: { setCartId } },
+    );
+
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(303);
+    expect((response as Response).headers.get('Location')).toBe('/cart');
+    expect((response as Response).headers.get('Set-Cookie')).toBe('cart=1');
+    expect(setCartId).toHaveBeenCalledWith('gid://shopify/Cart/1');
+
+    const [, options] = storefront.mutate.mock.calls[0] as unknown as [
+      string,
+      { variables: { input: { lines: Array<{ quantity: number }> } } },
+    ];
+    expect(options.variables.input.lines[0]!.quantity).toBe(2);
+  });
+
+  it('returns the new cart when it cannot be persisted', async () => {
+    const result = await handleBundleAddToCartAction(
+      createFormRequest({
+        [BUNDLE_FORM_FIELDS.bundleId]: 'starter-kit',
+        [BUNDLE_FORM_FIELDS.redirectTo]: '/cart',
+      }),
+      { storefront: createStorefront() },
+    );
+
+    expect(result).toMatchObject({ success: true, cart: { id: 'gid://shopify/Cart/1' } });
+  });
+
+  it('redirects without a cart handler when the cart ID is posted', async () => {
+    const response = await handleBundleAddToCartAction(
+      createFormRequest({
+        [BUNDLE_FORM_FIELDS.bundleId]: 'starter-kit',
+        [BUNDLE_FORM_FIELDS.cartId]: 'gid://shopify/Cart/1',
+        [BUNDLE_FORM_FIELDS.redirectTo]: '/cart?added=1',
+      }),
+      { storefront: createStorefront() },
+    );
+
+    expect((response as Response).headers.get('Location')).toBe('/cart?added=1');
+  });
+
+  it('ignores redirects to other origins', async () => {
+    const setCartId = () => new Headers();
+
+    for (const redirectTo of ['//evil.test', '/\\evil.test', 'https://evil.test']) {
+      const result = await handleBundleAddToCartAction(
+        createFormRequest({
+          [BUNDLE_FORM_FIELDS.bundleId]: 'starter-kit',
+          [BUNDLE_FORM_FIELDS.redirectTo]: redirectTo,
+        }),
+        { storefront: createStorefront(), cart: { setCartId } },
+      );
+
+      expect(result).toMatchObject({ success: true });
+    }
+  });
+});
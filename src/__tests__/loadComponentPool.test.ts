@@ -0,0 +1,144 @@
+/**
+ * hydrogen-bundles component pool tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { matchesPoolFilters } from '../sdk/bundleMetafields.js';
+import { loadCollectionComponents } from '../sdk/loadComponentPool.js';
+import { BundleBridgeError } from '../utils/errors.js';
+
+import type { BundleBridgeConfig } from '../types.js';
+
+const variant = (id: number) => ({
+  id: `gid://shopify/ProductVariant/${id}`,
+  title: `Variant ${id}`,
+  availableForSale: true,
+  price: { amount: '10.00', currencyCode: 'USD' },
+});
+
+const product = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id: `gid://shopify/Product/${id}`,
+  title: `Product ${id}`,
+  handle: `product-${id}`,
+  productType: 'Socks',
+  tags: ['box'],
+  availableForSale: true,
+  variants: { nodes: [variant(id * 10)], pageInfo: { hasNextPage: false, endCursor: null } },
+  ...overrides,
+});
+
+type QueryOptions = { variables: Record<string, unknown> };
+
+function createConfig(handler: (document: string, options: QueryOptions) => unknown) {
+  const query = vi.fn(async (document: string, options: QueryOptions) =>
+    handler(document, options),
+  );
+  return {
+    query,
+    config: {
+      storeDomain: 'my-store.myshopify.com',
+      storefront: { query, mutate: vi.fn() },
+    } as BundleBridgeConfig,
+  };
+}
+
+describe('loadCollectionComponents', () => {
+  it('follows product and variant cursors until exhausted', async () => {
+    const { config, query } = createConfig((document, { variables }) => {
+      if (document.includes('ProductVariants')) {
+        const after = variables.after as string;
+        return {
+          product: {
+            variants: {
+              nodes: [variant(after === 'v1' ? 12 : 13)],
+              pageInfo: { hasNextPage: after === 'v1', endCursor: after === 'v1' ? 'v2' : null },
+            },
+          },
+        };
+      }
+
+      const firstPage = !variables.after;
+      return {
+        collection: {
+          products: {
+            nodes: firstPage
+              ? [
+                  product(1, {
+                    variants: {
+                      nodes: [variant(11)],
+                      pageInfo: { hasNextPage: true, endCursor: 'v1' },
+                    },
+                  }),
+                ]
+              : [product(2)],
+            pageInfo: { hasNextPage: firstPage, endCursor: firstPage ? 'p1' : null },
+          },
+        },
+      };
+    });
+
+    const components = await loadCollectionComponents('build-a-box', config, {
+      limits: { 'product-2': { maxQuantity: 1 } },
+    });
+
+    expect(components.map((c) => c.productId)).toEqual([
+      'gid://shopify/Product/1',
+      'gid://shopify/Product/2',
+    ]);
+    expect(components[0]!.variants.map((v) => v.id)).toEqual([
+      'gid://shopify/ProductVariant/11',
+      'gid://shopify/ProductVariant/12',
+      'gid://shopify/ProductVariant/13',
+    ]);
+    expect(components[1]).toMatchObject({ maxQuantity: 1, allowQuantitySelection: false });
+    expect(query).toHaveBeenCalledTimes(4);
+    expect(query.mock.calls[0]![1].variables).toMatchObject({ handle: 'build-a-box', after: null });
+    expect(query.mock.calls[1]![1].variables).toMatchObject({ after: 'p1' });
+  });
+
+  it('skips the variants of filtered-out products', async () => {
+    const { config, query } = createConfig(() => ({
+      collection: {
+        products: {
+          nodes: [
+            product(1, { productType: 'Mugs' }),
+            product(2, {
+              variants: { nodes: [variant(20)], pageInfo: { hasNextPage: true, endCursor: 'v' } },
+              availableForSale: false,
+            }),
+            product(3),
+          ],
+          pageInfo: { hasNextPage: false, endCursor: null },
+        },
+      },
+    }));
+
+    const components = await loadCollectionComponents('gid://shopify/Collection/1', config, {
+      filters: { productTypes: ['socks'], availableOnly: true },
+    });
+
+    expect(components.map((c) => c.productHandle)).toEqual(['product-3']);
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls[0]![1].variables).toMatchObject({ id: 'gid://shopify/Collection/1' });
+  });
+
+  it('throws when the collection does not exist', async () => {
+    const { config } = createConfig(() => ({ collection: null }));
+
+    await expect(loadCollectionComponents('missing', config)).rejects.toBeInstanceOf(
+      BundleBridgeError,
+    );
+  });
+});
+
+describe('matchesPoolFilters', () => {
+  it('requires every filter and any value within a filter', () => {
+    const sock = product(1, { tags: ['Summer', 'box'] });
+
+    expect(matchesPoolFilters(sock)).toBe(true);
+    expect(matchesPoolFilters(sock, { tags: ['winter', 'summer'] })).toBe(true);
+    expect(matchesPoolFilters(sock, { tags: ['summer'], productTypes: ['Mugs'] })).toBe(false);
+    expect(matchesPoolFilters({ ...sock, tags: undefined }, { tags: ['box'] })).toBe(false);
+  });
+});
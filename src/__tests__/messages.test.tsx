@@ -0,0 +1,187 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles message catalog tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+
+import { BundleAddToCart } from '../components/BundleAddToCart.js';
+import { BundlePicker } from '../components/BundlePicker.js';
+import { BundleProvider } from '../components/BundleProvider.js';
+import { formatNextTier } from '../sdk/calculatePrice.js';
+import {
+  BundleBridgeError,
+  createError,
+  ERROR_CODES,
+  getErrorResult,
+  getUserMessage,
+} from '../utils/errors.js';
+import { formatMessage } from '../utils/messages.js';
+
+import type { BundleDefinition } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// formatMessage
+// ---------------------------------------------------------------------------
+
+describe('formatMessage', () => {
+  it('interpolates params into the default message', () => {
+    expect(formatMessage('picker.selectedCount', { count: 2, range: '3-5' })).toBe(
+      '2 of 3-5 selected',
+    );
+  });
+
+  it('picks plural branches by the locale rules', () => {
+    expect(formatMessage('addToCart.selectionHint', { count: 1 })).toBe(
+      'Please select 1 item to continue.',
+    );
+    expect(formatMessage('addToCart.selectionHint', { count: 3 })).toBe(
+      'Please select 3 items to continue.',
+    );
+
+    const messages = {
+      'lineItem.itemCount': '{count, plural, =0 {vide} one {# article} other {# articles}}',
+    };
+    expect(formatMessage('lineItem.itemCount', { count: 0 }, { messages, locale: 'fr-FR' })).toBe(
+      'vide',
+    );
+    // French uses "one" for 1.5, English does not
+    expect(formatMessage('lineItem.itemCount', { count: 1.5 }, { messages, locale: 'fr-FR' })).toBe(
+      '1,5 article',
+    );
+  });
+
+  it('supports select and nested arguments', () => {
+    const messages = {
+      'picker.outOfStock': '{gender, select, female {Épuisée} other {Épuisé}} ({title})',
+    };
+    expect(
+      formatMessage('picker.outOfStock', { gender: 'female', title: 'Chaussette' }, { messages }),
+    ).toBe('Épuisée (Chaussette)');
+  });
+
+  it('formats numbers for the locale and keeps unknown arguments', () => {
+    expect(formatMessage('picker.lowStock', { count: 1000 }, { locale: 'de-DE' })).toBe(
+      'Only 1.000 left',
+    );
+    expect(formatMessage('picker.items')).toBe('Items for {title}');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+describe('error message keys', () => {
+  const messages = {
+    'errors.bundleNotFound': 'Coffret introuvable.',
+    'errors.collectionNotFound': 'Collection introuvable : {collection}',
+  };
+
+  it('carries the key of the error code', () => {
+    const error = createError(ERROR_CODES.BUNDLE_NOT_FOUND);
+
+    expect(error.message).toBe('Bundle not found.');
+    expect(error.messageKey).toBe('errors.bundleNotFound');
+    expect(getUserMessage(error, { messages })).toBe('Coffret introuvable.');
+  });
+
+  it('carries the key and params of a catalog message', () => {
+    const error = createError(ERROR_CODES.BUNDLE_NOT_FOUND, {
+      key: 'errors.collectionNotFound',
+      params: { collection: 'socks' },
+    });
+
+    expect(error.message).toBe('Collection not found: socks');
+    expect(getErrorResult(error)).toEqual({
+      error: 'Collection not found: socks',
+      errorKey: 'errors.collectionNotFound',
+      errorParams: { collection: 'socks' },
+    });
+    expect(getUserMessage(error, { messages })).toBe('Collection introuvable : socks');
+  });
+
+  it('keeps untranslated messages from elsewhere', () => {
+    const error = new BundleBridgeError(ERROR_CODES.STOREFRONT_ERROR, 'Field is invalid');
+
+    expect(error.messageKey).toBe('errors.storefront');
+    expect(getUserMessage(error, { messages })).toBe('Field is invalid');
+  });
+
+  it('translates next tier hints', () => {
+    const tier = { minQuantity: 4, discountValue: 20 };
+
+    expect(
+      formatNextTier({ tier, itemsNeeded: 2 }, 'EUR', 'fr-FR', {
+        'savings.nextTier.percentage': 'Encore {count} pour économiser {value} %',
+      }),
+    ).toBe('Encore 2 pour économiser 20 %');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Components
+// ---------------------------------------------------------------------------
+
+describe('components with a message catalog', () => {
+  const money = (amount: string) => ({ amount, currencyCode: 'EUR' });
+
+  const definition: BundleDefinition = {
+    id: 'gid://shopify/Product/1',
+    title: 'Coffret',
+    handle: 'coffret',
+    bundleType: 'mix_and_match',
+    minSelections: 2,
+    maxSelections: 3,
+    availableForSale: true,
+    pricing: { discountType: 'percentage', discountValue: 10 },
+    components: [
+      {
+        productId: 'gid://shopify/Product/10',
+        productTitle: 'Chaussettes',
+        productHandle: 'chaussettes',
+        quantity: 1,
+        variants: [
+          {
+            id: 'gid://shopify/ProductVariant/10',
+            title: 'Default Title',
+            price: money('10.00'),
+            availableForSale: false,
+          },
+        ],
+      },
+    ],
+  };
+
+  const config = {
+    storeDomain: 'my-store.myshopify.com',
+    storefront: { query: vi.fn(), mutate: vi.fn() },
+  };
+
+  it('use the provider messages', () => {
+    render(
+      <BundleProvider
+        config={config}
+        locale="fr-FR"
+        messages={{
+          'addToCart.button': 'Ajouter le coffret',
+          'addToCart.selectionHint':
+            'Choisissez {count, plural, one {# article} other {# articles}} pour continuer.',
+          'picker.selectedCount': '{count} sur {range} choisis',
+          'picker.outOfStock': 'Épuisé',
+        }}
+      >
+        <BundlePicker definition={definition} selectedComponents={[]} onSelectionChange={vi.fn()} />
+        <BundleAddToCart definition={definition} selectedComponents={[]} />
+      </BundleProvider>,
+    );
+
+    expect(screen.getByRole('button', { name: 'Ajouter le coffret' })).toBeDefined();
+    expect(screen.getByText('Choisissez 2 articles pour continuer.')).toBeDefined();
+    expect(screen.getByText('0 sur 2-3 choisis')).toBeDefined();
+    expect(screen.getByText('Épuisé')).toBeDefined();
+    // Keys without a translation stay in English
+    expect(screen.getByText('Select 2 more')).toBeDefined();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * hydrogen-bundles money tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { BundleBridgeError } from '../utils/errors.js';
+import {
+  allocateMoney,
+  createMoney,
+  fromMinorUnits,
+  getCurrencyDecimals,
+  multiplyMoney,
+  percentageOfMoney,
+  roundMoney,
+  subtractMoney,
+  sumMoney,
+  toMinorUnits,
+} from '../utils/money.js';
+
+describe('getCurrencyDecimals', () => {
+  it('uses ISO 4217 precision', () => {
+    expect(getCurrencyDecimals('USD')).toBe(2);
+    expect(getCurrencyDecimals('JPY')).toBe(0);
+    expect(getCurrencyDecimals('KWD')).toBe(3);
+  });
+});
+
+describe('toMinorUnits / fromMinorUnits', () => {
+  it('converts decimal strings exactly', () => {
+    expect(toMinorUnits({ amount: '19.99', currencyCode: 'USD' })).toBe(1999);
+    expect(toMinorUnits({ amount: '1500.0', currencyCode: 'JPY' })).toBe(1500);
+    expect(toMinorUnits({ amount: '1.234', currencyCode: 'KWD' })).toBe(1234);
+    expect(toMinorUnits({ amount: '-0.5', currencyCode: 'USD' })).toBe(-50);
+  });
+
+  it('rounds extra digits half away from zero', () => {
+    expect(toMinorUnits({ amount: '0.005', currencyCode: 'USD' })).toBe(1);
+    expect(toMinorUnits({ amount: '0.0049', currencyCode: 'USD' })).toBe(0);
+    expect(toMinorUnits({ amount: '-0.005', currencyCode: 'USD' })).toBe(-1);
+    expect(toMinorUnits({ amount: '99.5', currencyCode: 'JPY' })).toBe(100);
+  });
+
+  it('formats amounts with the currency precision', () => {
+    expect(fromMinorUnits(1999, 'USD')).toEqual({ amount: '19.99', currencyCode: 'USD' });
+    expect(fromMinorUnits(5, 'USD').amount).toBe('0.05');
+    expect(fromMinorUnits(1500, 'JPY').amount).toBe('1500');
+    expect(fromMinorUnits(1234, 'KWD').amount).toBe('1.234');
+    expect(fromMinorUnits(-150, 'USD').amount).toBe('-1.50');
+  });
+
+  it('rejects invalid amounts', () => {
+    expect(() => toMinorUnits({ amount: 'abc', currencyCode: 'USD' })).toThrow(BundleBridgeError);
+  });
+});
+
+describe('money arithmetic', () => {
+  it('sums without floating-point drift', () => {
+    const amounts = Array.from({ length: 10 }, () => ({ amount: '0.10', currencyCode: 'USD' }));
+    expect(sumMoney(amounts, 'USD').amount).toBe('1.00');
+  });
+
+  it('multiplies and takes percentages in minor units', () => {
+    expect(multiplyMoney({ amount: '19.99', currencyCode: 'USD' }, 3).amount).toBe('59.97');
+    expect(percentageOfMoney({ amount: '10.05', currencyCode: 'USD' }, 10).amount).toBe('1.01');
+    expect(percentageOfMoney({ amount: '1999', currencyCode: 'JPY' }, 15).amount).toBe('300');
+  });
+
+  it('rounds money values to the currency precision', () => {
+    expect(roundMoney({ amount: '1500.0', currencyCode: 'JPY' }).amount).toBe('1500');
+    expect(createMoney(2.5, 'KWD').amount).toBe('2.500');
+    expect(createMoney(0.1 + 0.2, 'USD').amount).toBe('0.30');
+  });
+
+  it('refuses to combine currencies', () => {
+    expect(() =>
+      subtractMoney({ amount: '1.00', currencyCode: 'USD' }, { amount: '1.00', currencyCode: 'EUR' }),
+    ).toThrow(BundleBridgeError);
+  });
+});
+
+describe('allocateMoney', () => {
+  const usd = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+  it('splits into parts that sum exactly to the total', () => {
+    expect(allocateMoney(usd('10.00'), [1, 1, 1]).map((m) => m.amount)).toEqual([
+      '3.34',
+      '3.33',
+      '3.33',
+    ]);
+    expect(allocateMoney(usd('100.00'), [3, 7]).map((m) => m.amount)).toEqual(['30.00', '70.00']);
+  });
+
+  it('gives leftover units to the largest remainders', () => {
+    // Exact shares: 0.333.., 0.666.. cents → the second part gets the cent
+    expect(allocateMoney(usd('0.01'), [1, 2]).map((m) => m.amount)).toEqual(['0.00', '0.01']);
+  });
+
+  it('splits equally when no weight is positive', () => {
+    expect(allocateMoney(usd('1.00'), [0, 0]).map((m) => m.amount)).toEqual(['0.50', '0.50']);
+  });
+
+  it('respects the currency precision', () => {
+    const parts = allocateMoney({ amount: '1000', currencyCode: 'JPY' }, [1, 1, 1]);
+    expect(parts.map((m) => m.amount)).toEqual(['334', '333', '333']);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * hydrogen-bundles optimistic cart tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { getBundleInfoFromLine, groupCartLinesByBundle } from '../sdk/buildCartMutation.js';
+import {
+  addOptimisticOperation,
+  applyOptimisticOperations,
+  buildOptimisticBundleLines,
+  clearOptimisticOperations,
+  confirmOptimisticOperation,
+  getOptimisticOperations,
+  isOptimisticLineId,
+  pruneOptimisticOperations,
+  rollbackOptimisticOperation,
+  subscribeToOptimisticCart,
+} from '../sdk/optimisticCart.js';
+import { OPTIMISTIC_UPDATE_TTL } from '../utils/constants.js';
+
+import type { BundleCartLine, BundleDefinition, BundlePriceResult } from '../types.js';
+
+const definition: BundleDefinition = {
+  id: 'gid://shopify/Product/1',
+  title: 'Starter Kit',
+  handle: 'starter-kit',
+  bundleType: 'fixed',
+  variantId: 'gid://shopify/ProductVariant/1',
+  availableForSale: true,
+  pricing: { discountType: 'percentage', discountValue: 10 },
+  components: [
+    {
+      productId: 'gid://shopify/Product/2',
+      productTitle: 'Soap',
+      productHandle: 'soap',
+      quantity: 2,
+      variants: [
+        {
+          id: 'gid://shopify/ProductVariant/2',
+          title: 'Lavender',
+          price: { amount: '10.00', currencyCode: 'USD' },
+          availableForSale: true,
+        },
+      ],
+    },
+    {
+      productId: 'gid://shopify/Product/3',
+      productTitle: 'Towel',
+      productHandle: 'towel',
+      quantity: 1,
+      variants: [
+        {
+          id: 'gid://shopify/ProductVariant/3',
+          title: 'White',
+          price: { amount: '25.00', currencyCode: 'USD' },
+          availableForSale: true,
+        },
+      ],
+    },
+  ],
+};
+
+const priceResult: BundlePriceResult = {
+  originalPrice: { amount: '45.00', currencyCode: 'USD' },
+  bundlePrice: { amount: '40.50', currencyCode: 'USD' },
+  savings: { amount: '4.50', currencyCode: 'USD' },
+  savingsPercentage: 10,
+  componentPrices: [
+    {
+      productId: 'gid://shopify/Product/2',
+      variantId: 'gid://shopify/ProductVariant/2',
+      quantity: 2,
+      unitPrice: { amount: '9.00', currencyCode: 'USD' },
+      lineTotal: { amount: '18.00', currencyCode: 'USD' },
+    },
+  ],
+};
+
+function cartLine(id: string, quantity: number, attributes: BundleCartLine['attributes'] = []) {
+  return {
+    id,
+    quantity,
+    merchandise: { id: `variant-${id}`, title: 'Default', product: { title: 'Product' } },
+    attributes,
+  };
+}
+
+describe('buildOptimisticBundleLines', () => {
+  it('synthesizes one line per component with the bundle attributes', () => {
+    const lines = buildOptimisticBundleLines(
+      definition,
+      { bundleId: definition.id, quantity: 2, instanceId: 'inst-1' },
+      priceResult,
+    );
+
+    expect(lines).toHaveLength(2);
+    expect(lines.every((line) => line.isOptimistic && isOptimisticLineId(line.id))).toBe(true);
+    expect(lines[0]).toMatchObject({
+      quantity: 4,
+      merchandise: {
+        id: 'gid://shopify/ProductVariant/2',
+        price: { amount: '9.00' },
+        product: { handle: 'soap' },
+      },
+      cost: { totalAmount: { amount: '36.00', currencyCode: 'USD' } },
+    });
+    // No component price in the result: falls back to the variant price
+    expect(lines[1]!.cost.totalAmount.amount).toBe('50.00');
+    expect(getBundleInfoFromLine(lines[0]!)._bundleInstanceId).toBe('inst-1');
+
+    const groups = groupCartLinesByBundle(lines);
+    expect(groups.get('inst-1')?.bundleQuantity).toBe(2);
+  });
+
+  it('synthesizes a componentized parent line for native adds', () => {
+    const [parent] = buildOptimisticBundleLines(
+      definition,
+      { bundleId: definition.id, quantity: 2, addMode: 'native' },
+      priceResult,
+    );
+
+    expect(parent).toMatchObject({
+      quantity: 2,
+      merchandise: { id: definition.variantId, product: { id: definition.id } },
+      cost: { totalAmount: { amount: '81.00' } },
+    });
+    expect(parent!.lineComponents).toHaveLength(2);
+
+    const groups = groupCartLinesByBundle([parent!]);
+    expect(groups.get(parent!.id)?.bundleProductId).toBe(definition.id);
+  });
+});
+
+describe('applyOptimisticOperations', () => {
+  beforeEach(() => {
+    clearOptimisticOperations();
+  });
+
+  it('appends the lines of a pending add', () => {
+    const lines = [cartLine('line-1', 1)];
+    const added = buildOptimisticBundleLines(definition, { bundleId: definition.id });
+    addOptimisticOperation({ type: 'add', lines: added });
+
+    expect(applyOptimisticOperations(lines).map((line) => line.id)).toEqual([
+      'line-1',
+      ...added.map((line) => line.id),
+    ]);
+  });
+
+  it('removes lines and applies quantity updates', () => {
+    const lines = [cartLine('line-1', 1), cartLine('line-2', 2), cartLine('line-3', 1)];
+    addOptimisticOperation({ type: 'remove', lineIds: ['line-1'] });
+    addOptimisticOperation({
+      type: 'update',
+      lines: [
+        { id: 'line-2', quantity: 4 },
+        { id: 'line-3', quantity: 0 },
+      ],
+    });
+
+    const result = applyOptimisticOperations(lines);
+
+    expect(result.map((line) => [line.id, line.quantity])).toEqual([['line-2', 4]]);
+  });
+
+  it('shows the response lines of a confirmed add until the cart includes them', () => {
+    const added = buildOptimisticBundleLines(definition, {
+      bundleId: definition.id,
+      instanceId: 'inst-1',
+    });
+    const id = addOptimisticOperation({ type: 'add', lines: added });
+    const responseLines = [
+      cartLine('line-1', 1),
+      cartLine('line-2', 2, added[0]!.attributes),
+      cartLine('line-3', 1, added[1]!.attributes),
+    ];
+
+    confirmOptimisticOperation(id, responseLines);
+
+    expect(applyOptimisticOperations([cartLine('line-1', 1)]).map((line) => line.id)).toEqual([
+      'line-1',
+      'line-2',
+      'line-3',
+    ]);
+
+    // The app's cart caught up: the operation is done
+    expect(applyOptimisticOperations(responseLines)).toEqual(responseLines);
+    pruneOptimisticOperations(responseLines);
+    expect(getOptimisticOperations()).toEqual([]);
+  });
+
+  it('replaces a merged native line with the response line', () => {
+    const added = buildOptimisticBundleLines(definition, {
+      bundleId: definition.id,
+      addMode: 'native',
+    });
+    const id = addOptimisticOperation({ type: 'add', lines: added });
+    const existing = cartLine('parent-1', 1);
+    existing.merchandise.id = definition.variantId!;
+
+    confirmOptimisticOperation(id, [{ ...existing, quantity: 2 }]);
+
+    const result = applyOptimisticOperations([existing]);
+    expect(result.map((line) => [line.id, line.quantity])).toEqual([['parent-1', 2]]);
+  });
+});
+
+describe('optimistic operation store', () => {
+  beforeEach(() => {
+    clearOptimisticOperations();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies subscribers and rolls back operations', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToOptimisticCart(listener);
+
+    const id = addOptimisticOperation({ type: 'remove', lineIds: ['line-1'] });
+    expect(getOptimisticOperations()).toHaveLength(1);
+
+    rollbackOptimisticOperation(id);
+    expect(getOptimisticOperations()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+
+  it('keeps unconfirmed operations when pruning', () => {
+    addOptimisticOperation({ type: 'remove', lineIds: ['line-1'] });
+
+    pruneOptimisticOperations([]);
+
+    expect(getOptimisticOperations()).toHaveLength(1);
+  });
+
+  it('expires confirmed operations the cart never reflects', () => {
+    vi.useFakeTimers();
+    const id = addOptimisticOperation({ type: 'update', lines: [{ id: 'line-1', quantity: 3 }] });
+
+    confirmOptimisticOperation(id);
+    pruneOptimisticOperations([cartLine('line-1', 1)]);
+    expect(getOptimisticOperations()[0]).toMatchObject({ id, confirmed: true });
+
+    vi.advanceTimersByTime(OPTIMISTIC_UPDATE_TTL);
+    expect(getOptimisticOperations()).toEqual([]);
+  });
+});
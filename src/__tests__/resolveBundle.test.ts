@@ -0,0 +1,405 @@
+/**
+ * hydrogen-bundles bundle resolution tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  getMetafieldValues,
+  parseBundleMetafields,
+  parsePricingMetafields,
+} from '../sdk/bundleMetafields.js';
+import { resolveBundle } from '../sdk/resolveBundle.js';
+import { clearAllCache, clearBundleCache } from '../utils/cache.js';
+
+import type { BundleBridgeConfig } from '../types.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+function createProduct(
+  bundleMetafields?: Array<Record<string, unknown> | null>,
+  eligibleProductsMetafield?: Record<string, unknown>,
+) {
+  return {
+    id: 'gid://shopify/Product/1',
+    title: 'Starter Kit',
+    handle: 'starter-kit',
+    availableForSale: true,
+    variants: {
+      nodes: [
+        {
+          id: 'gid://shopify/ProductVariant/1',
+          title: 'Default',
+          price: money('45.00'),
+          availableForSale: true,
+          bundleComponents: {
+            nodes: [
+              {
+                product: { id: 'gid://shopify/Product/2', title: 'Shampoo', handle: 'shampoo' },
+                variant: {
+                  id: 'gid://shopify/ProductVariant/2',
+                  title: 'Default',
+                  availableForSale: true,
+                  price: money('50.00'),
+                },
+                quantity: 1,
+              },
+            ],
+          },
+        },
+      ],
+    },
+    bundleMetafields,
+    eligibleProductsMetafield,
+  };
+}
+
+function createConfig(product: unknown, config: Partial<BundleBridgeConfig> = {}) {
+  const query = vi.fn(async () => ({ product }));
+  return {
+    query,
+    config: {
+      storeDomain: 'my-store.myshopify.com',
+      storefront: { query, mutate: vi.fn() },
+      ...config,
+    } as BundleBridgeConfig,
+  };
+}
+
+describe('resolveBundle pricing', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('reads the discount rule from the bundle metafields', async () => {
+    const { config, query } = createConfig(
+      createProduct([
+        { key: 'discount_type', value: 'fixed_amount' },
+        { key: 'discount_value', value: '5' },
+        null,
+      ]),
+      { metafieldNamespace: 'custom_bundles' },
+    );
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition.pricing).toMatchObject({
+      discountType: 'fixed_amount',
+      discountValue: 5,
+      pricingSource: 'metafields',
+    });
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('BundleMetafieldsFragment'), {
+      variables: { handle: 'starter-kit', metafieldNamespace: 'custom_bundles' },
+      cache: undefined,
+    });
+  });
+
+  it('only fetches references for the eligible products metafield', async () => {
+    const { config, query } = createConfig(createProduct());
+
+    await resolveBundle('starter-kit', config);
+
+    const document = (query.mock.calls as unknown as Array<[string]>)[0]![0];
+    expect(document.match(/references\(/g)).toHaveLength(1);
+    expect(document).toContain('eligibleProductsMetafield: metafield(');
+    expect(document).not.toContain('key: "eligible_products" }');
+  });
+
+  it('uses the default metafield namespace', async () => {
+    const { config, query } = createConfig(createProduct());
+
+    await resolveBundle('gid://shopify/Product/1', config);
+
+    expect(query).toHaveBeenCalledWith(expect.any(String), {
+      variables: { id: 'gid://shopify/Product/1', metafieldNamespace: 'bundles' },
+      cache: undefined,
+    });
+  });
+
+  it('uses the variant price without metafields', async () => {
+    const { config } = createConfig(createProduct());
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition.pricing).toMatchObject({
+      discountType: 'custom',
+      pricingSource: 'variant_price',
+      bundlePrice: money('45.00'),
+    });
+    expect(definition.pricing.discountValue).toBeUndefined();
+  });
+
+  it('infers the discount type only when opted in', async () => {
+    const { config } = createConfig(createProduct(), { inferDiscountType: true });
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition.pricing).toMatchObject({
+      discountType: 'percentage',
+      discountValue: 10,
+      pricingSource: 'inferred',
+    });
+  });
+
+  it('prefers metafields over inference', async () => {
+    const { config } = createConfig(createProduct([{ key: 'discount_type', value: 'custom' }]), {
+      inferDiscountType: true,
+    });
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition.pricing).toMatchObject({
+      discountType: 'custom',
+      pricingSource: 'metafields',
+    });
+  });
+
+  it('tags backend definitions as authoritative', async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            bundle: {
+              id: 'gid://shopify/Product/1',
+              pricing: { discountType: 'percentage', discountValue: 15 },
+            },
+          }),
+          { status: 200 },
+        ),
+    );
+
+    const definition = await resolveBundle('gid://shopify/Product/1', {
+      storeDomain: 'my-store.myshopify.com',
+      apiUrl: 'https://api.test',
+      apiKey: 'key',
+      fetch,
+    });
+
+    expect(definition.pricing.pricingSource).toBe('backend');
+  });
+});
+
+describe('resolveBundle markets', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('queries and caches each market separately', async () => {
+    const { config, query } = createConfig(createProduct(), { country: 'CA' });
+
+    await resolveBundle('starter-kit', config);
+    await resolveBundle('starter-kit', config, { country: 'US', language: 'es' });
+    await resolveBundle('starter-kit', config);
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query).toHaveBeenNthCalledWith(1, expect.any(String), {
+      variables: { country: 'CA', handle: 'starter-kit', metafieldNamespace: 'bundles' },
+      cache: undefined,
+    });
+    expect(query).toHaveBeenNthCalledWith(2, expect.any(String), {
+      variables: {
+        country: 'US',
+        language: 'ES',
+        handle: 'starter-kit',
+        metafieldNamespace: 'bundles',
+      },
+      cache: undefined,
+    });
+
+    clearBundleCache('starter-kit');
+    await resolveBundle('starter-kit', config, { country: 'US', language: 'es' });
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('resolveBundle mix-and-match', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const variant = (id: number, availableForSale = true) => ({
+    id: `gid://shopify/ProductVariant/${id}`,
+    title: `Variant ${id}`,
+    availableForSale,
+    price: money('10.00'),
+    selectedOptions: [{ name: 'Size', value: `${id}` }],
+  });
+
+  const eligibleProduct = (id: number, handle: string, variants: unknown[]) => ({
+    id: `gid://shopify/Product/${id}`,
+    title: handle,
+    handle,
+    availableForSale: true,
+    variants: { nodes: variants },
+  });
+
+  it('builds components with every variant from the eligible products', async () => {
+    const { config } = createConfig(
+      createProduct(
+        [
+          { key: 'bundle_type', value: 'mix_and_match' },
+          { key: 'min_selections', value: '3' },
+          { key: 'max_selections', value: '5' },
+          { key: 'discount_type', value: 'percentage' },
+          { key: 'discount_value', value: '15' },
+          {
+            key: 'component_limits',
+            value: JSON.stringify({ socks: { min_quantity: 2, max_quantity: 4 } }),
+          },
+        ],
+        {
+          key: 'eligible_products',
+          value: '[]',
+          references: {
+            nodes: [
+              eligibleProduct(10, 'socks', [variant(11, false), variant(12)]),
+              eligibleProduct(20, 'scarf', [variant(21)]),
+              {},
+            ],
+          },
+        },
+      ),
+    );
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition).toMatchObject({
+      bundleType: 'mix_and_match',
+      minSelections: 3,
+      maxSelections: 5,
+      pricing: { discountType: 'percentage', discountValue: 15, pricingSource: 'metafields' },
+    });
+    expect(definition.components).toHaveLength(2);
+    expect(definition.components[0]).toMatchObject({
+      productHandle: 'socks',
+      defaultVariantId: 'gid://shopify/ProductVariant/12',
+      quantity: 2,
+      minQuantity: 2,
+      maxQuantity: 4,
+      allowQuantitySelection: true,
+    });
+    expect(definition.components[0]!.variants).toHaveLength(2);
+    expect(definition.components[1]).toMatchObject({ quantity: 1, required: false });
+  });
+
+  it('loads every page of the eligible collection and applies the filters', async () => {
+    const product = createProduct([
+      { key: 'bundle_type', value: 'mix_and_match' },
+      { key: 'eligible_collection', value: 'gid://shopify/Collection/1' },
+      { key: 'eligible_filters', value: '{"tags":["box"]}' },
+    ]);
+    const query = vi.fn(
+      async (document: string, options?: { variables?: Record<string, unknown> }) => {
+        if (!document.includes('CollectionProducts')) return { product };
+        const page = options?.variables?.after ? 2 : 1;
+        return {
+          collection: {
+            products: {
+              nodes: [
+                {
+                  ...eligibleProduct(page * 10, `mug-${page}`, [variant(page * 10 + 1)]),
+                  tags: ['Box'],
+                },
+                {
+                  ...eligibleProduct(page * 10 + 5, `bowl-${page}`, [variant(page * 10 + 6)]),
+                  tags: [],
+                },
+              ],
+              pageInfo: { hasNextPage: page === 1, endCursor: page === 1 ? 'cursor-1' : null },
+            },
+          },
+        };
+      },
+    );
+
+    const definition = await resolveBundle('starter-kit', {
+      storeDomain: 'my-store.myshopify.com',
+      storefront: { query, mutate: vi.fn() },
+    });
+
+    expect(definition.components.map((c) => c.productHandle)).toEqual(['mug-1', 'mug-2']);
+    expect(definition.pricing).toMatchObject({
+      discountType: 'custom',
+      pricingSource: 'variant_price',
+    });
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+
+  it("falls back to the bundle variant's components", async () => {
+    const { config } = createConfig(
+      createProduct([{ key: 'bundle_type', value: 'mix_and_match' }]),
+    );
+
+    const definition = await resolveBundle('starter-kit', config);
+
+    expect(definition.bundleType).toBe('mix_and_match');
+    expect(definition.components.map((c) => c.productHandle)).toEqual(['shampoo']);
+    expect(definition.variantId).toBe('gid://shopify/ProductVariant/1');
+  });
+});
+
+describe('parseBundleMetafields', () => {
+  it('defaults to fixed bundles and ignores invalid limits', () => {
+    expect(parseBundleMetafields({})).toEqual({
+      bundleType: 'fixed',
+      minSelections: undefined,
+      maxSelections: undefined,
+      componentLimits: {},
+    });
+
+    expect(
+      parseBundleMetafields({
+        bundle_type: 'mix_and_match',
+        min_selections: '4',
+        max_selections: '2',
+        component_limits: '{"a":{"min_quantity":3,"max_quantity":1},"b":{"max_quantity":1}}',
+      }),
+    ).toEqual({
+      bundleType: 'mix_and_match',
+      minSelections: 4,
+      maxSelections: undefined,
+      componentLimits: { b: { minQuantity: undefined, maxQuantity: 1 } },
+    });
+  });
+});
+
+describe('parsePricingMetafields', () => {
+  it('reads tiered pricing', () => {
+    const pricing = parsePricingMetafields(
+      getMetafieldValues([
+        { key: 'discount_type', value: 'tiered' },
+        {
+          key: 'pricing_tiers',
+          value: JSON.stringify([
+            { min_quantity: 3, discount_value: 10 },
+            { min_quantity: 5, discount_type: 'fixed_amount', discount_value: 15 },
+          ]),
+        },
+      ]),
+    );
+
+    expect(pricing).toEqual({
+      discountType: 'tiered',
+      tiers: [
+        { minQuantity: 3, discountType: 'percentage', discountValue: 10 },
+        { minQuantity: 5, discountType: 'fixed_amount', discountValue: 15 },
+      ],
+    });
+  });
+
+  it('rejects missing or invalid values', () => {
+    expect(parsePricingMetafields({})).toBeNull();
+    expect(parsePricingMetafields({ discount_type: 'bogo' })).toBeNull();
+    expect(parsePricingMetafields({ discount_type: 'percentage' })).toBeNull();
+    expect(
+      parsePricingMetafields({ discount_type: 'percentage', discount_value: '150' }),
+    ).toBeNull();
+    expect(
+      parsePricingMetafields({ discount_type: 'fixed_price', discount_value: '-1' }),
+    ).toBeNull();
+    expect(
+      parsePricingMetafields({ discount_type: 'tiered', pricing_tiers: '[{"min_quantity":0}]' }),
+    ).toBeNull();
+    expect(parsePricingMetafields({ discount_type: 'tiered', pricing_tiers: 'nope' })).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * hydrogen-bundles Storefront client tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { fetchWithRetry, storefrontRequest } from '../sdk/storefrontClient.js';
+import { BundleBridgeError, ERROR_CODES } from '../utils/errors.js';
+import { REQUEST_DEFAULTS } from '../utils/constants.js';
+
+import type { BundleBridgeConfig } from '../types.js';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function createConfig(fetchMock: ReturnType<typeof vi.fn>): BundleBridgeConfig {
+  return {
+    storeDomain: 'my-store.myshopify.com',
+    storefrontAccessToken: 'token',
+    fetch: fetchMock as unknown as typeof fetch,
+  };
+}
+
+async function expectErrorCode(promise: Promise<unknown>, code: string) {
+  const error = await promise.catch((err: unknown) => err);
+  expect(error).toBeInstanceOf(BundleBridgeError);
+  expect((error as BundleBridgeError).code).toBe(code);
+}
+
+describe('fetchWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const promise = fetchWithRetry(createConfig(fetchMock), 'https://api.test', {});
+
+    await vi.advanceTimersByTimeAsync(REQUEST_DEFAULTS.retryDelay);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(REQUEST_DEFAULTS.retryDelay * 2);
+
+    const response = await promise;
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('honors Retry-After on 429 responses', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({}, 429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const promise = fetchWithRetry(createConfig(fetchMock), 'https://api.test', {});
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await promise).status).toBe(200);
+  });
+
+  it('returns the last response once retries run out', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({}, 500));
+    const config = { ...createConfig(fetchMock), maxRetries: 1 };
+
+    const promise = fetchWithRetry(config, 'https://api.test', {});
+    await vi.advanceTimersByTimeAsync(REQUEST_DEFAULTS.retryDelay);
+
+    expect((await promise).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('only retries rate limits when failures must not be retried', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(jsonResponse({}, 500));
+
+    const response = await fetchWithRetry(
+      createConfig(fetchMock),
+      'https://api.test',
+      {},
+      { retryFailures: false },
+    );
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out slow attempts', async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    );
+    const config = { ...createConfig(fetchMock), requestTimeout: 1000, maxRetries: 0 };
+
+    const promise = fetchWithRetry(config, 'https://api.test', {});
+    const assertion = expectErrorCode(promise, ERROR_CODES.TIMEOUT);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+  });
+
+  it('maps network failures to NETWORK_ERROR', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const config = { ...createConfig(fetchMock), maxRetries: 0 };
+
+    await expectErrorCode(fetchWithRetry(config, 'https://api.test', {}), ERROR_CODES.NETWORK_ERROR);
+  });
+
+  it('stops when the caller aborts, without retrying', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    );
+
+    const promise = fetchWithRetry(createConfig(fetchMock), 'https://api.test', {}, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expectErrorCode(promise, ERROR_CODES.ABORTED);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('storefrontRequest', () => {
+  it('requires a Storefront access token', async () => {
+    await expectErrorCode(
+      storefrontRequest({ storeDomain: 'my-store.myshopify.com' }, 'query { shop { name } }', {}),
+      ERROR_CODES.INVALID_CONFIG,
+    );
+  });
+
+  it('returns data and sends the access token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ data: { shop: { name: 'Test' } } }));
+
+    const data = await storefrontRequest<{ shop: { name: string } }>(
+      createConfig(fetchMock),
+      'query { shop { name } }',
+      {},
+    );
+
+    expect(data.shop.name).toBe('Test');
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://my-store.myshopify.com/api/2025-01/graphql.json');
+    expect((init.headers as Record<string, string>)['X-Shopify-Storefront-Access-Token']).toBe(
+      'token',
+    );
+  });
+
+  it('maps HTTP and GraphQL errors onto error codes', async () => {
+    const cases: Array<[Response, string, string?]> = [
+      [jsonResponse({}, 401), ERROR_CODES.INVALID_CONFIG],
+      [jsonResponse({ errors: [{ message: 'Bad field' }] }), ERROR_CODES.STOREFRONT_ERROR],
+      [jsonResponse({ errors: [{ message: 'Bad field' }] }), ERROR_CODES.CART_ERROR, ERROR_CODES.CART_ERROR],
+      [
+        jsonResponse({ errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] }),
+        ERROR_CODES.RATE_LIMITED,
+      ],
+    ];
+
+    for (const [response, code, errorCode] of cases) {
+      const fetchMock = vi.fn().mockResolvedValue(response);
+      await expectErrorCode(
+        storefrontRequest(createConfig(fetchMock), 'query { shop { name } }', {}, {
+          errorCode: errorCode as typeof ERROR_CODES.CART_ERROR | undefined,
+        }),
+        code,
+      );
+    }
+  });
+});
+
+describe('storefrontRequest with a Hydrogen storefront client', () => {
+  function createStorefront() {
+    return {
+      query: vi.fn().mockResolvedValue({ shop: { name: 'Test' } }),
+      mutate: vi.fn().mockResolvedValue({ cartCreate: { cart: null, userErrors: [] } }),
+    };
+  }
+
+  it('runs queries through storefront.query with the cache strategy', async () => {
+    const storefront = createStorefront();
+    const cache = { mode: 'public', maxAge: 3600 };
+
+    const data = await storefrontRequest(
+      { storeDomain: 'my-store.myshopify.com', storefront },
+      'query { shop { name } }',
+      { first: 1 },
+      { cache },
+    );
+
+    expect(data).toEqual({ shop: { name: 'Test' } });
+    expect(storefront.query).toHaveBeenCalledWith('query { shop { name } }', {
+      variables: { first: 1 },
+      cache,
+    });
+  });
+
+  it('runs mutations through storefront.mutate', async () => {
+    const storefront = createStorefront();
+
+    await storefrontRequest(
+      { storeDomain: 'my-store.myshopify.com', storefront },
+      'mutation { cartCreate { cart { id } } }',
+      { input: {} },
+      { mutation: true },
+    );
+
+    expect(storefront.mutate).toHaveBeenCalledWith('mutation { cartCreate { cart { id } } }', {
+      variables: { input: {} },
+    });
+    expect(storefront.query).not.toHaveBeenCalled();
+  });
+
+  it('maps client errors onto error codes', async () => {
+    const storefront = createStorefront();
+    storefront.mutate.mockRejectedValue(new Error('Invalid merchandise'));
+
+    await expectErrorCode(
+      storefrontRequest(
+        { storeDomain: 'my-store.myshopify.com', storefront },
+        'mutation { cartCreate { cart { id } } }',
+        {},
+        { mutation: true, errorCode: ERROR_CODES.CART_ERROR },
+      ),
+      ERROR_CODES.CART_ERROR,
+    );
+  });
+});
+
+describe('storefrontRequest markets', () => {
+  const query =
+    'query Shop($country: CountryCode, $language: LanguageCode) @inContext(country: $country, language: $language) { shop { name } }';
+
+  function createStorefront() {
+    return { query: vi.fn().mockResolvedValue({ shop: { name: 'Test' } }), mutate: vi.fn() };
+  }
+
+  it('sends the configured market as @inContext variables', async () => {
+    const storefront = createStorefront();
+    const config = {
+      storeDomain: 'my-store.myshopify.com',
+      storefront,
+      country: 'ca',
+      language: 'fr',
+    };
+
+    await storefrontRequest(config, query, { first: 1 });
+    await storefrontRequest(config, query, {}, { language: 'pt-BR' });
+    await storefrontRequest(config, query, { country: 'US' });
+
+    expect(storefront.query.mock.calls.map(([, options]) => options.variables)).toEqual([
+      { country: 'CA', language: 'FR', first: 1 },
+      { country: 'CA', language: 'PT_BR' },
+      { country: 'US', language: 'FR' },
+    ]);
+  });
+
+  it('leaves documents without market variables alone', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ data: {} }));
+
+    await storefrontRequest(
+      { ...createConfig(fetchMock), country: 'CA' },
+      'query { shop { name } }',
+      {},
+    );
+
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string).variables).toEqual({});
+  });
+});
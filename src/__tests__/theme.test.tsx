@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles theme tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render } from '@testing-library/react';
+
+import { BundleAddToCart } from '../components/BundleAddToCart.js';
+import { BundlePicker } from '../components/BundlePicker.js';
+import { BundleProvider } from '../components/BundleProvider.js';
+import { BundleSavings } from '../components/BundleSavings.js';
+import { getThemeStyle, joinClassNames, themeVar } from '../utils/theme.js';
+
+import type { BundleDefinition } from '../types.js';
+
+const money = (amount: string) => ({ amount, currencyCode: 'USD' });
+
+const definition: BundleDefinition = {
+  id: 'gid://shopify/Product/1',
+  title: 'Build a Box',
+  handle: 'build-a-box',
+  bundleType: 'mix_and_match',
+  minSelections: 1,
+  availableForSale: true,
+  pricing: { discountType: 'percentage', discountValue: 10 },
+  components: [
+    {
+      productId: 'gid://shopify/Product/10',
+      productTitle: 'Socks',
+      productHandle: 'socks',
+      productImage: { url: 'https://cdn.test/socks.jpg' },
+      quantity: 1,
+      allowQuantitySelection: true,
+      variants: [
+        {
+          id: 'gid://shopify/ProductVariant/10',
+          title: 'Default Title',
+          price: money('10.00'),
+          availableForSale: true,
+        },
+      ],
+    },
+  ],
+};
+
+const config = {
+  storeDomain: 'my-store.myshopify.com',
+  storefront: { query: vi.fn(), mutate: vi.fn() },
+};
+
+describe('theme utilities', () => {
+  it('reads tokens with their default as fallback', () => {
+    expect(themeVar('colorPrimary')).toBe('var(--bundle-color-primary, #1a1a1a)');
+  });
+
+  it('maps theme tokens to custom properties', () => {
+    expect(getThemeStyle({ colorPrimary: '#4f46e5', radius: '1rem', colorError: '' })).toEqual({
+      '--bundle-color-primary': '#4f46e5',
+      '--bundle-radius': '1rem',
+    });
+    expect(getThemeStyle({})).toBeUndefined();
+    expect(getThemeStyle()).toBeUndefined();
+  });
+
+  it('joins class names', () => {
+    expect(joinClassNames('a', undefined, false, 'b')).toBe('a b');
+  });
+});
+
+describe('themed components', () => {
+  it('set the provider theme on each component', () => {
+    const { container } = render(
+      <BundleProvider config={config} theme={{ colorPrimary: '#4f46e5' }}>
+        <BundlePicker definition={definition} selectedComponents={[]} onSelectionChange={vi.fn()} />
+        <BundleAddToCart definition={definition} />
+      </BundleProvider>,
+    );
+
+    for (const root of container.querySelectorAll<HTMLElement>(
+      '.bundle-picker, .bundle-add-to-cart',
+    )) {
+      expect(root.style.getPropertyValue('--bundle-color-primary')).toBe('#4f46e5');
+    }
+    expect(container.querySelector('style')?.textContent).toContain(
+      'var(--bundle-color-primary, #1a1a1a)',
+    );
+  });
+
+  it('add slot classes next to the built-in ones', () => {
+    const { container } = render(
+      <BundleProvider config={config}>
+        <BundlePicker
+          definition={definition}
+          selectedComponents={[
+            {
+              productId: 'gid://shopify/Product/10',
+              variantId: 'gid://shopify/ProductVariant/10',
+              quantity: 1,
+            },
+          ]}
+          onSelectionChange={vi.fn()}
+          classNames={{ card: 'rounded-xl', image: 'aspect-square', stepper: 'gap-2' }}
+        />
+        <BundleAddToCart definition={definition} classNames={{ hint: 'text-sm' }} />
+        <BundleSavings
+          savings={money('5.00')}
+          savingsPercentage={10}
+          originalPrice={money('50.00')}
+          bundlePrice={money('45.00')}
+          variant="detailed"
+          classNames={{ price: 'tabular-nums' }}
+        />
+      </BundleProvider>,
+    );
+
+    expect(container.querySelector('.bundle-picker__item.rounded-xl')).not.toBeNull();
+    expect(container.querySelector('.bundle-picker__image.aspect-square')).not.toBeNull();
+    expect(container.querySelector('.bundle-picker__quantity.gap-2')).not.toBeNull();
+    expect(container.querySelector('.bundle-add-to-cart__hint.text-sm')).not.toBeNull();
+    expect(container.querySelector('.bundle-savings__prices.tabular-nums')).not.toBeNull();
+    expect(container.querySelector('.bundle-picker')?.getAttribute('style')).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * hydrogen-bundles trackEvent tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ANALYTICS_BATCH, API_ENDPOINTS, RATE_LIMITS } from '../utils/constants.js';
+
+import type { BundleBridgeConfig } from '../types.js';
+
+const config: BundleBridgeConfig = {
+  storeDomain: 'my-store.myshopify.com',
+  apiUrl: 'https://api.example.com',
+  apiKey: 'bb_test',
+};
+
+// The tracker keeps its queue and rate limit window in module state,
+// so every test gets a fresh copy of the module
+async function loadTracker() {
+  vi.resetModules();
+  return import('../sdk/trackEvent.js');
+}
+
+describe('trackBundleEvent', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('ignores events without the hosted backend', async () => {
+    const { trackBundleEvent } = await loadTracker();
+
+    expect(
+      trackBundleEvent({ eventType: 'view', bundleId: 'b1' }, { storeDomain: 'x.myshopify.com' }),
+    ).toBe(false);
+  });
+
+  it('ignores events when analytics is disabled', async () => {
+    const { trackBundleEvent } = await loadTracker();
+
+    expect(
+      trackBundleEvent({ eventType: 'view', bundleId: 'b1' }, { ...config, enableAnalytics: false }),
+    ).toBe(false);
+  });
+
+  it('dispatches every event to adapters, with or without the backend', async () => {
+    const { trackBundleEvent } = await loadTracker();
+    const track = vi.fn();
+    const failing = vi.fn(() => {
+      throw new Error('adapter failed');
+    });
+    const analyticsAdapters = [
+      { name: 'failing', track: failing },
+      { name: 'test', track },
+    ];
+
+    trackBundleEvent(
+      { eventType: 'view', bundleId: 'b1' },
+      { storeDomain: 'x.myshopify.com', analyticsAdapters },
+    );
+    trackBundleEvent({ eventType: 'view', bundleId: 'b2' }, { ...config, analyticsAdapters });
+    trackBundleEvent(
+      { eventType: 'view', bundleId: 'b3' },
+      { ...config, analyticsAdapters, enableAnalytics: false },
+    );
+
+    expect(track).toHaveBeenCalledTimes(2);
+    expect(track.mock.calls[0]![0]).toMatchObject({ bundleId: 'b1', timestamp: expect.any(String) });
+    expect(track.mock.calls[1]![0]).toMatchObject({ bundleId: 'b2' });
+  });
+
+  it('batches events until the flush interval', async () => {
+    const { trackBundleEvent } = await loadTracker();
+
+    trackBundleEvent({ eventType: 'view', bundleId: 'b1' }, config);
+    trackBundleEvent({ eventType: 'add_to_cart', bundleId: 'b1', quantity: 1 }, config);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(ANALYTICS_BATCH.flushInterval);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0]!;
+    const body = JSON.parse(init.body);
+
+    expect(url).toBe(`${config.apiUrl}${API_ENDPOINTS.event}`);
+    expect(init.headers['X-API-Key']).toBe('bb_test');
+    expect(body.events.map((e: { eventType: string }) => e.eventType)).toEqual([
+      'view',
+      'add_to_cart',
+    ]);
+    expect(body.events[0].timestamp).toBeDefined();
+  });
+
+  it('flushes immediately when the batch is full', async () => {
+    const { trackBundleEvent } = await loadTracker();
+
+    for (let i = 0; i < ANALYTICS_BATCH.maxSize; i++) {
+      trackBundleEvent({ eventType: 'selection_change', bundleId: 'b1' }, config);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops events beyond the rate limit', async () => {
+    const { trackBundleEvent } = await loadTracker();
+
+    const accepted = Array.from({ length: RATE_LIMITS.analyticsEvent + 5 }, () =>
+      trackBundleEvent({ eventType: 'selection_change', bundleId: 'b1' }, config),
+    ).filter(Boolean);
+
+    expect(accepted).toHaveLength(RATE_LIMITS.analyticsEvent);
+
+    // The window resets after a minute
+    vi.advanceTimersByTime(60 * 1000);
+    expect(trackBundleEvent({ eventType: 'view', bundleId: 'b1' }, config)).toBe(true);
+  });
+
+  it('uses sendBeacon with credentials in the body', async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal('navigator', { sendBeacon });
+    const { trackBundleEvent, flushBundleEvents } = await loadTracker();
+
+    trackBundleEvent({ eventType: 'view', bundleId: 'b1' }, config);
+    await flushBundleEvents({ useBeacon: true });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+
+    const blob = sendBeacon.mock.calls[0]![1] as Blob;
+    const body = JSON.parse(await blob.text());
+    expect(body.apiKey).toBe('bb_test');
+    expect(body.shopDomain).toBe('my-store.myshopify.com');
+    expect(body.events).toHaveLength(1);
+  });
+});
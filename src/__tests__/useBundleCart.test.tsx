@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+/**
+ * hydrogen-bundles useBundleCart tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+
+import { useBundleCart } from '../hooks/useBundleCart.js';
+import { BUNDLE_ATTRIBUTES } from '../utils/constants.js';
+
+import type { BundleBridgeConfig, BundleLineGroup } from '../types.js';
+
+const group: BundleLineGroup = {
+  bundleProductId: 'gid://shopify/Product/1',
+  lines: [
+    {
+      id: 'gid://shopify/CartLine/1',
+      quantity: 2,
+      attributes: [
+        { key: BUNDLE_ATTRIBUTES.bundleParent, value: 'true' },
+        { key: BUNDLE_ATTRIBUTES.bundleProductId, value: 'gid://shopify/Product/1' },
+      ],
+      merchandise: {
+        id: 'gid://shopify/ProductVariant/10',
+        title: 'Default',
+        product: { id: 'gid://shopify/Product/10', title: 'Socks' },
+      },
+    },
+  ],
+};
+
+function createConfig(payloadKey: string) {
+  const track = vi.fn();
+  const fetchMock = vi.fn().mockResolvedValue(
+    new Response(
+      JSON.stringify({
+        data: { [payloadKey]: { cart: { id: 'gid://shopify/Cart/1', lines: [] }, userErrors: [] } },
+      }),
+    ),
+  );
+  const config: BundleBridgeConfig = {
+    storeDomain: 'my-store.myshopify.com',
+    storefrontAccessToken: 'token',
+    fetch: fetchMock as unknown as typeof fetch,
+    analyticsAdapters: [{ name: 'test', track }],
+  };
+
+  return { config, track };
+}
+
+describe('useBundleCart analytics', () => {
+  it('tracks remove_from_cart when a quantity of 0 removes the bundle', async () => {
+    const { config, track } = createConfig('cartLinesRemove');
+    const { result } = renderHook(() =>
+      useBundleCart({ config, cartId: 'gid://shopify/Cart/1', optimistic: false }),
+    );
+
+    await act(async () => {
+      expect((await result.current.updateBundleQuantity(group, 0)).success).toBe(true);
+    });
+
+    expect(track).toHaveBeenCalledTimes(1);
+    expect(track.mock.calls[0]![0]).toMatchObject({
+      eventType: 'remove_from_cart',
+      bundleId: 'gid://shopify/Product/1',
+      quantity: 2,
+    });
+  });
+
+  it('does not track quantity changes as removals', async () => {
+    const { config, track } = createConfig('cartLinesUpdate');
+    const { result } = renderHook(() =>
+      useBundleCart({ config, cartId: 'gid://shopify/Cart/1', optimistic: false }),
+    );
+
+    await act(async () => {
+      await result.current.updateBundleQuantity(group, 3);
+    });
+
+    expect(track).not.toHaveBeenCalled();
+  });
+});
@@ -214,6 +214,26 @@ describe('validateBundleSelection', () => {
     expect(result.valid).toBe(false);
     expect(result.error).toContain('Invalid variant');
   });
+
+  it('returns the message key and params, formatted with a catalog', () => {
+    const result = validateBundleSelection(
+      mixAndMatchBundle,
+      [{ productId: 'p1', variantId: 'v1', quantity: 1 }],
+      {
+        messages: {
+          'validation.minSelections':
+            'Choisissez au moins {count, plural, one {# article} other {# articles}}.',
+        },
+        locale: 'fr-FR',
+      },
+    );
+    expect(result).toEqual({
+      valid: false,
+      error: 'Choisissez au moins 2 articles.',
+      errorKey: 'validation.minSelections',
+      errorParams: { count: 2 },
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
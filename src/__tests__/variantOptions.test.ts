@@ -0,0 +1,138 @@
+/**
+ * hydrogen-bundles variant option tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  findVariantByOptions,
+  getComponentOptions,
+  getOptionValueState,
+  getVariantOptions,
+} from '../utils/variantOptions.js';
+
+import type { BundleComponent } from '../types.js';
+
+const variant = (id: number, size: string, color: string, availableForSale = true) => ({
+  id: `gid://shopify/ProductVariant/${id}`,
+  title: `${size} / ${color}`,
+  price: { amount: '10.00', currencyCode: 'USD' },
+  availableForSale,
+  selectedOptions: [
+    { name: 'Size', value: size },
+    { name: 'Color', value: color },
+    { name: 'Material', value: 'Cotton' },
+  ],
+});
+
+const component: BundleComponent = {
+  productId: 'gid://shopify/Product/1',
+  productTitle: 'T-Shirt',
+  productHandle: 't-shirt',
+  quantity: 1,
+  variants: [
+    variant(1, 'S', 'Red'),
+    variant(2, 'M', 'Red'),
+    variant(3, 'S', 'Blue', false),
+    variant(4, 'L', 'Blue'),
+  ],
+};
+
+describe('getComponentOptions', () => {
+  it('lists options with more than one value, in variant order', () => {
+    expect(getComponentOptions(component)).toEqual([
+      { name: 'Size', values: ['S', 'M', 'L'] },
+      { name: 'Color', values: ['Red', 'Blue'] },
+    ]);
+  });
+
+  it('has no options for single-variant products', () => {
+    expect(getComponentOptions({ ...component, variants: [component.variants[0]!] })).toEqual([]);
+  });
+});
+
+describe('findVariantByOptions', () => {
+  it('finds the variant with every given option', () => {
+    expect(findVariantByOptions(component, { Size: 'L', Color: 'Blue' })?.id).toBe(
+      'gid://shopify/ProductVariant/4',
+    );
+    expect(findVariantByOptions(component, { Size: 'L', Color: 'Red' })).toBeUndefined();
+    expect(getVariantOptions(component.variants[1]!)).toMatchObject({ Size: 'M', Color: 'Red' });
+  });
+});
+
+describe('getOptionValueState', () => {
+  const current = component.variants[0]!; // S / Red
+
+  it('keeps the other current options', () => {
+    expect(getOptionValueState(component, current, 'Size', 'M')).toEqual({
+      variant: component.variants[1],
+      available: true,
+    });
+  });
+
+  it('falls back to an available variant when the combination is missing or sold out', () => {
+    // L / Red does not exist and S / Blue is sold out
+    expect(getOptionValueState(component, current, 'Size', 'L')).toEqual({
+      variant: component.variants[3],
+      available: true,
+    });
+    expect(getOptionValueState(component, current, 'Color', 'Blue')).toEqual({
+      variant: component.variants[3],
+      available: true,
+    });
+  });
+
+  it('prefers the fallback that keeps the most current options', () => {
+    const shirt: BundleComponent = {
+      ...component,
+      variants: [
+        variant(1, 'S', 'Red'),
+        {
+          ...variant(2, 'M', 'Blue'),
+          selectedOptions: [
+            { name: 'Size', value: 'M' },
+            { name: 'Color', value: 'Blue' },
+            { name: 'Material', value: 'Wool' },
+          ],
+        },
+        variant(3, 'L', 'Blue'),
+      ],
+    };
+
+    // Both fallback variants change the size, but only L / Blue keeps the material
+
+    expect(getOptionValueState(shirt, shirt.variants[0]!, 'Color', 'Blue').variant?.id).toBe(
+      'gid://shopify/ProductVariant/3',
+    );
+  });
+
+  it('keeps every value of a sparse option matrix reachable', () => {
+    const sparse: BundleComponent = {
+      ...component,
+      variants: [variant(1, 'S', 'Red'), variant(2, 'L', 'Blue')],
+    };
+    const start = sparse.variants[0]!;
+
+    expect(getOptionValueState(sparse, start, 'Color', 'Blue')).toEqual({
+      variant: sparse.variants[1],
+      available: true,
+    });
+    expect(getOptionValueState(sparse, start, 'Size', 'L')).toEqual({
+      variant: sparse.variants[1],
+      available: true,
+    });
+  });
+
+  it('marks values no available variant has unavailable', () => {
+    const soldOut: BundleComponent = {
+      ...component,
+      variants: [variant(1, 'S', 'Red'), variant(2, 'L', 'Blue', false)],
+    };
+
+    expect(getOptionValueState(soldOut, soldOut.variants[0]!, 'Color', 'Blue')).toEqual({
+      variant: undefined,
+      available: false,
+    });
+  });
+});
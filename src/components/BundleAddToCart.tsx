@@ -4,11 +4,15 @@
  * Smart add-to-cart button for bundles with loading and error states.
  */
 
-import { useCallback, useState } from 'react';
+import type { BundleAddMode, BundleDefinition, BundleSelection } from '../types.js';
+import { useBundleAddToCartButton } from '../hooks/useBundleAddToCartButton.js';
+import { getThemeStyle, joinClassNames, themeVar } from '../utils/theme.js';
+import { useBundleMessages, useBundleTheme } from './BundleProvider.js';
 
-import type { BundleDefinition, BundleSelection } from '../types.js';
-import { useBundleConfig } from './BundleProvider.js';
-import { useBundleCart } from '../hooks/useBundleCart.js';
+/**
+ * Elements of BundleAddToCart that take extra classes
+ */
+export type BundleAddToCartSlot = 'root' | 'button' | 'error' | 'hint';
 
 export interface BundleAddToCartProps {
   /** Bundle definition */
@@ -21,9 +25,9 @@ export interface BundleAddToCartProps {
   cartId?: string;
   /** Whether the button is disabled */
   disabled?: boolean;
-  /** Button text (default: "Add Bundle to Cart") */
+  /** Button text (default: the `addToCart.button` message) */
   text?: string;
-  /** Loading text (default: "Adding...") */
+  /** Loading text (default: the `addToCart.adding` message) */
   loadingText?: string;
   /** Callback on successful add */
   onSuccess?: () => void;
@@ -31,8 +35,22 @@ export interface BundleAddToCartProps {
   onError?: (error: string) => void;
   /** Additional CSS classes */
   className?: string;
+  /** Additional CSS classes per element, added to the `bundle-add-to-cart__*` classes */
+  classNames?: Partial<Record<BundleAddToCartSlot, string>>;
   /** Custom attributes to add to cart lines */
   customAttributes?: Record<string, string>;
+  /** Cart add mode (default: the provider config's `addMode`) */
+  addMode?: BundleAddMode;
+  /**
+   * Route action to post to (handled by handleBundleAddToCartAction). Renders a
+   * form that works without JavaScript; with JavaScript the add still runs
+   * client-side.
+   */
+  action?: string;
+  /** Path the action redirects to after a no-JavaScript add */
+  redirectTo?: string;
+  /** Leave out the built-in styles, keeping the class names (default: false) */
+  unstyled?: boolean;
 }
 
 /**
@@ -56,102 +74,100 @@ export function BundleAddToCart({
   quantity = 1,
   cartId,
   disabled = false,
-  text = 'Add Bundle to Cart',
-  loadingText = 'Adding...',
+  text,
+  loadingText,
   onSuccess,
   onError,
   className = '',
+  classNames = {},
   customAttributes,
+  addMode,
+  action,
+  redirectTo,
+  unstyled = false,
 }: BundleAddToCartProps) {
-  const config = useBundleConfig();
-  const [localError, setLocalError] = useState<string | undefined>();
-
-  const { addBundle, isAdding, error, clearError } = useBundleCart({
-    config,
-    cartId,
-    onSuccess: () => {
-      setLocalError(undefined);
-      onSuccess?.();
-    },
-    onError: (err) => {
-      setLocalError(err);
-      onError?.(err);
-    },
-  });
-
-  const handleClick = useCallback(async () => {
-    clearError();
-    setLocalError(undefined);
-
-    await addBundle(definition, {
-      selectedComponents,
-      quantity,
-      customAttributes,
-    });
-  }, [
-    addBundle,
-    clearError,
+  const button = useBundleAddToCartButton({
     definition,
     selectedComponents,
     quantity,
+    cartId,
+    disabled,
+    onSuccess,
+    onError,
     customAttributes,
-  ]);
-
-  const displayError = localError ?? error;
-  const isDisabled = disabled || isAdding || !definition.availableForSale;
-
-  // Check if mix-and-match selection is complete
-  const isSelectionIncomplete =
-    definition.bundleType === 'mix_and_match' &&
-    definition.minSelections &&
-    (!selectedComponents ||
-      selectedComponents.reduce((sum, s) => sum + s.quantity, 0) <
-        definition.minSelections);
+    addMode,
+    action,
+    redirectTo,
+  });
+  const theme = useBundleTheme();
+  const { format } = useBundleMessages();
+
+  const buttonElement = (
+    <button
+      {...button.getButtonProps()}
+      className={joinClassNames('bundle-add-to-cart__button', classNames.button)}
+    >
+      {button.isAdding
+        ? (loadingText ?? format('addToCart.adding'))
+        : (text ?? format('addToCart.button'))}
+    </button>
+  );
 
   return (
-    <div className={`bundle-add-to-cart ${className}`}>
-      <button
-        type="button"
-        onClick={handleClick}
-        disabled={isDisabled || !!isSelectionIncomplete}
-        aria-busy={isAdding}
-        className="bundle-add-to-cart__button"
-      >
-        {isAdding ? loadingText : text}
-      </button>
+    <div
+      className={joinClassNames('bundle-add-to-cart', className, classNames.root)}
+      style={getThemeStyle(theme)}
+    >
+      {action ? (
+        <form {...button.getFormProps()}>
+          {button.getHiddenInputs().map((input) => (
+            <input key={input.name} {...input} />
+          ))}
+          {buttonElement}
+        </form>
+      ) : (
+        buttonElement
+      )}
 
-      {displayError && (
-        <p className="bundle-add-to-cart__error" role="alert">
-          {displayError}
+      {button.error && (
+        <p
+          {...button.getErrorProps()}
+          className={joinClassNames('bundle-add-to-cart__error', classNames.error)}
+        >
+          {button.error}
         </p>
       )}
 
-      {isSelectionIncomplete && !displayError && (
-        <p className="bundle-add-to-cart__hint">
-          Please select {definition.minSelections} items to continue.
+      {button.isSelectionIncomplete && !button.error && (
+        <p
+          {...button.getHintProps()}
+          className={joinClassNames('bundle-add-to-cart__hint', classNames.hint)}
+        >
+          {format('addToCart.selectionHint', { count: definition.minSelections ?? 0 })}
         </p>
       )}
 
-      <style>{`
+      {!unstyled && (
+        <style>{`
         .bundle-add-to-cart__button {
           width: 100%;
           padding: 0.75rem 1.5rem;
           font-size: 1rem;
           font-weight: 600;
-          color: white;
-          background-color: #1a1a1a;
+          color: ${themeVar('colorPrimaryText')};
+          background-color: ${themeVar('colorPrimary')};
           border: none;
-          border-radius: 0.375rem;
+          border-radius: ${themeVar('radiusButton')};
           cursor: pointer;
           transition: background-color 0.15s ease;
         }
 
         .bundle-add-to-cart__button:hover:not(:disabled) {
-          background-color: #333;
+          background-color: ${themeVar('colorPrimaryHover')};
         }
 
         .bundle-add-to-cart__button:disabled {
-          background-color: #999;
+          background-color: ${themeVar('colorDisabled')};
           cursor: not-allowed;
         }
 
@@ -163,17 +179,18 @@ export function BundleAddToCart({
           margin-top: 0.5rem;
           padding: 0.5rem;
           font-size: 0.875rem;
-          color: #dc2626;
-          background-color: #fef2f2;
-          border-radius: 0.25rem;
+          color: ${themeVar('colorError')};
+          background-color: ${themeVar('colorErrorBackground')};
+          border-radius: ${themeVar('radiusSmall')};
         }
 
         .bundle-add-to-cart__hint {
           margin-top: 0.5rem;
           font-size: 0.875rem;
-          color: #666;
+          color: ${themeVar('colorTextMuted')};
         }
       `}</style>
+      )}
     </div>
   );
 }
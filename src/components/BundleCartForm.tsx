@@ -0,0 +1,143 @@
+/**
+ * BundleCartForm
+ *
+ * Posts bundle add, remove and update intents to a Hydrogen cart route,
+ * where handleBundleCartAction applies them with Hydrogen's cart handler.
+ */
+
+import type { ComponentType, ReactNode } from 'react';
+import type {
+  BundleAddMode,
+  BundleDefinition,
+  BundleLineGroup,
+  BundleSelection,
+} from '../types.js';
+import { BUNDLE_CART_ACTIONS, CART_FORM_INPUT_FIELD } from '../utils/constants.js';
+import { buildBundleQuantityUpdates, getBundleLineIds } from '../sdk/buildCartMutation.js';
+
+/**
+ * Props BundleCartForm passes to Hydrogen's CartForm
+ */
+export interface CartFormComponentProps {
+  route?: string;
+  action: `Custom${string}`;
+  inputs?: Record<string, unknown>;
+  children?: ReactNode;
+}
+
+interface BundleCartFormBaseProps {
+  /** Cart route whose action calls handleBundleCartAction (default: "/cart") */
+  route?: string;
+  /**
+   * Hydrogen's `CartForm`. Submits through a Remix fetcher, so Hydrogen's
+   * optimistic cart sees the change. A plain form is rendered when omitted.
+   */
+  CartForm?: ComponentType<CartFormComponentProps>;
+  /** Form contents (usually a submit button) */
+  children: ReactNode;
+}
+
+interface BundleCartFormAddProps extends BundleCartFormBaseProps {
+  intent: 'add';
+  /** Bundle definition */
+  definition: BundleDefinition;
+  /** Selected components for mix-and-match bundles */
+  selectedComponents?: BundleSelection[];
+  /** Quantity to add (default: 1) */
+  quantity?: number;
+  /** Custom attributes to add to cart lines */
+  customAttributes?: Record<string, string>;
+  /** Cart add mode (default: the server config's `addMode`) */
+  addMode?: BundleAddMode;
+}
+
+interface BundleCartFormRemoveProps extends BundleCartFormBaseProps {
+  intent: 'remove';
+  /** Bundle group (from useBundleLines) */
+  group: BundleLineGroup;
+}
+
+interface BundleCartFormUpdateProps extends BundleCartFormBaseProps {
+  intent: 'update';
+  /** Bundle group (from useBundleLines) */
+  group: BundleLineGroup;
+  /** New bundle quantity (0 removes the bundle) */
+  quantity: number;
+}
+
+export type BundleCartFormProps =
+  | BundleCartFormAddProps
+  | BundleCartFormRemoveProps
+  | BundleCartFormUpdateProps;
+
+/**
+ * Build the CartForm action and inputs for an intent
+ */
+function getCartFormInput(props: BundleCartFormProps): {
+  action: (typeof BUNDLE_CART_ACTIONS)[keyof typeof BUNDLE_CART_ACTIONS];
+  inputs: Record<string, unknown>;
+} {
+  switch (props.intent) {
+    case 'add':
+      return {
+        action: BUNDLE_CART_ACTIONS.add,
+        inputs: {
+          bundleId: props.definition.id,
+          selectedComponents: props.selectedComponents,
+          quantity: props.quantity ?? 1,
+          customAttributes: props.customAttributes,
+          addMode: props.addMode,
+        },
+      };
+    case 'remove':
+      return {
+        action: BUNDLE_CART_ACTIONS.remove,
+        inputs: { lineIds: getBundleLineIds(props.group) },
+      };
+    case 'update':
+      return {
+        action: BUNDLE_CART_ACTIONS.update,
+        inputs: { lines: buildBundleQuantityUpdates(props.group, Math.max(0, props.quantity)) },
+      };
+  }
+}
+
+/**
+ * Form for bundle cart changes in Hydrogen storefronts
+ *
+ * @example
+ * ```tsx
+ * import { CartForm } from '@shopify/hydrogen';
+ *
+ * <BundleCartForm intent="add" definition={definition} selectedComponents={selections} CartForm={CartForm}>
+ *   <button type="submit">Add bundle to cart</button>
+ * </BundleCartForm>
+ *
+ * <BundleCartForm intent="remove" group={group} CartForm={CartForm}>
+ *   <button type="submit">Remove</button>
+ * </BundleCartForm>
+ * ```
+ */
+export function BundleCartForm(props: BundleCartFormProps) {
+  const { route = '/cart', CartForm, children } = props;
+  const { action, inputs } = getCartFormInput(props);
+
+  if (CartForm) {
+    return (
+      <CartForm route={route} action={action} inputs={inputs}>
+        {children}
+      </CartForm>
+    );
+  }
+
+  return (
+    <form method="post" action={route}>
+      <input
+        type="hidden"
+        name={CART_FORM_INPUT_FIELD}
+        value={JSON.stringify({ action, inputs })}
+      />
+      {children}
+    </form>
+  );
+}
@@ -4,52 +4,49 @@
  * Cart line item display for bundles, showing either combined or expanded view.
  */
 
-import { useMemo } from 'react';
-
-import type { Money } from '../types.js';
+import type { BundleDefinition, BundleSelection } from '../types.js';
+import { useBundleLineItem, type CartLineData } from '../hooks/useBundleLineItem.js';
 import { formatMoney } from '../sdk/calculatePrice.js';
-import { getBundleInfoFromLine } from '../sdk/buildCartMutation.js';
-
-interface CartLineData {
-  id: string;
-  quantity: number;
-  merchandise: {
-    id: string;
-    title: string;
-    image?: {
-      url: string;
-      altText?: string;
-    };
-    price: Money;
-    product: {
-      id: string;
-      title: string;
-      handle: string;
-    };
-  };
-  attributes: Array<{ key: string; value: string }>;
-  cost: {
-    totalAmount: Money;
-  };
-}
+import { getThemeStyle, joinClassNames, themeVar } from '../utils/theme.js';
+import { BundlePicker } from './BundlePicker.js';
+import { useBundleMessages, useBundleTheme } from './BundleProvider.js';
+
+/**
+ * Elements of BundleLineItem that take extra classes
+ */
+export type BundleLineItemSlot =
+  'root' | 'image' | 'title' | 'price' | 'component' | 'stepper' | 'remove';
 
 export interface BundleLineItemProps {
   /** All lines that belong to this bundle (grouped) */
   lines: CartLineData[];
+  /** Parent line of a bundle expanded natively by Shopify (`group.parentLine`) */
+  parentLine?: CartLineData;
   /** Bundle title (if available) */
   bundleTitle?: string;
   /** Display mode: combined shows as one item, expanded shows all components */
   displayMode?: 'combined' | 'expanded';
   /** Allow quantity changes */
   allowQuantityChange?: boolean;
-  /** Callback when quantity changes */
+  /** Callback with the new bundle quantity (pass to `updateBundleQuantity`, which scales every component line) */
   onQuantityChange?: (newQuantity: number) => void;
   /** Callback when bundle is removed */
   onRemove?: () => void;
+  /** Bundle definition, required to edit the bundle's selections */
+  definition?: BundleDefinition;
+  /**
+   * Callback with the new selections when the bundle is edited (expanded
+   * mode). The editor stays open when the edit fails.
+   */
+  onEdit?: (selections: BundleSelection[]) => void | Promise<unknown>;
   /** Locale for price formatting */
   locale?: string;
+  /** Leave out the built-in styles, keeping the class names (default: false) */
+  unstyled?: boolean;
   /** Additional CSS classes */
   className?: string;
+  /** Additional CSS classes per element, added to the `bundle-line-item__*` classes */
+  classNames?: Partial<Record<BundleLineItemSlot, string>>;
 }
 
 /**
@@ -58,134 +55,112 @@ export interface BundleLineItemProps {
  * @example
  * ```tsx
  * const { bundleGroups } = useBundleLines(cart.lines);
+ * const { removeBundle, updateBundleQuantity } = useBundleCart({ config, cartId: cart.id });
  *
- * {Array.from(bundleGroups.values()).map((group) => (
+ * {Array.from(bundleGroups.entries()).map(([key, group]) => (
  *   <BundleLineItem
- *     key={group.bundleProductId}
+ *     key={key}
  *     lines={group.lines}
+ *     parentLine={group.parentLine}
  *     displayMode="combined"
- *     onRemove={() => removeBundle(group.bundleProductId)}
+ *     onQuantityChange={(quantity) => updateBundleQuantity(group, quantity)}
+ *     onRemove={() => removeBundle(group)}
  *   />
  * ))}
  * ```
  */
 export function BundleLineItem({
   lines,
+  parentLine,
   bundleTitle,
   displayMode = 'combined',
   allowQuantityChange = true,
   onQuantityChange,
   onRemove,
+  definition,
+  onEdit,
   locale = 'en-US',
+  unstyled = false,
   className = '',
+  classNames = {},
 }: BundleLineItemProps) {
-  // Calculate total price
-  const totalPrice = useMemo(() => {
-    const total = lines.reduce(
-      (sum, line) => sum + parseFloat(line.cost.totalAmount.amount),
-      0,
-    );
-    const currencyCode = lines[0]?.cost.totalAmount.currencyCode ?? 'USD';
-    return {
-      amount: total.toFixed(2),
-      currencyCode,
-    };
-  }, [lines]);
-
-  // Get bundle quantity (all components should have same quantity multiplier)
-  const bundleQuantity = useMemo(() => {
-    // Find the first component and check its quantity
-    const firstLine = lines[0];
-    if (!firstLine) return 1;
-
-    // Get component quantity from definition (stored in line quantity)
-    // For simplicity, assume quantity is 1 bundle = line quantity / component quantity
-    return firstLine.quantity;
-  }, [lines]);
-
-  // Use first line's image as bundle image (or could fetch bundle image)
-  const bundleImage = lines[0]?.merchandise.image;
-
-  // Derive bundle title from product titles if not provided
-  const derivedBundleTitle = useMemo(() => {
-    if (bundleTitle) return bundleTitle;
-
-    // Try to get bundle product ID from attributes
-    const firstLine = lines[0];
-    if (!firstLine) return 'Bundle';
-
-    const bundleInfo = getBundleInfoFromLine(firstLine);
-    if (bundleInfo._bundleProductId) {
-      // Could fetch bundle title here, for now use first product
-      return `${firstLine.merchandise.product.title} Bundle`;
-    }
-
-    return 'Bundle';
-  }, [bundleTitle, lines]);
+  const item = useBundleLineItem({
+    lines,
+    parentLine,
+    bundleTitle,
+    onQuantityChange,
+    onRemove,
+    definition,
+    onEdit,
+  });
+  const { bundleQuantity, totalPrice, bundleImage, canEdit, isEditing } = item;
+  const derivedBundleTitle = item.bundleTitle;
+  const theme = useBundleTheme();
+  const { format } = useBundleMessages();
 
   if (displayMode === 'combined') {
     return (
-      <div className={`bundle-line-item bundle-line-item--combined ${className}`}>
+      <div
+        className={joinClassNames(
+          'bundle-line-item bundle-line-item--combined',
+          className,
+          classNames.root,
+        )}
+        style={getThemeStyle(theme)}
+      >
         <div className="bundle-line-item__image-container">
           {bundleImage && (
             <img
               src={bundleImage.url}
               alt={bundleImage.altText ?? derivedBundleTitle}
-              className="bundle-line-item__image"
+              className={joinClassNames('bundle-line-item__image', classNames.image)}
             />
           )}
-          <span className="bundle-line-item__badge">{lines.length} items</span>
+          <span className="bundle-line-item__badge">
+            {format('lineItem.itemCount', { count: lines.length })}
+          </span>
         </div>
 
         <div className="bundle-line-item__content">
-          <h4 className="bundle-line-item__title">{derivedBundleTitle}</h4>
+          <h4 className={joinClassNames('bundle-line-item__title', classNames.title)}>
+            {derivedBundleTitle}
+          </h4>
           <p className="bundle-line-item__components">
             {lines.map((l) => l.merchandise.product.title).join(', ')}
           </p>
 
           {allowQuantityChange && (
-            <div className="bundle-line-item__quantity">
-              <button
-                type="button"
-                onClick={() => onQuantityChange?.(bundleQuantity - 1)}
-                disabled={bundleQuantity <= 1}
-                aria-label="Decrease quantity"
-              >
-                −
-              </button>
-              <span>{bundleQuantity}</span>
-              <button
-                type="button"
-                onClick={() => onQuantityChange?.(bundleQuantity + 1)}
-                aria-label="Increase quantity"
-              >
-                +
-              </button>
+            <div
+              className={joinClassNames('bundle-line-item__quantity', classNames.stepper)}
+              {...item.getQuantityGroupProps()}
+            >
+              <button {...item.getDecrementProps()}>−</button>
+              <span {...item.getQuantityProps()}>{bundleQuantity}</span>
+              <button {...item.getIncrementProps()}>+</button>
             </div>
           )}
         </div>
 
-        <div className="bundle-line-item__price">
+        <div className={joinClassNames('bundle-line-item__price', classNames.price)}>
           <span>{formatMoney(totalPrice, locale)}</span>
           {onRemove && (
             <button
-              type="button"
-              onClick={onRemove}
-              className="bundle-line-item__remove"
-              aria-label="Remove bundle"
+              {...item.getRemoveProps()}
+              className={joinClassNames('bundle-line-item__remove', classNames.remove)}
             >
-              Remove
+              {format('lineItem.remove')}
             </button>
           )}
         </div>
 
-        <style>{`
+        {!unstyled && (
+          <style>{`
           .bundle-line-item--combined {
             display: flex;
             gap: 1rem;
             padding: 1rem;
-            border: 1px solid #e5e5e5;
-            border-radius: 0.5rem;
+            border: 1px solid ${themeVar('colorBorder')};
+            border-radius: ${themeVar('radius')};
           }
 
           .bundle-line-item__image-container {
@@ -197,7 +172,7 @@ export function BundleLineItem({
             width: 80px;
             height: 80px;
             object-fit: cover;
-            border-radius: 0.25rem;
+            border-radius: ${themeVar('radiusSmall')};
           }
 
           .bundle-line-item__badge {
@@ -207,9 +182,9 @@ export function BundleLineItem({
             padding: 0.125rem 0.375rem;
             font-size: 0.625rem;
             font-weight: 600;
-            color: white;
-            background: #1a1a1a;
-            border-radius: 0.25rem;
+            color: ${themeVar('colorPrimaryText')};
+            background: ${themeVar('colorPrimary')};
+            border-radius: ${themeVar('radiusSmall')};
           }
 
           .bundle-line-item__content {
@@ -221,13 +196,13 @@ export function BundleLineItem({
             margin: 0;
             font-size: 1rem;
             font-weight: 600;
-            color: #1a1a1a;
+            color: ${themeVar('colorText')};
           }
 
           .bundle-line-item__components {
             margin: 0.25rem 0 0;
             font-size: 0.75rem;
-            color: #666;
+            color: ${themeVar('colorTextMuted')};
             overflow: hidden;
             text-overflow: ellipsis;
             white-space: nowrap;
@@ -239,8 +214,8 @@ export function BundleLineItem({
             gap: 0.5rem;
             margin-top: 0.5rem;
             padding: 0.25rem;
-            background: #f5f5f5;
-            border-radius: 0.25rem;
+            background: ${themeVar('colorSurface')};
+            border-radius: ${themeVar('radiusSmall')};
           }
 
           .bundle-line-item__quantity button {
@@ -251,10 +226,10 @@ export function BundleLineItem({
             justify-content: center;
             font-size: 1rem;
             font-weight: 600;
-            color: #1a1a1a;
-            background: white;
-            border: 1px solid #e5e5e5;
-            border-radius: 0.25rem;
+            color: ${themeVar('colorText')};
+            background: ${themeVar('colorBackground')};
+            border: 1px solid ${themeVar('colorBorder')};
+            border-radius: ${themeVar('radiusSmall')};
             cursor: pointer;
           }
 
@@ -269,13 +244,13 @@ export function BundleLineItem({
             align-items: flex-end;
             gap: 0.5rem;
             font-weight: 600;
-            color: #1a1a1a;
+            color: ${themeVar('colorText')};
           }
 
           .bundle-line-item__remove {
             padding: 0;
             font-size: 0.75rem;
-            color: #dc2626;
+            color: ${themeVar('colorError')};
             background: none;
             border: none;
             cursor: pointer;
@@ -285,83 +260,112 @@ export function BundleLineItem({
             text-decoration: underline;
           }
         `}</style>
+        )}
       </div>
     );
   }
 
   // Expanded mode
   return (
-    <div className={`bundle-line-item bundle-line-item--expanded ${className}`}>
+    <div
+      className={joinClassNames(
+        'bundle-line-item bundle-line-item--expanded',
+        className,
+        classNames.root,
+      )}
+      style={getThemeStyle(theme)}
+    >
       <div className="bundle-line-item__header">
-        <h4 className="bundle-line-item__title">{derivedBundleTitle}</h4>
-        <span className="bundle-line-item__total">{formatMoney(totalPrice, locale)}</span>
+        <h4 className={joinClassNames('bundle-line-item__title', classNames.title)}>
+          {derivedBundleTitle}
+        </h4>
+        <span className={joinClassNames('bundle-line-item__total', classNames.price)}>
+          {formatMoney(totalPrice, locale)}
+        </span>
       </div>
 
-      <div className="bundle-line-item__list">
-        {lines.map((line) => (
-          <div key={line.id} className="bundle-line-item__component">
-            {line.merchandise.image && (
-              <img
-                src={line.merchandise.image.url}
-                alt={line.merchandise.image.altText ?? line.merchandise.title}
-                className="bundle-line-item__component-image"
-              />
-            )}
-            <div className="bundle-line-item__component-info">
-              <span className="bundle-line-item__component-title">
-                {line.merchandise.product.title}
-              </span>
-              {line.merchandise.title !== 'Default Title' && (
-                <span className="bundle-line-item__component-variant">
-                  {line.merchandise.title}
-                </span>
+      {isEditing && definition ? (
+        <div className="bundle-line-item__editor">
+          <BundlePicker
+            definition={definition}
+            selectedComponents={item.draftSelections}
+            onSelectionChange={item.setDraftSelections}
+            locale={locale}
+            unstyled={unstyled}
+          />
+          <div className="bundle-line-item__editor-actions">
+            <button type="button" onClick={item.cancelEdit} className="bundle-line-item__cancel">
+              {format('lineItem.cancel')}
+            </button>
+            <button type="button" onClick={item.saveEdit} className="bundle-line-item__save">
+              {format('lineItem.save')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="bundle-line-item__list">
+          {lines.map((line) => (
+            <div
+              key={line.id}
+              className={joinClassNames('bundle-line-item__component', classNames.component)}
+            >
+              {line.merchandise.image && (
+                <img
+                  src={line.merchandise.image.url}
+                  alt={line.merchandise.image.altText ?? line.merchandise.title}
+                  className={joinClassNames('bundle-line-item__component-image', classNames.image)}
+                />
               )}
+              <div className="bundle-line-item__component-info">
+                <span className="bundle-line-item__component-title">
+                  {line.merchandise.product.title}
+                </span>
+                {line.merchandise.title !== 'Default Title' && (
+                  <span className="bundle-line-item__component-variant">
+                    {line.merchandise.title}
+                  </span>
+                )}
+              </div>
+              <span className="bundle-line-item__component-quantity">
+                ×{line.quantity}
+              </span>
             </div>
-            <span className="bundle-line-item__component-quantity">
-              ×{line.quantity}
-            </span>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
 
       <div className="bundle-line-item__footer">
         {allowQuantityChange && (
-          <div className="bundle-line-item__quantity">
-            <button
-              type="button"
-              onClick={() => onQuantityChange?.(bundleQuantity - 1)}
-              disabled={bundleQuantity <= 1}
-              aria-label="Decrease quantity"
-            >
-              −
-            </button>
-            <span>{bundleQuantity}</span>
-            <button
-              type="button"
-              onClick={() => onQuantityChange?.(bundleQuantity + 1)}
-              aria-label="Increase quantity"
-            >
-              +
-            </button>
+          <div
+            className={joinClassNames('bundle-line-item__quantity', classNames.stepper)}
+            {...item.getQuantityGroupProps()}
+          >
+            <button {...item.getDecrementProps()}>−</button>
+            <span {...item.getQuantityProps()}>{bundleQuantity}</span>
+            <button {...item.getIncrementProps()}>+</button>
           </div>
         )}
+        {canEdit && !isEditing && (
+          <button {...item.getEditProps()} className="bundle-line-item__edit">
+            {format('lineItem.edit')}
+          </button>
+        )}
         {onRemove && (
           <button
-            type="button"
-            onClick={onRemove}
-            className="bundle-line-item__remove"
-            aria-label="Remove bundle"
+            {...item.getRemoveProps()}
+            className={joinClassNames('bundle-line-item__remove', classNames.remove)}
           >
-            Remove
+            {format('lineItem.remove')}
           </button>
         )}
       </div>
 
-      <style>{`
+      {!unstyled && (
+        <style>{`
         .bundle-line-item--expanded {
           padding: 1rem;
-          border: 1px solid #e5e5e5;
-          border-radius: 0.5rem;
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radius')};
         }
 
         .bundle-line-item__header {
@@ -369,19 +373,19 @@ export function BundleLineItem({
           justify-content: space-between;
           align-items: center;
           padding-bottom: 0.75rem;
-          border-bottom: 1px solid #e5e5e5;
+          border-bottom: 1px solid ${themeVar('colorBorder')};
         }
 
         .bundle-line-item--expanded .bundle-line-item__title {
           margin: 0;
           font-size: 1rem;
           font-weight: 600;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-line-item__total {
           font-weight: 600;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-line-item__list {
@@ -396,14 +400,14 @@ export function BundleLineItem({
         }
 
         .bundle-line-item__component:not(:last-child) {
-          border-bottom: 1px dashed #e5e5e5;
+          border-bottom: 1px dashed ${themeVar('colorBorder')};
         }
 
         .bundle-line-item__component-image {
           width: 40px;
           height: 40px;
           object-fit: cover;
-          border-radius: 0.25rem;
+          border-radius: ${themeVar('radiusSmall')};
         }
 
         .bundle-line-item__component-info {
@@ -414,17 +418,17 @@ export function BundleLineItem({
 
         .bundle-line-item__component-title {
           font-size: 0.875rem;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-line-item__component-variant {
           font-size: 0.75rem;
-          color: #666;
+          color: ${themeVar('colorTextMuted')};
         }
 
         .bundle-line-item__component-quantity {
           font-size: 0.875rem;
-          color: #666;
+          color: ${themeVar('colorTextMuted')};
         }
 
         .bundle-line-item__footer {
@@ -432,7 +436,7 @@ export function BundleLineItem({
           justify-content: space-between;
           align-items: center;
           padding-top: 0.75rem;
-          border-top: 1px solid #e5e5e5;
+          border-top: 1px solid ${themeVar('colorBorder')};
         }
 
         .bundle-line-item--expanded .bundle-line-item__quantity {
@@ -440,8 +444,8 @@ export function BundleLineItem({
           align-items: center;
           gap: 0.5rem;
           padding: 0.25rem;
-          background: #f5f5f5;
-          border-radius: 0.25rem;
+          background: ${themeVar('colorSurface')};
+          border-radius: ${themeVar('radiusSmall')};
         }
 
         .bundle-line-item--expanded .bundle-line-item__quantity button {
@@ -452,10 +456,10 @@ export function BundleLineItem({
           justify-content: center;
           font-size: 1rem;
           font-weight: 600;
-          color: #1a1a1a;
-          background: white;
-          border: 1px solid #e5e5e5;
-          border-radius: 0.25rem;
+          color: ${themeVar('colorText')};
+          background: ${themeVar('colorBackground')};
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radiusSmall')};
           cursor: pointer;
         }
 
@@ -467,17 +471,61 @@ export function BundleLineItem({
         .bundle-line-item--expanded .bundle-line-item__remove {
           padding: 0.5rem 1rem;
           font-size: 0.875rem;
-          color: #dc2626;
+          color: ${themeVar('colorError')};
           background: none;
-          border: 1px solid #dc2626;
-          border-radius: 0.25rem;
+          border: 1px solid ${themeVar('colorError')};
+          border-radius: ${themeVar('radiusSmall')};
           cursor: pointer;
         }
 
         .bundle-line-item--expanded .bundle-line-item__remove:hover {
-          background: #fef2f2;
+          background: ${themeVar('colorErrorBackground')};
+        }
+
+        .bundle-line-item__edit {
+          margin-left: auto;
+          margin-right: 0.5rem;
+          padding: 0.5rem 1rem;
+          font-size: 0.875rem;
+          color: ${themeVar('colorText')};
+          background: none;
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radiusSmall')};
+          cursor: pointer;
+        }
+
+        .bundle-line-item__editor {
+          padding: 0.75rem 0;
+        }
+
+        .bundle-line-item__editor-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+        }
+
+        .bundle-line-item__cancel,
+        .bundle-line-item__save {
+          padding: 0.5rem 1rem;
+          font-size: 0.875rem;
+          border-radius: ${themeVar('radiusSmall')};
+          cursor: pointer;
+        }
+
+        .bundle-line-item__cancel {
+          color: ${themeVar('colorText')};
+          background: ${themeVar('colorBackground')};
+          border: 1px solid ${themeVar('colorBorder')};
+        }
+
+        .bundle-line-item__save {
+          color: ${themeVar('colorPrimaryText')};
+          background: ${themeVar('colorPrimary')};
+          border: 1px solid ${themeVar('colorPrimary')};
         }
       `}</style>
+      )}
     </div>
   );
 }
@@ -4,10 +4,46 @@
  * Mix-and-match component selector for bundles where customers pick items.
  */
 
-import { useCallback, useMemo } from 'react';
-
-import type { BundleDefinition, BundleComponent, BundleSelection } from '../types.js';
+import type { CSSProperties } from 'react';
+
+import type {
+  BundleDefinition,
+  BundleComponent,
+  BundleComponentVariant,
+  BundleSelection,
+} from '../types.js';
+import { useBundlePicker } from '../hooks/useBundlePicker.js';
 import { formatMoney } from '../sdk/calculatePrice.js';
+import { getThemeStyle, joinClassNames, themeVar } from '../utils/theme.js';
+import {
+  getOptionValueState,
+  getVariantOptions,
+  type ComponentOption,
+} from '../utils/variantOptions.js';
+import { useBundleMessages, useBundleTheme } from './BundleProvider.js';
+
+/**
+ * How a variant option is chosen
+ * - `buttons`: a button per value
+ * - `dropdown`: a select
+ * - `swatches`: a color swatch per value
+ */
+export type VariantOptionDisplay = 'buttons' | 'dropdown' | 'swatches';
+
+/**
+ * Elements of BundlePicker that take extra classes
+ */
+export type BundlePickerSlot =
+  | 'root'
+  | 'header'
+  | 'grid'
+  | 'card'
+  | 'image'
+  | 'title'
+  | 'price'
+  | 'stock'
+  | 'options'
+  | 'stepper';
 
 export interface BundlePickerProps {
   /** Bundle definition */
@@ -24,8 +60,144 @@ export interface BundlePickerProps {
   showInventory?: boolean;
   /** Locale for price formatting */
   locale?: string;
+  /** Show variant option selectors for components with several variants (default: true) */
+  showOptions?: boolean;
+  /**
+   * How options are chosen, for all options or per option name (default:
+   * swatches for color options, buttons for up to 6 values, else a dropdown)
+   */
+  optionDisplay?: VariantOptionDisplay | ((optionName: string) => VariantOptionDisplay | undefined);
+  /** Swatch colors by option value (default: the value as a CSS color name) */
+  swatchColors?: Record<string, string>;
+  /** Leave out the built-in styles, keeping the class names (default: false) */
+  unstyled?: boolean;
   /** Additional CSS classes */
   className?: string;
+  /** Additional CSS classes per element, added to the `bundle-picker__*` classes */
+  classNames?: Partial<Record<BundlePickerSlot, string>>;
+}
+
+/**
+ * Hides the live region visually but not from screen readers, also when
+ * `unstyled` drops the style block
+ */
+const VISUALLY_HIDDEN: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+/**
+ * Pick how an option is chosen
+ */
+function getOptionDisplay(
+  option: ComponentOption,
+  optionDisplay: BundlePickerProps['optionDisplay'],
+): VariantOptionDisplay {
+  const display = typeof optionDisplay === 'function' ? optionDisplay(option.name) : optionDisplay;
+  if (display) return display;
+  if (/^colou?r$/i.test(option.name)) return 'swatches';
+  return option.values.length <= 6 ? 'buttons' : 'dropdown';
+}
+
+interface VariantOptionSelectorProps {
+  component: BundleComponent;
+  /** Current variant */
+  variant: BundleComponentVariant;
+  option: ComponentOption;
+  display: VariantOptionDisplay;
+  swatchColors?: Record<string, string>;
+  onChange: (variant: BundleComponentVariant) => void;
+}
+
+/**
+ * Selector for one option of a component. Values that no available variant
+ * has are disabled.
+ */
+function VariantOptionSelector({
+  component,
+  variant,
+  option,
+  display,
+  swatchColors,
+  onChange,
+}: VariantOptionSelectorProps) {
+  const { format } = useBundleMessages();
+  const currentValue = getVariantOptions(variant)[option.name];
+  const label = format('picker.option', { option: option.name, title: component.productTitle });
+  const values = option.values.map((value) => ({
+    value,
+    ...getOptionValueState(component, variant, option.name, value),
+  }));
+
+  if (display === 'dropdown') {
+    return (
+      <label className="bundle-picker__option">
+        <span className="bundle-picker__option-name">{option.name}</span>
+        <select
+          className="bundle-picker__select"
+          value={currentValue}
+          aria-label={label}
+          onChange={(e) => {
+            const next = values.find((v) => v.value === e.target.value);
+            if (next?.variant && next.available) onChange(next.variant);
+          }}
+        >
+          {values.map(({ value, available }) => (
+            <option key={value} value={value} disabled={!available}>
+              {available ? value : format('picker.optionUnavailable', { value })}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  return (
+    <div className="bundle-picker__option" role="group" aria-label={label}>
+      <span className="bundle-picker__option-name" aria-hidden="true">
+        {display === 'swatches' ? `${option.name}: ${currentValue}` : option.name}
+      </span>
+      <div className="bundle-picker__option-values">
+        {values.map(({ value, variant: next, available }) => {
+          const selected = value === currentValue;
+          const swatch = display === 'swatches';
+          const classes = [
+            'bundle-picker__option-value',
+            `bundle-picker__option-value--${swatch ? 'swatch' : 'button'}`,
+            selected ? 'bundle-picker__option-value--selected' : '',
+            available ? '' : 'bundle-picker__option-value--unavailable',
+          ];
+
+          return (
+            <button
+              key={value}
+              type="button"
+              className={classes.join(' ').trim()}
+              aria-pressed={selected}
+              aria-label={swatch ? value : undefined}
+              title={swatch ? value : undefined}
+              style={
+                swatch
+                  ? { background: swatchColors?.[value] ?? value.toLowerCase().replace(/\s+/g, '') }
+                  : undefined
+              }
+              disabled={!available}
+              onClick={() => next && !selected && onChange(next)}
+            >
+              {swatch ? null : value}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
 }
 
 /**
@@ -52,246 +224,161 @@ export function BundlePicker({
   showPrice = true,
   showInventory = true,
   locale = 'en-US',
+  showOptions = true,
+  optionDisplay,
+  swatchColors,
+  unstyled = false,
   className = '',
+  classNames = {},
 }: BundlePickerProps) {
-  // Calculate total selected
-  const totalSelected = useMemo(
-    () => selectedComponents.reduce((sum, s) => sum + s.quantity, 0),
-    [selectedComponents],
-  );
-
-  const minSelections = definition.minSelections ?? 0;
-  const maxSelections = definition.maxSelections ?? definition.components.length;
-
-  // Check if a component is selected
-  const isSelected = useCallback(
-    (component: BundleComponent, variantId: string): boolean => {
-      return selectedComponents.some(
-        (s) => s.productId === component.productId && s.variantId === variantId,
-      );
-    },
-    [selectedComponents],
-  );
-
-  // Get selected quantity for a component
-  const getSelectedQuantity = useCallback(
-    (component: BundleComponent, variantId: string): number => {
-      const selection = selectedComponents.find(
-        (s) => s.productId === component.productId && s.variantId === variantId,
-      );
-      return selection?.quantity ?? 0;
-    },
-    [selectedComponents],
-  );
-
-  // Handle selection toggle
-  const handleToggle = useCallback(
-    (component: BundleComponent, variantId: string) => {
-      const selected = isSelected(component, variantId);
-
-      if (selected) {
-        // Remove selection
-        const newSelections = selectedComponents.filter(
-          (s) => !(s.productId === component.productId && s.variantId === variantId),
-        );
-        onSelectionChange(newSelections);
-      } else {
-        // Add selection (if within max)
-        if (totalSelected >= maxSelections) return;
-
-        const newSelections = [
-          ...selectedComponents,
-          {
-            productId: component.productId,
-            variantId,
-            quantity: component.quantity,
-          },
-        ];
-        onSelectionChange(newSelections);
-      }
-    },
-    [
-      isSelected,
-      selectedComponents,
-      totalSelected,
-      maxSelections,
-      onSelectionChange,
-    ],
-  );
-
-  // Handle quantity change (for components with variable quantity)
-  const handleQuantityChange = useCallback(
-    (component: BundleComponent, variantId: string, newQuantity: number) => {
-      if (newQuantity <= 0) {
-        // Remove selection
-        const newSelections = selectedComponents.filter(
-          (s) => !(s.productId === component.productId && s.variantId === variantId),
-        );
-        onSelectionChange(newSelections);
-        return;
-      }
-
-      const existing = selectedComponents.find(
-        (s) => s.productId === component.productId && s.variantId === variantId,
-      );
-
-      if (existing) {
-        // Update quantity
-        const newSelections = selectedComponents.map((s) =>
-          s.productId === component.productId && s.variantId === variantId
-            ? { ...s, quantity: newQuantity }
-            : s,
-        );
-        onSelectionChange(newSelections);
-      } else {
-        // Add new selection
-        const newSelections = [
-          ...selectedComponents,
-          {
-            productId: component.productId,
-            variantId,
-            quantity: newQuantity,
-          },
-        ];
-        onSelectionChange(newSelections);
-      }
-    },
-    [selectedComponents, onSelectionChange],
-  );
+  const picker = useBundlePicker({ definition, selectedComponents, onSelectionChange, columns });
+  const { totalSelected, minSelections, selectionRange } = picker;
+  const theme = useBundleTheme();
+  const { format } = useBundleMessages();
 
   return (
-    <div className={`bundle-picker ${className}`}>
-      <div className="bundle-picker__header">
+    <div
+      className={joinClassNames('bundle-picker', className, classNames.root)}
+      style={getThemeStyle(theme)}
+    >
+      <div className={joinClassNames('bundle-picker__header', classNames.header)}>
         <span className="bundle-picker__count">
-          {totalSelected} of {minSelections === maxSelections ? minSelections : `${minSelections}-${maxSelections}`} selected
+          {format('picker.selectedCount', { count: totalSelected, range: selectionRange })}
         </span>
         {totalSelected < minSelections && (
           <span className="bundle-picker__required">
-            Select {minSelections - totalSelected} more
+            {format('picker.selectMore', { count: minSelections - totalSelected })}
           </span>
         )}
       </div>
 
+      <div className="bundle-picker__status" {...picker.getStatusProps()} style={VISUALLY_HIDDEN}>
+        {picker.announcement}
+      </div>
+
       <div
-        className="bundle-picker__grid"
+        className={joinClassNames('bundle-picker__grid', classNames.grid)}
+        {...picker.getGridProps()}
         style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}
       >
-        {definition.components.map((component) => {
-          // For simplicity, use the first variant (or default)
-          const variant =
-            component.variants.find((v) => v.id === component.defaultVariantId) ??
-            component.variants[0];
-
-          if (!variant) return null;
-
-          const selected = isSelected(component, variant.id);
-          const quantity = getSelectedQuantity(component, variant.id);
-          const isOutOfStock = !variant.availableForSale;
-          const isLowStock =
-            variant.quantityAvailable !== undefined && variant.quantityAvailable <= 5;
-
-          const canSelect = !isOutOfStock && (selected || totalSelected < maxSelections);
+        {picker.items.map((item) => {
+          const { component, variant, selected, quantity, isOutOfStock, isLowStock, image } = item;
+          const options = showOptions ? item.options : [];
 
           return (
-            <button
+            <div
               key={component.productId}
-              type="button"
-              onClick={() => handleToggle(component, variant.id)}
-              disabled={!canSelect}
-              aria-pressed={selected}
-              className={`bundle-picker__item ${selected ? 'bundle-picker__item--selected' : ''} ${isOutOfStock ? 'bundle-picker__item--unavailable' : ''}`}
-            >
-              {component.productImage && (
-                <img
-                  src={component.productImage.url}
-                  alt={component.productImage.altText ?? component.productTitle}
-                  className="bundle-picker__image"
-                />
+              className={joinClassNames(
+                'bundle-picker__item',
+                selected && 'bundle-picker__item--selected',
+                isOutOfStock && 'bundle-picker__item--unavailable',
+                classNames.card,
               )}
-
-              <div className="bundle-picker__content">
-                <h4 className="bundle-picker__title">{component.productTitle}</h4>
-
-                {variant.title !== 'Default Title' && (
-                  <p className="bundle-picker__variant">{variant.title}</p>
-                )}
-
-                {showPrice && (
-                  <p className="bundle-picker__price">
-                    {formatMoney(variant.price, locale)}
-                  </p>
+            >
+              <button {...picker.getToggleProps(item)} className="bundle-picker__toggle">
+                {image && (
+                  <img
+                    src={image.url}
+                    alt={image.altText ?? component.productTitle}
+                    className={joinClassNames('bundle-picker__image', classNames.image)}
+                  />
                 )}
 
-                {showInventory && isLowStock && !isOutOfStock && (
-                  <p className="bundle-picker__stock bundle-picker__stock--low">
-                    Only {variant.quantityAvailable} left
-                  </p>
-                )}
+                <span className="bundle-picker__content">
+                  <span className={joinClassNames('bundle-picker__title', classNames.title)}>
+                    {component.productTitle}
+                  </span>
+
+                  {variant.title !== 'Default Title' && (
+                    <span className="bundle-picker__variant">{variant.title}</span>
+                  )}
+
+                  {showPrice && (
+                    <span className={joinClassNames('bundle-picker__price', classNames.price)}>
+                      {formatMoney(variant.price, locale)}
+                    </span>
+                  )}
+
+                  {showInventory && isLowStock && !isOutOfStock && (
+                    <span
+                      className={joinClassNames(
+                        'bundle-picker__stock bundle-picker__stock--low',
+                        classNames.stock,
+                      )}
+                    >
+                      {format('picker.lowStock', { count: variant.quantityAvailable ?? 0 })}
+                    </span>
+                  )}
+
+                  {showInventory && isOutOfStock && (
+                    <span
+                      className={joinClassNames(
+                        'bundle-picker__stock bundle-picker__stock--out',
+                        classNames.stock,
+                      )}
+                    >
+                      {format('picker.outOfStock')}
+                    </span>
+                  )}
+                </span>
 
-                {showInventory && isOutOfStock && (
-                  <p className="bundle-picker__stock bundle-picker__stock--out">
-                    Out of stock
-                  </p>
+                {selected && (
+                  <span className="bundle-picker__check" aria-hidden="true">
+                    ✓
+                  </span>
                 )}
-              </div>
-
-              {selected && (
-                <span className="bundle-picker__check" aria-hidden="true">
-                  ✓
-                </span>
+              </button>
+
+              {options.length > 0 && (
+                <div className={joinClassNames('bundle-picker__options', classNames.options)}>
+                  {options.map((option) => (
+                    <VariantOptionSelector
+                      key={option.name}
+                      component={component}
+                      variant={variant}
+                      option={option}
+                      display={getOptionDisplay(option, optionDisplay)}
+                      swatchColors={swatchColors}
+                      onChange={(next) => picker.chooseVariant(item, next)}
+                    />
+                  ))}
+                </div>
               )}
 
               {component.allowQuantitySelection && selected && (
                 <div
-                  className="bundle-picker__quantity"
-                  onClick={(e) => e.stopPropagation()}
+                  className={joinClassNames('bundle-picker__quantity', classNames.stepper)}
+                  {...picker.getQuantityGroupProps(item)}
                 >
-                  <button
-                    type="button"
-                    onClick={() =>
-                      handleQuantityChange(component, variant.id, quantity - 1)
-                    }
-                    disabled={quantity <= (component.minQuantity ?? 1)}
-                    aria-label="Decrease quantity"
-                  >
-                    −
-                  </button>
-                  <span>{quantity}</span>
-                  <button
-                    type="button"
-                    onClick={() =>
-                      handleQuantityChange(component, variant.id, quantity + 1)
-                    }
-                    disabled={quantity >= (component.maxQuantity ?? 99)}
-                    aria-label="Increase quantity"
-                  >
-                    +
-                  </button>
+                  <button {...picker.getDecrementProps(item)}>−</button>
+                  <span {...picker.getQuantityProps(item)}>{quantity}</span>
+                  <button {...picker.getIncrementProps(item)}>+</button>
                 </div>
               )}
-            </button>
+            </div>
           );
         })}
       </div>
 
-      <style>{`
+      {!unstyled && (
+        <style>{`
         .bundle-picker__header {
           display: flex;
           justify-content: space-between;
           align-items: center;
           margin-bottom: 1rem;
           padding-bottom: 0.5rem;
-          border-bottom: 1px solid #e5e5e5;
+          border-bottom: 1px solid ${themeVar('colorBorder')};
         }
 
         .bundle-picker__count {
           font-weight: 600;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-picker__required {
           font-size: 0.875rem;
-          color: #dc2626;
+          color: ${themeVar('colorError')};
         }
 
         .bundle-picker__grid {
@@ -306,73 +393,96 @@ export function BundlePicker({
           align-items: center;
           padding: 1rem;
           text-align: center;
-          background: white;
-          border: 2px solid #e5e5e5;
-          border-radius: 0.5rem;
-          cursor: pointer;
+          background: ${themeVar('colorBackground')};
+          border: 2px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radius')};
           transition: border-color 0.15s ease, box-shadow 0.15s ease;
         }
 
-        .bundle-picker__item:hover:not(:disabled) {
-          border-color: #999;
+        .bundle-picker__item:hover:not(.bundle-picker__item--unavailable) {
+          border-color: ${themeVar('colorBorderHover')};
+        }
+
+        .bundle-picker__toggle {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          width: 100%;
+          padding: 0;
+          font: inherit;
+          color: inherit;
+          text-align: inherit;
+          background: none;
+          border: 0;
+          cursor: pointer;
         }
 
         .bundle-picker__item--selected {
-          border-color: #1a1a1a;
-          box-shadow: 0 0 0 1px #1a1a1a;
+          border-color: ${themeVar('colorPrimary')};
+          box-shadow: 0 0 0 1px ${themeVar('colorPrimary')};
         }
 
-        .bundle-picker__item--unavailable {
+        .bundle-picker__item--unavailable .bundle-picker__toggle {
           opacity: 0.5;
-          cursor: not-allowed;
         }
 
-        .bundle-picker__item:disabled {
+        .bundle-picker__toggle[aria-disabled='true'] {
           cursor: not-allowed;
         }
 
+        .bundle-picker__toggle:focus-visible {
+          outline: 2px solid ${themeVar('colorPrimary')};
+          outline-offset: 4px;
+          border-radius: ${themeVar('radiusSmall')};
+        }
+
         .bundle-picker__image {
           width: 100%;
           max-width: 120px;
           height: auto;
-          border-radius: 0.25rem;
+          border-radius: ${themeVar('radiusSmall')};
           margin-bottom: 0.75rem;
         }
 
         .bundle-picker__content {
+          display: block;
           flex: 1;
         }
 
         .bundle-picker__title {
+          display: block;
           margin: 0;
           font-size: 0.875rem;
           font-weight: 600;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-picker__variant {
+          display: block;
           margin: 0.25rem 0 0;
           font-size: 0.75rem;
-          color: #666;
+          color: ${themeVar('colorTextMuted')};
         }
 
         .bundle-picker__price {
+          display: block;
           margin: 0.5rem 0 0;
           font-weight: 600;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-picker__stock {
+          display: block;
           margin: 0.25rem 0 0;
           font-size: 0.75rem;
         }
 
         .bundle-picker__stock--low {
-          color: #d97706;
+          color: ${themeVar('colorWarning')};
         }
 
         .bundle-picker__stock--out {
-          color: #dc2626;
+          color: ${themeVar('colorError')};
         }
 
         .bundle-picker__check {
@@ -386,9 +496,80 @@ export function BundlePicker({
           justify-content: center;
           font-size: 0.875rem;
           font-weight: 600;
-          color: white;
-          background: #1a1a1a;
+          color: ${themeVar('colorPrimaryText')};
+          background: ${themeVar('colorPrimary')};
+          border-radius: 50%;
+        }
+
+        .bundle-picker__options {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          width: 100%;
+          margin-top: 0.75rem;
+        }
+
+        .bundle-picker__option {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          font-size: 0.75rem;
+        }
+
+        .bundle-picker__option-name {
+          color: ${themeVar('colorTextMuted')};
+        }
+
+        .bundle-picker__option-values {
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: center;
+          gap: 0.25rem;
+        }
+
+        .bundle-picker__option-value {
+          font: inherit;
+          cursor: pointer;
+        }
+
+        .bundle-picker__option-value--button {
+          min-width: 2rem;
+          padding: 0.25rem 0.5rem;
+          color: ${themeVar('colorText')};
+          background: ${themeVar('colorBackground')};
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radiusSmall')};
+        }
+
+        .bundle-picker__option-value--swatch {
+          width: 1.5rem;
+          height: 1.5rem;
+          padding: 0;
+          border: 1px solid ${themeVar('colorBorder')};
           border-radius: 50%;
+          box-shadow: inset 0 0 0 2px ${themeVar('colorBackground')};
+        }
+
+        .bundle-picker__option-value--selected {
+          border-color: ${themeVar('colorPrimary')};
+          box-shadow: 0 0 0 1px ${themeVar('colorPrimary')};
+        }
+
+        .bundle-picker__option-value--swatch.bundle-picker__option-value--selected {
+          box-shadow: inset 0 0 0 2px ${themeVar('colorBackground')}, 0 0 0 1px ${themeVar('colorPrimary')};
+        }
+
+        .bundle-picker__option-value--unavailable {
+          opacity: 0.4;
+          text-decoration: line-through;
+          cursor: not-allowed;
+        }
+
+        .bundle-picker__select {
+          padding: 0.25rem;
+          font: inherit;
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radiusSmall')};
         }
 
         .bundle-picker__quantity {
@@ -397,8 +578,8 @@ export function BundlePicker({
           gap: 0.5rem;
           margin-top: 0.75rem;
           padding: 0.25rem;
-          background: #f5f5f5;
-          border-radius: 0.25rem;
+          background: ${themeVar('colorSurface')};
+          border-radius: ${themeVar('radiusSmall')};
         }
 
         .bundle-picker__quantity button {
@@ -409,10 +590,10 @@ export function BundlePicker({
           justify-content: center;
           font-size: 1rem;
           font-weight: 600;
-          color: #1a1a1a;
-          background: white;
-          border: 1px solid #e5e5e5;
-          border-radius: 0.25rem;
+          color: ${themeVar('colorText')};
+          background: ${themeVar('colorBackground')};
+          border: 1px solid ${themeVar('colorBorder')};
+          border-radius: ${themeVar('radiusSmall')};
           cursor: pointer;
         }
 
@@ -421,6 +602,7 @@ export function BundlePicker({
           cursor: not-allowed;
         }
       `}</style>
+      )}
     </div>
   );
 }
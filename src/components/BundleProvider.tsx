@@ -8,12 +8,22 @@
 import { createContext, useContext, useMemo } from 'react';
 
 import type { ReactNode } from 'react';
-import type { BundleBridgeConfig } from '../types.js';
+import type { BundleAnalyticsAdapter, BundleBridgeConfig } from '../types.js';
 import { DEFAULT_ERROR_MESSAGES } from '../utils/constants.js';
 import { restoreCache } from '../utils/cache.js';
+import { getResultMessage, getUserMessage } from '../utils/errors.js';
+import {
+  formatMessage,
+  type BundleMessageFormatter,
+  type BundleMessages,
+} from '../utils/messages.js';
+import type { BundleTheme } from '../utils/theme.js';
 
 interface BundleContextValue {
   config: BundleBridgeConfig;
+  theme?: BundleTheme;
+  messages?: BundleMessages;
+  locale?: string;
 }
 
 const BundleContext = createContext<BundleContextValue | null>(null);
@@ -24,6 +34,31 @@ export interface BundleProviderProps {
    */
   config: BundleBridgeConfig;
 
+  /**
+   * Analytics adapters that receive every bundle event
+   * (added to `config.analyticsAdapters`). Keep the array stable, e.g. with useMemo.
+   */
+  analyticsAdapters?: BundleAnalyticsAdapter[];
+
+  /**
+   * Design token values for every bundle component inside the provider
+   * (set as `--bundle-*` custom properties on each component). Keep the
+   * object stable, e.g. with useMemo.
+   */
+  theme?: BundleTheme;
+
+  /**
+   * Translations of the component, validation and error messages (missing
+   * keys fall back to English). Keep the object stable, e.g. with useMemo.
+   */
+  messages?: BundleMessages;
+
+  /**
+   * Locale for plural rules and numbers in messages
+   * @default "en-US"
+   */
+  locale?: string;
+
   /**
    * Child components
    */
@@ -35,7 +70,11 @@ export interface BundleProviderProps {
  *
  * @example
  * ```tsx
- * import { BundleProvider } from '@tempered/hydrogen-bundles';
+ * import { BundleProvider, createGa4Adapter } from '@tempered/hydrogen-bundles';
+ *
+ * const analyticsAdapters = [createGa4Adapter()];
+ * const theme = { colorPrimary: '#4f46e5', radius: '1rem' };
+ * const messages = { 'addToCart.button': 'Ajouter le coffret au panier' };
  *
  * export default function App() {
  *   return (
@@ -45,7 +84,13 @@ export interface BundleProviderProps {
  *         apiKey: 'bb_live_xxx',
  *         storeDomain: 'my-store.myshopify.com',
  *         storefrontAccessToken: 'xxx',
+ *         // Add fixed bundles as their parent variant so Shopify applies the bundle price
+ *         addMode: 'native',
  *       }}
+ *       analyticsAdapters={analyticsAdapters}
+ *       theme={theme}
+ *       messages={messages}
+ *       locale="fr-FR"
  *     >
  *       <Outlet />
  *     </BundleProvider>
@@ -53,7 +98,14 @@ export interface BundleProviderProps {
  * }
  * ```
  */
-export function BundleProvider({ config, children }: BundleProviderProps) {
+export function BundleProvider({
+  config,
+  analyticsAdapters,
+  theme,
+  messages,
+  locale,
+  children,
+}: BundleProviderProps) {
   // Restore cache from localStorage on mount (client-side only)
   useMemo(() => {
     if (typeof window !== 'undefined') {
@@ -63,9 +115,17 @@ export function BundleProvider({ config, children }: BundleProviderProps) {
 
   const value = useMemo(
     () => ({
-      config,
+      config: analyticsAdapters
+        ? {
+            ...config,
+            analyticsAdapters: [...(config.analyticsAdapters ?? []), ...analyticsAdapters],
+          }
+        : config,
+      theme,
+      messages,
+      locale,
     }),
-    [config],
+    [config, analyticsAdapters, theme, messages, locale],
   );
 
   return (
@@ -87,4 +147,38 @@ export function useBundleConfig(): BundleBridgeConfig {
   return context.config;
 }
 
+/**
+ * Hook to access the BundleProvider theme (undefined outside a provider)
+ */
+export function useBundleTheme(): BundleTheme | undefined {
+  return useContext(BundleContext)?.theme;
+}
+
+/**
+ * Hook to format messages with the BundleProvider catalog (English outside a
+ * provider)
+ *
+ * @example
+ * ```tsx
+ * const { format } = useBundleMessages();
+ *
+ * <p>{format('picker.selectMore', { count: 2 })}</p>
+ * ```
+ */
+export function useBundleMessages(): BundleMessageFormatter {
+  const context = useContext(BundleContext);
+  const messages = context?.messages;
+  const locale = context?.locale;
+
+  return useMemo(() => {
+    const options = { messages, locale };
+    return {
+      messages,
+      format: (key, params) => formatMessage(key, params, options),
+      formatError: (error) => getUserMessage(error, options),
+      formatResultError: (result, fallbackKey) => getResultMessage(result, fallbackKey, options),
+    };
+  }, [messages, locale]);
+}
+
 export { BundleContext };
@@ -4,8 +4,16 @@
  * Displays bundle savings in a visually appealing way.
  */
 
-import type { Money } from '../types.js';
-import { formatMoney } from '../sdk/calculatePrice.js';
+import type { BundleNextTier, Money } from '../types.js';
+import { formatMoney, formatNextTier } from '../sdk/calculatePrice.js';
+import { isPositiveMoney } from '../utils/money.js';
+import { getThemeStyle, joinClassNames, themeVar } from '../utils/theme.js';
+import { useBundleMessages, useBundleTheme } from './BundleProvider.js';
+
+/**
+ * Elements of BundleSavings that take extra classes
+ */
+export type BundleSavingsSlot = 'root' | 'price' | 'badge' | 'nextTier';
 
 export interface BundleSavingsProps {
   /** Savings amount */
@@ -16,12 +24,18 @@ export interface BundleSavingsProps {
   originalPrice?: Money;
   /** Bundle price (optional, for comparison display) */
   bundlePrice?: Money;
+  /** Next tier to advertise, e.g. "Add 2 more to save 20%" (from useBundlePrice) */
+  nextTier?: BundleNextTier | null;
   /** Display variant */
   variant?: 'badge' | 'inline' | 'detailed';
   /** Locale for price formatting */
   locale?: string;
+  /** Leave out the built-in styles, keeping the class names (default: false) */
+  unstyled?: boolean;
   /** Additional CSS classes */
   className?: string;
+  /** Additional CSS classes per element, added to the `bundle-savings__*` classes */
+  classNames?: Partial<Record<BundleSavingsSlot, string>>;
 }
 
 /**
@@ -36,6 +50,13 @@ export interface BundleSavingsProps {
  *   bundlePrice={priceResult.bundlePrice}
  *   variant="detailed"
  * />
+ *
+ * // Tiered mix-and-match bundles
+ * <BundleSavings
+ *   savings={priceResult.savings}
+ *   savingsPercentage={priceResult.savingsPercentage}
+ *   nextTier={nextTier}
+ * />
  * ```
  */
 export function BundleSavings({
@@ -43,56 +64,128 @@ export function BundleSavings({
   savingsPercentage,
   originalPrice,
   bundlePrice,
+  nextTier,
   variant = 'badge',
   locale = 'en-US',
+  unstyled = false,
   className = '',
+  classNames = {},
 }: BundleSavingsProps) {
-  const hasSavings = parseFloat(savings.amount) > 0;
+  const hasSavings = isPositiveMoney(savings);
+  const themeStyle = getThemeStyle(useBundleTheme());
+  const { messages, format } = useBundleMessages();
 
-  if (!hasSavings) return null;
+  const nextTierHint = nextTier ? (
+    <span
+      className={joinClassNames('bundle-savings__next-tier', classNames.nextTier)}
+      style={themeStyle}
+    >
+      {formatNextTier(nextTier, savings.currencyCode, locale, messages)}
+      {!unstyled && (
+        <style>{`
+        .bundle-savings__next-tier {
+          display: block;
+          margin-top: 0.25rem;
+          font-size: 0.875rem;
+          color: ${themeVar('colorTextMuted')};
+        }
+      `}</style>
+      )}
+    </span>
+  ) : null;
+
+  if (!hasSavings) {
+    // Below the first tier there is nothing saved yet, only the next tier
+    return nextTierHint ? (
+      <span
+        className={joinClassNames(
+          'bundle-savings bundle-savings--next-tier',
+          className,
+          classNames.root,
+        )}
+      >
+        {nextTierHint}
+      </span>
+    ) : null;
+  }
 
   const formattedSavings = formatMoney(savings, locale);
   const formattedPercentage = `${Math.round(savingsPercentage)}%`;
 
   if (variant === 'badge') {
     return (
-      <span className={`bundle-savings bundle-savings--badge ${className}`}>
-        Save {formattedPercentage}
-        <style>{`
-          .bundle-savings--badge {
-            display: inline-block;
-            padding: 0.25rem 0.5rem;
-            font-size: 0.75rem;
-            font-weight: 600;
-            color: #059669;
-            background: #d1fae5;
-            border-radius: 9999px;
-          }
-        `}</style>
-      </span>
+      <>
+        <span
+          className={joinClassNames(
+            'bundle-savings bundle-savings--badge',
+            className,
+            classNames.root,
+            classNames.badge,
+          )}
+          style={themeStyle}
+        >
+          {format('savings.percentage', { percentage: formattedPercentage })}
+          {!unstyled && (
+            <style>{`
+            .bundle-savings--badge {
+              display: inline-block;
+              padding: 0.25rem 0.5rem;
+              font-size: 0.75rem;
+              font-weight: 600;
+              color: ${themeVar('colorSuccess')};
+              background: ${themeVar('colorSuccessBackground')};
+              border-radius: 9999px;
+            }
+          `}</style>
+          )}
+        </span>
+        {nextTierHint}
+      </>
     );
   }
 
   if (variant === 'inline') {
     return (
-      <span className={`bundle-savings bundle-savings--inline ${className}`}>
-        Save {formattedSavings} ({formattedPercentage})
-        <style>{`
-          .bundle-savings--inline {
-            font-size: 0.875rem;
-            font-weight: 500;
-            color: #059669;
-          }
-        `}</style>
-      </span>
+      <>
+        <span
+          className={joinClassNames(
+            'bundle-savings bundle-savings--inline',
+            className,
+            classNames.root,
+          )}
+          style={themeStyle}
+        >
+          {format('savings.amountAndPercentage', {
+            amount: formattedSavings,
+            percentage: formattedPercentage,
+          })}
+          {!unstyled && (
+            <style>{`
+            .bundle-savings--inline {
+              font-size: 0.875rem;
+              font-weight: 500;
+              color: ${themeVar('colorSuccess')};
+            }
+          `}</style>
+          )}
+        </span>
+        {nextTierHint}
+      </>
     );
   }
 
   // Detailed variant
   return (
-    <div className={`bundle-savings bundle-savings--detailed ${className}`}>
+    <div
+      className={joinClassNames(
+        'bundle-savings bundle-savings--detailed',
+        className,
+        classNames.root,
+      )}
+      style={themeStyle}
+    >
       {originalPrice && bundlePrice && (
-        <div className="bundle-savings__prices">
+        <div className={joinClassNames('bundle-savings__prices', classNames.price)}>
           <span className="bundle-savings__original">
             {formatMoney(originalPrice, locale)}
           </span>
@@ -101,12 +194,18 @@ export function BundleSavings({
           </span>
         </div>
       )}
-      <div className="bundle-savings__badge">
-        <span className="bundle-savings__amount">Save {formattedSavings}</span>
-        <span className="bundle-savings__percentage">({formattedPercentage} off)</span>
+      <div className={joinClassNames('bundle-savings__badge', classNames.badge)}>
+        <span className="bundle-savings__amount">
+          {format('savings.amount', { amount: formattedSavings })}
+        </span>
+        <span className="bundle-savings__percentage">
+          {format('savings.percentageOff', { percentage: formattedPercentage })}
+        </span>
       </div>
+      {nextTierHint}
 
-      <style>{`
+      {!unstyled && (
+        <style>{`
         .bundle-savings--detailed {
           display: flex;
           flex-direction: column;
@@ -121,14 +220,14 @@ export function BundleSavings({
 
         .bundle-savings__original {
           font-size: 0.875rem;
-          color: #999;
+          color: ${themeVar('colorTextMuted')};
           text-decoration: line-through;
         }
 
         .bundle-savings__bundle {
           font-size: 1.25rem;
           font-weight: 700;
-          color: #1a1a1a;
+          color: ${themeVar('colorText')};
         }
 
         .bundle-savings__badge {
@@ -136,20 +235,21 @@ export function BundleSavings({
           align-items: center;
           gap: 0.25rem;
           padding: 0.375rem 0.75rem;
-          background: #d1fae5;
-          border-radius: 0.375rem;
+          background: ${themeVar('colorSuccessBackground')};
+          border-radius: ${themeVar('radiusButton')};
         }
 
         .bundle-savings__amount {
           font-weight: 600;
-          color: #059669;
+          color: ${themeVar('colorSuccess')};
         }
 
         .bundle-savings__percentage {
           font-size: 0.875rem;
-          color: #059669;
+          color: ${themeVar('colorSuccess')};
         }
       `}</style>
+      )}
     </div>
   );
 }
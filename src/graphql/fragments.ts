@@ -2,6 +2,8 @@
  * GraphQL fragments for Shopify bundle operations
  */
 
+import { BUNDLE_METAFIELD_KEYS, COMPONENT_POOL_PAGE_SIZE } from '../utils/constants.js';
+
 /**
  * Money fragment
  */
@@ -127,6 +129,75 @@ export const BUNDLE_PRODUCT_FRAGMENT = /* GraphQL */ `
   }
 `;
 
+/**
+ * Mix-and-match eligible product fragment
+ * Uses VariantFragment and ImageFragment (included by BUNDLE_PRODUCT_FRAGMENT)
+ */
+export const ELIGIBLE_PRODUCT_FRAGMENT = /* GraphQL */ `
+  fragment EligibleProductFragment on Product {
+    id
+    title
+    handle
+    productType
+    tags
+    availableForSale
+    featuredImage {
+      ...ImageFragment
+    }
+    variants(first: ${COMPONENT_POOL_PAGE_SIZE.variants}) {
+      nodes {
+        ...VariantFragment
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Bundle metafields fragment, with the products that mix-and-match
+ * metafields reference
+ * Only `eligible_products` is a list reference, so its products are selected
+ * on their own rather than for every metafield.
+ * Requires a `$metafieldNamespace: String!` query variable and the fragments
+ * of BUNDLE_PRODUCT_FRAGMENT
+ */
+export const BUNDLE_METAFIELDS_FRAGMENT = /* GraphQL */ `
+  ${ELIGIBLE_PRODUCT_FRAGMENT}
+
+  fragment BundleMetafieldsFragment on Product {
+    bundleMetafields: metafields(
+      identifiers: [
+${Object.values(BUNDLE_METAFIELD_KEYS)
+  .filter((key) => key !== BUNDLE_METAFIELD_KEYS.eligibleProducts)
+  .map((key) => `        { namespace: $metafieldNamespace, key: "${key}" }`)
+  .join('\n')}
+      ]
+    ) {
+      key
+      value
+      type
+    }
+    eligibleProductsMetafield: metafield(
+      namespace: $metafieldNamespace
+      key: "${BUNDLE_METAFIELD_KEYS.eligibleProducts}"
+    ) {
+      key
+      value
+      type
+      references(first: 50) {
+        nodes {
+          ... on Product {
+            ...EligibleProductFragment
+          }
+        }
+      }
+    }
+  }
+`;
+
 /**
  * Cart line fragment
  */
@@ -173,12 +244,62 @@ export const CART_LINE_FRAGMENT = /* GraphQL */ `
   }
 `;
 
+/**
+ * Componentizable cart line fragment
+ * Shopify expands native bundles into a ComponentizableCartLine whose
+ * lineComponents hold the individual component lines.
+ */
+export const COMPONENTIZABLE_CART_LINE_FRAGMENT = /* GraphQL */ `
+  ${CART_LINE_FRAGMENT}
+
+  fragment ComponentizableCartLineFragment on ComponentizableCartLine {
+    id
+    quantity
+    merchandise {
+      ... on ProductVariant {
+        id
+        title
+        sku
+        image {
+          ...ImageFragment
+        }
+        price {
+          ...MoneyFragment
+        }
+        product {
+          id
+          title
+          handle
+        }
+      }
+    }
+    attributes {
+      key
+      value
+    }
+    cost {
+      amountPerQuantity {
+        ...MoneyFragment
+      }
+      subtotalAmount {
+        ...MoneyFragment
+      }
+      totalAmount {
+        ...MoneyFragment
+      }
+    }
+    lineComponents {
+      ...CartLineFragment
+    }
+  }
+`;
+
 /**
  * Cart fragment
+ * Money and image fragments are included through the cart line fragments.
  */
 export const CART_FRAGMENT = /* GraphQL */ `
-  ${MONEY_FRAGMENT}
-  ${CART_LINE_FRAGMENT}
+  ${COMPONENTIZABLE_CART_LINE_FRAGMENT}
 
   fragment CartFragment on Cart {
     id
@@ -187,6 +308,7 @@ export const CART_FRAGMENT = /* GraphQL */ `
     lines(first: 100) {
       nodes {
         ...CartLineFragment
+        ...ComponentizableCartLineFragment
       }
     }
     cost {
@@ -1,5 +1,8 @@
 /**
  * GraphQL mutations for Shopify cart operations with bundles
+ *
+ * Like the queries, each mutation accepts `$country` and `$language` for
+ * `@inContext`, so the returned cart is priced for the buyer's market.
  */
 
 import { CART_FRAGMENT } from './fragments.js';
@@ -10,7 +13,8 @@ import { CART_FRAGMENT } from './fragments.js';
 export const CART_CREATE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartCreate($input: CartInput!) {
+  mutation CartCreate($input: CartInput!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
     cartCreate(input: $input) {
       cart {
         ...CartFragment
@@ -31,7 +35,12 @@ export const CART_CREATE_MUTATION = /* GraphQL */ `
 export const CART_LINES_ADD_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartLinesAdd($cartId: ID!, $lines: [CartLineInput!]!) {
+  mutation CartLinesAdd(
+    $cartId: ID!
+    $lines: [CartLineInput!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartLinesAdd(cartId: $cartId, lines: $lines) {
       cart {
         ...CartFragment
@@ -51,7 +60,12 @@ export const CART_LINES_ADD_MUTATION = /* GraphQL */ `
 export const CART_LINES_UPDATE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartLinesUpdate($cartId: ID!, $lines: [CartLineUpdateInput!]!) {
+  mutation CartLinesUpdate(
+    $cartId: ID!
+    $lines: [CartLineUpdateInput!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartLinesUpdate(cartId: $cartId, lines: $lines) {
       cart {
         ...CartFragment
@@ -71,7 +85,12 @@ export const CART_LINES_UPDATE_MUTATION = /* GraphQL */ `
 export const CART_LINES_REMOVE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartLinesRemove($cartId: ID!, $lineIds: [ID!]!) {
+  mutation CartLinesRemove(
+    $cartId: ID!
+    $lineIds: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartLinesRemove(cartId: $cartId, lineIds: $lineIds) {
       cart {
         ...CartFragment
@@ -91,7 +110,12 @@ export const CART_LINES_REMOVE_MUTATION = /* GraphQL */ `
 export const CART_BUYER_IDENTITY_UPDATE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartBuyerIdentityUpdate($cartId: ID!, $buyerIdentity: CartBuyerIdentityInput!) {
+  mutation CartBuyerIdentityUpdate(
+    $cartId: ID!
+    $buyerIdentity: CartBuyerIdentityInput!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartBuyerIdentityUpdate(cartId: $cartId, buyerIdentity: $buyerIdentity) {
       cart {
         ...CartFragment
@@ -111,7 +135,12 @@ export const CART_BUYER_IDENTITY_UPDATE_MUTATION = /* GraphQL */ `
 export const CART_ATTRIBUTES_UPDATE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartAttributesUpdate($cartId: ID!, $attributes: [AttributeInput!]!) {
+  mutation CartAttributesUpdate(
+    $cartId: ID!
+    $attributes: [AttributeInput!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartAttributesUpdate(cartId: $cartId, attributes: $attributes) {
       cart {
         ...CartFragment
@@ -131,7 +160,12 @@ export const CART_ATTRIBUTES_UPDATE_MUTATION = /* GraphQL */ `
 export const CART_DISCOUNT_CODES_UPDATE_MUTATION = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  mutation CartDiscountCodesUpdate($cartId: ID!, $discountCodes: [String!]!) {
+  mutation CartDiscountCodesUpdate(
+    $cartId: ID!
+    $discountCodes: [String!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     cartDiscountCodesUpdate(cartId: $cartId, discountCodes: $discountCodes) {
       cart {
         ...CartFragment
@@ -1,12 +1,19 @@
 /**
  * GraphQL queries for Shopify bundle operations
+ *
+ * Every operation takes optional `$country` and `$language` variables for
+ * `@inContext`, so prices, titles and availability come back for the buyer's
+ * market. storefrontRequest fills them in from the configuration.
  */
 
 import {
+  BUNDLE_METAFIELDS_FRAGMENT,
   BUNDLE_PRODUCT_FRAGMENT,
   CART_FRAGMENT,
+  ELIGIBLE_PRODUCT_FRAGMENT,
   MONEY_FRAGMENT,
   IMAGE_FRAGMENT,
+  VARIANT_FRAGMENT,
 } from './fragments.js';
 
 /**
@@ -14,10 +21,17 @@ import {
  */
 export const BUNDLE_PRODUCT_QUERY = /* GraphQL */ `
   ${BUNDLE_PRODUCT_FRAGMENT}
+  ${BUNDLE_METAFIELDS_FRAGMENT}
 
-  query BundleProduct($id: ID!) {
+  query BundleProduct(
+    $id: ID!
+    $metafieldNamespace: String!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     product(id: $id) {
       ...BundleProductFragment
+      ...BundleMetafieldsFragment
     }
   }
 `;
@@ -27,10 +41,78 @@ export const BUNDLE_PRODUCT_QUERY = /* GraphQL */ `
  */
 export const BUNDLE_PRODUCT_BY_HANDLE_QUERY = /* GraphQL */ `
   ${BUNDLE_PRODUCT_FRAGMENT}
+  ${BUNDLE_METAFIELDS_FRAGMENT}
 
-  query BundleProductByHandle($handle: String!) {
+  query BundleProductByHandle(
+    $handle: String!
+    $metafieldNamespace: String!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     product(handle: $handle) {
       ...BundleProductFragment
+      ...BundleMetafieldsFragment
+    }
+  }
+`;
+
+/**
+ * Query one page of a collection's products (mix-and-match component pools)
+ */
+export const COLLECTION_PRODUCTS_QUERY = /* GraphQL */ `
+  ${MONEY_FRAGMENT}
+  ${IMAGE_FRAGMENT}
+  ${VARIANT_FRAGMENT}
+  ${ELIGIBLE_PRODUCT_FRAGMENT}
+
+  query CollectionProducts(
+    $id: ID
+    $handle: String
+    $first: Int!
+    $after: String
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    collection(id: $id, handle: $handle) {
+      id
+      products(first: $first, after: $after) {
+        nodes {
+          ...EligibleProductFragment
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Query one page of a product's variants
+ */
+export const PRODUCT_VARIANTS_QUERY = /* GraphQL */ `
+  ${MONEY_FRAGMENT}
+  ${IMAGE_FRAGMENT}
+  ${VARIANT_FRAGMENT}
+
+  query ProductVariants(
+    $id: ID!
+    $first: Int!
+    $after: String
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    product(id: $id) {
+      variants(first: $first, after: $after) {
+        nodes {
+          ...VariantFragment
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
     }
   }
 `;
@@ -39,7 +121,8 @@ export const BUNDLE_PRODUCT_BY_HANDLE_QUERY = /* GraphQL */ `
  * Query multiple products to check if they are bundles
  */
 export const PRODUCTS_BUNDLE_CHECK_QUERY = /* GraphQL */ `
-  query ProductsBundleCheck($ids: [ID!]!) {
+  query ProductsBundleCheck($ids: [ID!]!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
     nodes(ids: $ids) {
       ... on Product {
         id
@@ -64,7 +147,8 @@ export const PRODUCTS_BUNDLE_CHECK_QUERY = /* GraphQL */ `
  * Query inventory for multiple variants
  */
 export const VARIANTS_INVENTORY_QUERY = /* GraphQL */ `
-  query VariantsInventory($ids: [ID!]!) {
+  query VariantsInventory($ids: [ID!]!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
     nodes(ids: $ids) {
       ... on ProductVariant {
         id
@@ -85,7 +169,8 @@ export const VARIANTS_INVENTORY_QUERY = /* GraphQL */ `
 export const CART_QUERY = /* GraphQL */ `
   ${CART_FRAGMENT}
 
-  query Cart($id: ID!) {
+  query Cart($id: ID!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
     cart(id: $id) {
       ...CartFragment
     }
@@ -99,7 +184,8 @@ export const PRODUCT_RECOMMENDATIONS_QUERY = /* GraphQL */ `
   ${MONEY_FRAGMENT}
   ${IMAGE_FRAGMENT}
 
-  query ProductRecommendations($productId: ID!) {
+  query ProductRecommendations($productId: ID!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
     productRecommendations(productId: $productId) {
       id
       title
@@ -0,0 +1,193 @@
+/**
+ * useBundleAddToCartButton hook
+ *
+ * Headless state and prop getters for a bundle add-to-cart button.
+ * BundleAddToCart is built on it; use it directly to render the button with
+ * your own markup.
+ */
+
+import { useCallback, useId, useState } from 'react';
+import type {
+  ButtonHTMLAttributes,
+  FormEvent,
+  FormHTMLAttributes,
+  HTMLAttributes,
+  InputHTMLAttributes,
+} from 'react';
+
+import type { BundleAddMode, BundleDefinition, BundleSelection } from '../types.js';
+import { useBundleConfig } from '../components/BundleProvider.js';
+import { BUNDLE_FORM_FIELDS } from '../utils/constants.js';
+import { useBundleCart } from './useBundleCart.js';
+
+export interface UseBundleAddToCartButtonOptions {
+  /** Bundle definition */
+  definition: BundleDefinition;
+  /** Selected components for mix-and-match bundles */
+  selectedComponents?: BundleSelection[];
+  /** Quantity to add (default: 1) */
+  quantity?: number;
+  /** Current cart ID */
+  cartId?: string;
+  /** Whether the button is disabled */
+  disabled?: boolean;
+  /** Callback on successful add */
+  onSuccess?: () => void;
+  /** Callback on error */
+  onError?: (error: string) => void;
+  /** Custom attributes to add to cart lines */
+  customAttributes?: Record<string, string>;
+  /** Cart add mode (default: the provider config's `addMode`) */
+  addMode?: BundleAddMode;
+  /**
+   * Route action to post to (handled by handleBundleAddToCartAction). The
+   * button becomes a submit button for `getFormProps`, so the add works
+   * without JavaScript; with JavaScript it still runs client-side.
+   */
+  action?: string;
+  /** Path the action redirects to after a no-JavaScript add */
+  redirectTo?: string;
+}
+
+export interface UseBundleAddToCartButtonReturn {
+  /** Add the bundle to the cart */
+  addToCart: () => Promise<void>;
+  /** Whether the add is in progress */
+  isAdding: boolean;
+  /** Error message of the last add */
+  error: string | undefined;
+  /** Whether the button is disabled (by the option, an add in progress, availability or the selection) */
+  isDisabled: boolean;
+  /** Whether a mix-and-match selection is below the minimum */
+  isSelectionIncomplete: boolean;
+  /** Props for the form posting to `action` */
+  getFormProps: () => FormHTMLAttributes<HTMLFormElement>;
+  /** Hidden inputs for the form, one per field handleBundleAddToCartAction reads */
+  getHiddenInputs: () => Array<InputHTMLAttributes<HTMLInputElement> & { name: string }>;
+  /** Props for the button */
+  getButtonProps: () => ButtonHTMLAttributes<HTMLButtonElement>;
+  /** Props for the hint shown while the selection is incomplete */
+  getHintProps: () => HTMLAttributes<HTMLElement>;
+  /** Props for the error message */
+  getErrorProps: () => HTMLAttributes<HTMLElement>;
+}
+
+/**
+ * Headless add-to-cart button for bundles
+ *
+ * Must be used inside a BundleProvider.
+ *
+ * @example
+ * ```tsx
+ * const button = useBundleAddToCartButton({ definition, selectedComponents, cartId });
+ *
+ * <button {...button.getButtonProps()} className="btn btn-primary w-full">
+ *   {button.isAdding ? 'Adding...' : 'Add to cart'}
+ * </button>
+ * {button.isSelectionIncomplete && (
+ *   <p {...button.getHintProps()}>Pick {definition.minSelections} items</p>
+ * )}
+ * {button.error && <p {...button.getErrorProps()}>{button.error}</p>}
+ * ```
+ */
+export function useBundleAddToCartButton({
+  definition,
+  selectedComponents,
+  quantity = 1,
+  cartId,
+  disabled = false,
+  onSuccess,
+  onError,
+  customAttributes,
+  addMode,
+  action,
+  redirectTo,
+}: UseBundleAddToCartButtonOptions): UseBundleAddToCartButtonReturn {
+  const config = useBundleConfig();
+  const hintId = useId();
+  const [localError, setLocalError] = useState<string | undefined>();
+
+  const { addBundle, isAdding, error, clearError } = useBundleCart({
+    config,
+    cartId,
+    onSuccess: () => {
+      setLocalError(undefined);
+      onSuccess?.();
+    },
+    onError: (err) => {
+      setLocalError(err);
+      onError?.(err);
+    },
+  });
+
+  const addToCart = useCallback(async () => {
+    clearError();
+    setLocalError(undefined);
+
+    await addBundle(definition, {
+      selectedComponents,
+      quantity,
+      customAttributes,
+      addMode,
+    });
+  }, [addBundle, clearError, definition, selectedComponents, quantity, customAttributes, addMode]);
+
+  const handleSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      // JavaScript is available, so skip the full-page post
+      event.preventDefault();
+      void addToCart();
+    },
+    [addToCart],
+  );
+
+  const displayError = localError ?? error;
+
+  // Check if mix-and-match selection is complete
+  const isSelectionIncomplete =
+    definition.bundleType === 'mix_and_match' &&
+    !!definition.minSelections &&
+    (!selectedComponents ||
+      selectedComponents.reduce((sum, s) => sum + s.quantity, 0) < definition.minSelections);
+
+  const isDisabled =
+    disabled || isAdding || !definition.availableForSale || isSelectionIncomplete;
+  const showHint = isSelectionIncomplete && !displayError;
+
+  const getHiddenInputs = () => {
+    const fields: Array<[string, string | number | undefined]> = [
+      [BUNDLE_FORM_FIELDS.bundleId, definition.id],
+      [BUNDLE_FORM_FIELDS.quantity, quantity],
+      [
+        BUNDLE_FORM_FIELDS.selectedComponents,
+        selectedComponents && JSON.stringify(selectedComponents),
+      ],
+      [BUNDLE_FORM_FIELDS.customAttributes, customAttributes && JSON.stringify(customAttributes)],
+      [BUNDLE_FORM_FIELDS.addMode, addMode],
+      [BUNDLE_FORM_FIELDS.cartId, cartId],
+      [BUNDLE_FORM_FIELDS.redirectTo, redirectTo],
+    ];
+
+    return fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => ({ type: 'hidden', name, value }));
+  };
+
+  return {
+    addToCart,
+    isAdding,
+    error: displayError,
+    isDisabled,
+    isSelectionIncomplete,
+    getFormProps: () => ({ method: 'post', action, onSubmit: handleSubmit }),
+    getHiddenInputs,
+    getButtonProps: () => ({
+      ...(action ? { type: 'submit' } : { type: 'button', onClick: () => void addToCart() }),
+      disabled: isDisabled,
+      'aria-busy': isAdding,
+      'aria-describedby': showHint ? hintId : undefined,
+    }),
+    getHintProps: () => ({ id: hintId }),
+    getErrorProps: () => ({ role: 'alert' }),
+  };
+}
@@ -4,22 +4,64 @@
  * Wraps Hydrogen's cart operations with bundle-aware logic.
  */
 
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
 
 import type {
   BundleDefinition,
+  BundleAddMode,
+  BundleAnalyticsEvent,
   BundleBridgeConfig,
+  BundlePriceResult,
   BundleSelection,
+  BundleCartLine,
+  BundleLineGroup,
   AddBundleResult,
+  OptimisticCartLine,
 } from '../types.js';
-import { addBundleToCart, groupCartLinesByBundle } from '../sdk/buildCartMutation.js';
-import { getUserMessage } from '../utils/errors.js';
+import {
+  addBundleToCart,
+  buildBundleQuantityUpdates,
+  createBundleInstanceId,
+  editBundleInCart,
+  getBundleQuantity,
+  getBundleLineIds,
+  getBundleSelections,
+  groupCartLinesByBundle,
+  removeBundleFromCart,
+  resolveSelections,
+  updateBundleQuantityInCart,
+} from '../sdk/buildCartMutation.js';
+import {
+  addOptimisticOperation,
+  applyOptimisticOperations,
+  buildOptimisticBundleLines,
+  confirmOptimisticOperation,
+  getOptimisticOperations,
+  isOptimisticLineId,
+  pruneOptimisticOperations,
+  rollbackOptimisticOperation,
+  subscribeToOptimisticCart,
+  type OptimisticOperation,
+  type OptimisticOperationInput,
+} from '../sdk/optimisticCart.js';
+import { withMarket } from '../sdk/storefrontClient.js';
+import { trackBundleEvent } from '../sdk/trackEvent.js';
+import { getCachedPrice } from '../utils/cache.js';
+import { getErrorResult, getUserMessage } from '../utils/errors.js';
+import type { BundleMessageKey } from '../utils/messages.js';
+import { useBundleMessages } from '../components/BundleProvider.js';
 
 export interface UseBundleCartOptions {
   /** BundleBridge configuration */
   config: BundleBridgeConfig;
   /** Current cart ID (from Hydrogen's useCart) */
   cartId?: string;
+  /**
+   * Show adds, removals and quantity changes in useBundleLines before the
+   * cart mutation returns, rolling them back if it fails
+   * @default true
+   */
+  optimistic?: boolean;
   /** Callback when bundle is added successfully */
   onSuccess?: (result: AddBundleResult) => void;
   /** Callback when adding bundle fails */
@@ -34,16 +76,46 @@ export interface UseBundleCartReturn {
       selectedComponents?: BundleSelection[];
       quantity?: number;
       customAttributes?: Record<string, string>;
+      /** Overrides `config.addMode` for this call */
+      addMode?: BundleAddMode;
+      /** Price for analytics events and optimistic lines (default: the cached useBundlePrice result) */
+      priceResult?: BundlePriceResult;
     },
   ) => Promise<AddBundleResult>;
+  /** Remove every line of a bundle from the cart */
+  removeBundle: (group: BundleLineGroup) => Promise<AddBundleResult>;
+  /** Change how many of a bundle are in the cart (0 removes it) */
+  updateBundleQuantity: (group: BundleLineGroup, quantity: number) => Promise<AddBundleResult>;
+  /** Replace the selections of a bundle already in the cart */
+  editBundle: (
+    definition: BundleDefinition,
+    group: BundleLineGroup,
+    selectedComponents: BundleSelection[],
+  ) => Promise<AddBundleResult>;
   /** Whether an add operation is in progress */
   isAdding: boolean;
+  /** Whether a remove or quantity update is in progress */
+  isUpdating: boolean;
   /** Last error message */
   error: string | undefined;
   /** Clear the error */
   clearError: () => void;
 }
 
+/**
+ * Analytics fields for a bundle's selections and price
+ */
+function getEventDetails(
+  selections: BundleSelection[],
+  priceResult: BundlePriceResult | null | undefined,
+): Pick<BundleAnalyticsEvent, 'selectedComponents' | 'price' | 'componentPrices'> {
+  return {
+    selectedComponents: selections,
+    price: priceResult?.bundlePrice,
+    componentPrices: priceResult?.componentPrices,
+  };
+}
+
 /**
  * Hook for bundle cart operations
  *
@@ -64,16 +136,71 @@ export interface UseBundleCartReturn {
  *     quantity: 1,
  *   });
  * };
+ *
+ * // In the cart, with a group from useBundleLines
+ * await updateBundleQuantity(group, 2);
+ * await removeBundle(group);
  * ```
  */
 export function useBundleCart({
   config,
   cartId,
+  optimistic = true,
   onSuccess,
   onError,
 }: UseBundleCartOptions): UseBundleCartReturn {
   const [isAdding, setIsAdding] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | undefined>();
+  const { format, formatError, formatResultError } = useBundleMessages();
+
+  const runCartUpdate = useCallback(
+    async (
+      group: BundleLineGroup,
+      mutate: (cartId: string) => Promise<AddBundleResult>,
+      fallbackKey: BundleMessageKey,
+      operation?: OptimisticOperationInput,
+    ): Promise<AddBundleResult> => {
+      const fail = (errorMsg: string, errorKey?: BundleMessageKey): AddBundleResult => {
+        setError(errorMsg);
+        onError?.(errorMsg);
+        return { success: false, error: errorMsg, errorKey };
+      };
+
+      if (!cartId) {
+        return fail(format('cart.cartIdRequired'), 'cart.cartIdRequired');
+      }
+
+      if (getBundleLineIds(group).some(isOptimisticLineId)) {
+        return fail(format('cart.bundlePending'), 'cart.bundlePending');
+      }
+
+      setIsUpdating(true);
+      setError(undefined);
+
+      const operationId = optimistic && operation ? addOptimisticOperation(operation) : undefined;
+
+      try {
+        const result = await mutate(cartId);
+
+        if (result.success) {
+          if (operationId) confirmOptimisticOperation(operationId, result.cart?.lines);
+          onSuccess?.(result);
+        } else {
+          if (operationId) rollbackOptimisticOperation(operationId);
+          fail(formatResultError(result, fallbackKey));
+        }
+
+        return result;
+      } catch (err) {
+        if (operationId) rollbackOptimisticOperation(operationId);
+        return fail(formatError(err));
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [cartId, optimistic, onSuccess, onError, format, formatError, formatResultError],
+  );
 
   const addBundle = useCallback(
     async (
@@ -82,42 +209,157 @@ export function useBundleCart({
         selectedComponents?: BundleSelection[];
         quantity?: number;
         customAttributes?: Record<string, string>;
+        addMode?: BundleAddMode;
+        priceResult?: BundlePriceResult;
       },
     ): Promise<AddBundleResult> => {
       setIsAdding(true);
       setError(undefined);
 
+      // useBundlePrice caches its result under the same selections
+      const priceResult =
+        options?.priceResult ??
+        getCachedPrice(definition.id, options?.selectedComponents, withMarket(config));
+      const event = {
+        bundleId: definition.id,
+        bundleTitle: definition.title,
+        quantity: options?.quantity ?? 1,
+        ...getEventDetails(
+          resolveSelections(definition, options?.selectedComponents),
+          priceResult,
+        ),
+      };
+
+      const input = {
+        bundleId: definition.id,
+        cartId,
+        selectedComponents: options?.selectedComponents,
+        quantity: options?.quantity,
+        customAttributes: options?.customAttributes,
+        addMode: options?.addMode,
+        // Shared by the optimistic lines and the real ones, to reconcile them
+        instanceId: createBundleInstanceId(),
+      };
+
+      const operationId = optimistic
+        ? addOptimisticOperation({
+            type: 'add',
+            lines: buildOptimisticBundleLines(
+              definition,
+              { ...input, addMode: input.addMode ?? config.addMode },
+              priceResult ?? undefined,
+            ),
+          })
+        : undefined;
+
       try {
-        const result = await addBundleToCart(definition, config, {
-          bundleId: definition.id,
-          cartId,
-          selectedComponents: options?.selectedComponents,
-          quantity: options?.quantity,
-          customAttributes: options?.customAttributes,
-        });
+        const result = await addBundleToCart(definition, config, input);
 
         if (result.success) {
+          if (operationId) confirmOptimisticOperation(operationId, result.cart?.lines);
+          trackBundleEvent({ ...event, eventType: 'add_to_cart' }, config);
           onSuccess?.(result);
         } else {
-          const errorMsg = result.error ?? 'Failed to add bundle to cart';
+          const errorMsg = formatResultError(result, 'cart.addFailed');
+          if (operationId) rollbackOptimisticOperation(operationId);
+          // Analytics get the untranslated message
+          trackBundleEvent(
+            { ...event, eventType: 'add_to_cart_failure', error: result.error ?? errorMsg },
+            config,
+          );
           setError(errorMsg);
           onError?.(errorMsg);
         }
 
         return result;
       } catch (err) {
-        const errorMsg = getUserMessage(err);
+        const errorMsg = formatError(err);
+        if (operationId) rollbackOptimisticOperation(operationId);
+        trackBundleEvent(
+          { ...event, eventType: 'add_to_cart_failure', error: getUserMessage(err) },
+          config,
+        );
         setError(errorMsg);
         onError?.(errorMsg);
         return {
           success: false,
+          ...getErrorResult(err),
           error: errorMsg,
         };
       } finally {
         setIsAdding(false);
       }
     },
-    [config, cartId, onSuccess, onError],
+    [config, cartId, optimistic, onSuccess, onError, formatError, formatResultError],
+  );
+
+  const trackRemoval = useCallback(
+    (group: BundleLineGroup) => {
+      const selections = getBundleSelections(group);
+      trackBundleEvent(
+        {
+          eventType: 'remove_from_cart',
+          bundleId: group.bundleProductId,
+          quantity: getBundleQuantity(group),
+          ...getEventDetails(
+            selections,
+            getCachedPrice(group.bundleProductId, selections, withMarket(config)),
+          ),
+        },
+        config,
+      );
+    },
+    [config],
+  );
+
+  const removeBundle = useCallback(
+    (group: BundleLineGroup): Promise<AddBundleResult> =>
+      runCartUpdate(
+        group,
+        async (id) => {
+          const result = await removeBundleFromCart(group, config, { cartId: id });
+          if (result.success) trackRemoval(group);
+          return result;
+        },
+        'cart.removeFailed',
+        { type: 'remove', lineIds: getBundleLineIds(group) },
+      ),
+    [config, runCartUpdate, trackRemoval],
+  );
+
+  const updateBundleQuantity = useCallback(
+    (group: BundleLineGroup, quantity: number): Promise<AddBundleResult> =>
+      runCartUpdate(
+        group,
+        async (id) => {
+          const result = await updateBundleQuantityInCart(group, config, {
+            cartId: id,
+            quantity,
+          });
+          // A quantity of 0 removes the bundle, as removeBundle does
+          if (result.success && quantity <= 0) trackRemoval(group);
+          return result;
+        },
+        'cart.updateFailed',
+        quantity > 0
+          ? { type: 'update', lines: buildBundleQuantityUpdates(group, quantity) }
+          : { type: 'remove', lineIds: getBundleLineIds(group) },
+      ),
+    [config, runCartUpdate, trackRemoval],
+  );
+
+  const editBundle = useCallback(
+    (
+      definition: BundleDefinition,
+      group: BundleLineGroup,
+      selectedComponents: BundleSelection[],
+    ): Promise<AddBundleResult> =>
+      runCartUpdate(
+        group,
+        (id) => editBundleInCart(definition, config, { cartId: id, group, selectedComponents }),
+        'cart.editFailed',
+      ),
+    [config, runCartUpdate],
   );
 
   const clearError = useCallback(() => {
@@ -126,19 +368,34 @@ export function useBundleCart({
 
   return {
     addBundle,
+    removeBundle,
+    updateBundleQuantity,
+    editBundle,
     isAdding,
+    isUpdating,
     error,
     clearError,
   };
 }
 
+/** Server snapshot: nothing is pending during server rendering */
+const NO_OPERATIONS: OptimisticOperation[] = [];
+
 /**
  * Utility hook to identify bundle lines in a cart
  *
+ * Handles both exploded bundles (linked by `_bundle_*` attributes) and native
+ * bundles that Shopify returns as a ComponentizableCartLine.
+ *
+ * Changes made through useBundleCart show up right away: added bundles as
+ * optimistic lines (`isOptimistic: true`), then as the lines from the
+ * mutation response until `lines` includes them; removals and quantity
+ * changes are applied to `lines`. Failed changes disappear again.
+ *
  * @example
  * ```tsx
  * const cart = useCart();
- * const bundleGroups = useBundleLines(cart.lines);
+ * const { bundleGroups, hasPendingChanges } = useBundleLines(cart.lines);
  *
  * // Render bundle groups differently than regular lines
  * bundleGroups.forEach((group) => {
@@ -146,39 +403,46 @@ export function useBundleCart({
  * });
  * ```
  */
-export function useBundleLines(
-  lines: Array<{
-    id: string;
-    quantity: number;
-    attributes: Array<{ key: string; value: string }>;
-    merchandise: {
-      id: string;
-      title: string;
-      product: { title: string };
-    };
-  }>,
+export function useBundleLines<TLine extends BundleCartLine>(
+  lines: TLine[],
+  options?: {
+    /** Apply pending useBundleCart changes (default: true) */
+    optimistic?: boolean;
+  },
 ): {
-  bundleGroups: Map<
-    string,
-    {
-      bundleProductId: string;
-      lines: typeof lines;
-    }
-  >;
-  nonBundleLines: typeof lines;
+  bundleGroups: Map<string, BundleLineGroup<TLine | OptimisticCartLine>>;
+  nonBundleLines: TLine[];
+  /** Whether a cart change is waiting for its mutation */
+  hasPendingChanges: boolean;
 } {
-  const bundleGroups = groupCartLinesByBundle(lines);
+  const optimistic = options?.optimistic ?? true;
+  const operations = useSyncExternalStore(
+    subscribeToOptimisticCart,
+    getOptimisticOperations,
+    () => NO_OPERATIONS,
+  );
+
+  // Once the app's cart reflects a confirmed change, stop applying it
+  useEffect(() => {
+    if (optimistic) pruneOptimisticOperations(lines);
+  }, [lines, operations, optimistic]);
+
+  const visibleLines = optimistic ? applyOptimisticOperations(lines, operations) : lines;
+  const bundleGroups = groupCartLinesByBundle(visibleLines);
 
   // Get lines that are not part of any bundle
   const bundleLineIds = new Set<string>();
   bundleGroups.forEach((group) => {
+    if (group.parentLine) bundleLineIds.add(group.parentLine.id);
     group.lines.forEach((line) => bundleLineIds.add(line.id));
   });
 
-  const nonBundleLines = lines.filter((line) => !bundleLineIds.has(line.id));
+  // Optimistic lines always belong to a bundle, so the rest are the app's lines
+  const nonBundleLines = visibleLines.filter((line) => !bundleLineIds.has(line.id)) as TLine[];
 
   return {
     bundleGroups,
     nonBundleLines,
+    hasPendingChanges: optimistic && operations.some((operation) => !operation.confirmed),
   };
 }
@@ -4,11 +4,13 @@
  * Fetches and caches bundle definitions for use in components.
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 import type { BundleDefinition, BundleBridgeConfig } from '../types.js';
 import { resolveBundle } from '../sdk/resolveBundle.js';
-import { getUserMessage } from '../utils/errors.js';
+import { trackBundleEvent } from '../sdk/trackEvent.js';
+import { ERROR_CODES, isErrorCode } from '../utils/errors.js';
+import { useBundleMessages } from '../components/BundleProvider.js';
 
 export interface UseBundleDefinitionOptions {
   /** Bundle product ID or handle */
@@ -17,7 +19,10 @@ export interface UseBundleDefinitionOptions {
   config: BundleBridgeConfig;
   /** Skip initial fetch (for SSR with pre-loaded data) */
   skip?: boolean;
-  /** Pre-loaded definition (from SSR) */
+  /**
+   * Pre-loaded definition (from SSR). Used instead of a fetch while it is for
+   * `bundleId` (by ID or handle), and replaces the state when it changes.
+   */
   initialData?: BundleDefinition;
 }
 
@@ -55,44 +60,74 @@ export function useBundleDefinition({
   skip = false,
   initialData,
 }: UseBundleDefinitionOptions): UseBundleDefinitionReturn {
+  const hydrating =
+    !!initialData && (initialData.id === bundleId || initialData.handle === bundleId);
   const [definition, setDefinition] = useState<BundleDefinition | null>(
-    initialData ?? null,
+    hydrating ? initialData! : null,
   );
-  const [isLoading, setIsLoading] = useState(!initialData && !skip);
-  const [error, setError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(!hydrating && !skip);
+  // Formatted on render, so the message follows the BundleProvider catalog
+  const [failure, setFailure] = useState<unknown>();
+  const { formatError } = useBundleMessages();
 
-  const fetchDefinition = useCallback(async () => {
+  // A client-side navigation reuses the component with the next page's data
+  const [hydratedFor, setHydratedFor] = useState({ bundleId, initialData });
+  if (hydratedFor.bundleId !== bundleId || hydratedFor.initialData !== initialData) {
+    setHydratedFor({ bundleId, initialData });
+    if (hydrating) {
+      setDefinition(initialData!);
+      setIsLoading(false);
+      setFailure(undefined);
+    }
+  }
+
+  const fetchDefinition = useCallback(async (signal?: AbortSignal) => {
     if (!bundleId) return;
 
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
-      const result = await resolveBundle(bundleId, config);
+      const result = await resolveBundle(bundleId, config, { signal });
       setDefinition(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      // A newer request or unmount cancelled this one
+      if (isErrorCode(err, ERROR_CODES.ABORTED)) return;
+      setFailure(err);
       setDefinition(null);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   }, [bundleId, config]);
 
   useEffect(() => {
-    if (skip || initialData) return;
-    fetchDefinition();
-  }, [skip, initialData, fetchDefinition]);
+    if (skip || hydrating) return;
+    const controller = new AbortController();
+    fetchDefinition(controller.signal);
+    return () => controller.abort();
+  }, [skip, hydrating, fetchDefinition]);
+
+  // Track a view once per loaded bundle
+  const trackedViewRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!definition || trackedViewRef.current === definition.id) return;
+    trackedViewRef.current = definition.id;
+    trackBundleEvent(
+      { eventType: 'view', bundleId: definition.id, bundleTitle: definition.title },
+      config,
+    );
+  }, [definition, config]);
 
   const refetch = useCallback(async () => {
     // Force refetch by skipping cache
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
       const result = await resolveBundle(bundleId, config, { skipCache: true });
       setDefinition(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      setFailure(err);
     } finally {
       setIsLoading(false);
     }
@@ -101,7 +136,7 @@ export function useBundleDefinition({
   return {
     definition,
     isLoading,
-    error,
+    error: failure === undefined ? undefined : formatError(failure),
     refetch,
   };
 }
@@ -4,7 +4,7 @@
  * Checks inventory for all bundle components and returns aggregate availability.
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 import type {
   BundleDefinition,
@@ -13,7 +13,8 @@ import type {
   BundleSelection,
 } from '../types.js';
 import { checkBundleInventory } from '../sdk/checkInventory.js';
-import { getUserMessage } from '../utils/errors.js';
+import { ERROR_CODES, isErrorCode } from '../utils/errors.js';
+import { useBundleMessages } from '../components/BundleProvider.js';
 
 export interface UseBundleInventoryOptions {
   /** Bundle definition (from useBundleDefinition) */
@@ -24,6 +25,12 @@ export interface UseBundleInventoryOptions {
   selectedComponents?: BundleSelection[];
   /** Skip initial fetch */
   skip?: boolean;
+  /**
+   * Pre-loaded inventory (from loadBundlePageData). Skips the fetch for the
+   * definition and selections it first renders with, and replaces the state
+   * when it changes.
+   */
+  initialData?: BundleInventory;
 }
 
 export interface UseBundleInventoryReturn {
@@ -63,41 +70,83 @@ export function useBundleInventory({
   config,
   selectedComponents,
   skip = false,
+  initialData,
 }: UseBundleInventoryOptions): UseBundleInventoryReturn {
-  const [inventory, setInventory] = useState<BundleInventory | null>(null);
+  const [inventory, setInventory] = useState<BundleInventory | null>(initialData ?? null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | undefined>();
+  const [failure, setFailure] = useState<unknown>();
+  const { formatError } = useBundleMessages();
 
-  const fetchInventory = useCallback(async () => {
+  // A client-side navigation reuses the component with the next page's data
+  const [hydratedData, setHydratedData] = useState(initialData);
+  if (hydratedData !== initialData) {
+    setHydratedData(initialData);
+    if (initialData) {
+      setInventory(initialData);
+      setIsLoading(false);
+      setFailure(undefined);
+    }
+  }
+
+  // The definition and selections the server data first rendered with, until
+  // a fetch replaces it
+  const hydratedForRef = useRef<{
+    data: BundleInventory;
+    definition?: BundleDefinition;
+    selectedComponents?: BundleSelection[];
+  }>(undefined);
+
+  const fetchInventory = useCallback(async (signal?: AbortSignal) => {
     if (!definition) return;
 
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
       const result = await checkBundleInventory(definition, config, {
         selectedComponents,
+        signal,
       });
       setInventory(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      // A newer request or unmount cancelled this one
+      if (isErrorCode(err, ERROR_CODES.ABORTED)) return;
+      setFailure(err);
       setInventory(null);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   }, [definition, config, selectedComponents]);
 
   // Refetch when definition or selections change
   useEffect(() => {
     if (skip || !definition) return;
-    fetchInventory();
-  }, [skip, definition, fetchInventory]);
+    if (initialData) {
+      const hydrated = hydratedForRef.current;
+      // Server data covers the first render
+      if (hydrated?.data !== initialData) {
+        hydratedForRef.current = { data: initialData, definition, selectedComponents };
+        return;
+      }
+      // Same inputs, e.g. StrictMode re-running the effect
+      if (
+        hydrated.definition === definition &&
+        hydrated.selectedComponents === selectedComponents
+      ) {
+        return;
+      }
+      hydratedForRef.current = { data: initialData };
+    }
+    const controller = new AbortController();
+    fetchInventory(controller.signal);
+    return () => controller.abort();
+  }, [skip, definition, selectedComponents, initialData, fetchInventory]);
 
   const refetch = useCallback(async () => {
     if (!definition) return;
 
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
       const result = await checkBundleInventory(definition, config, {
@@ -106,7 +155,7 @@ export function useBundleInventory({
       });
       setInventory(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      setFailure(err);
     } finally {
       setIsLoading(false);
     }
@@ -115,7 +164,7 @@ export function useBundleInventory({
   return {
     inventory,
     isLoading,
-    error,
+    error: failure === undefined ? undefined : formatError(failure),
     isAvailable: inventory?.available ?? false,
     maxQuantity: inventory?.maxQuantity ?? 0,
     refetch,
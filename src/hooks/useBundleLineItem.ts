@@ -0,0 +1,247 @@
+/**
+ * useBundleLineItem hook
+ *
+ * Headless state and prop getters for a bundle in the cart. BundleLineItem is
+ * built on it; use it directly to render cart lines with your own markup.
+ */
+
+import { useCallback, useId, useMemo, useState } from 'react';
+import type { ButtonHTMLAttributes, HTMLAttributes } from 'react';
+
+import type { BundleDefinition, BundleSelection, Money, ProductImage } from '../types.js';
+import {
+  getBundleInfoFromLine,
+  getBundleQuantity,
+  getBundleSelections,
+} from '../sdk/buildCartMutation.js';
+import { sumMoney } from '../utils/money.js';
+import { useBundleMessages } from '../components/BundleProvider.js';
+
+/**
+ * A cart line as returned by Hydrogen's cart
+ */
+export interface CartLineData {
+  id: string;
+  quantity: number;
+  merchandise: {
+    id: string;
+    title: string;
+    image?: {
+      url: string;
+      altText?: string;
+    };
+    price: Money;
+    product: {
+      id: string;
+      title: string;
+      handle: string;
+    };
+  };
+  attributes: Array<{ key: string; value: string }>;
+  cost: {
+    totalAmount: Money;
+  };
+}
+
+export interface UseBundleLineItemOptions {
+  /** All lines that belong to this bundle (grouped) */
+  lines: CartLineData[];
+  /** Parent line of a bundle expanded natively by Shopify (`group.parentLine`) */
+  parentLine?: CartLineData;
+  /** Bundle title (default: derived from the lines) */
+  bundleTitle?: string;
+  /** Callback with the new bundle quantity (pass to `updateBundleQuantity`, which scales every component line) */
+  onQuantityChange?: (newQuantity: number) => void;
+  /** Callback when bundle is removed */
+  onRemove?: () => void;
+  /** Bundle definition, required to edit the bundle's selections */
+  definition?: BundleDefinition;
+  /**
+   * Callback with the new selections when the bundle is edited. The editor
+   * stays open when it rejects or resolves to `{ success: false }` (as
+   * `editBundle` does on failure).
+   */
+  onEdit?: (selections: BundleSelection[]) => void | Promise<unknown>;
+}
+
+type ButtonProps = ButtonHTMLAttributes<HTMLButtonElement>;
+
+export interface UseBundleLineItemReturn {
+  /** Bundle title, from the option, the parent line or the lines */
+  bundleTitle: string;
+  /** How many of the bundle are in the cart */
+  bundleQuantity: number;
+  /** Total price of the bundle's lines */
+  totalPrice: Money;
+  /** The parent or first line's image */
+  bundleImage?: ProductImage;
+  /** Whether the selections can be edited (needs `definition` and `onEdit`, not native bundles) */
+  canEdit: boolean;
+  /** Whether the selections are being edited */
+  isEditing: boolean;
+  /** Selections while editing, for a BundlePicker */
+  draftSelections: BundleSelection[];
+  setDraftSelections: (selections: BundleSelection[]) => void;
+  /** Start editing from the current selections */
+  startEdit: () => void;
+  /** Stop editing without saving */
+  cancelEdit: () => void;
+  /** Save the draft selections through `onEdit`; resolves to whether the edit succeeded */
+  saveEdit: () => Promise<boolean>;
+  /** Props for the element around the quantity stepper */
+  getQuantityGroupProps: () => HTMLAttributes<HTMLElement>;
+  /** Props for the element showing the quantity */
+  getQuantityProps: () => HTMLAttributes<HTMLElement>;
+  /** Props for the decrease quantity button */
+  getDecrementProps: () => ButtonProps;
+  /** Props for the increase quantity button */
+  getIncrementProps: () => ButtonProps;
+  /** Props for the remove button */
+  getRemoveProps: () => ButtonProps;
+  /** Props for the button that starts editing */
+  getEditProps: () => ButtonProps;
+}
+
+/**
+ * Headless bundle cart line
+ *
+ * @example
+ * ```tsx
+ * const item = useBundleLineItem({
+ *   lines: group.lines,
+ *   parentLine: group.parentLine,
+ *   onQuantityChange: (quantity) => updateBundleQuantity(group, quantity),
+ *   onRemove: () => removeBundle(group),
+ * });
+ *
+ * <li className="flex gap-4">
+ *   <span>{item.bundleTitle}</span>
+ *   <div {...item.getQuantityGroupProps()}>
+ *     <button {...item.getDecrementProps()}>−</button>
+ *     <span {...item.getQuantityProps()}>{item.bundleQuantity}</span>
+ *     <button {...item.getIncrementProps()}>+</button>
+ *   </div>
+ *   <button {...item.getRemoveProps()}>Remove</button>
+ * </li>
+ * ```
+ */
+export function useBundleLineItem({
+  lines,
+  parentLine,
+  bundleTitle,
+  onQuantityChange,
+  onRemove,
+  definition,
+  onEdit,
+}: UseBundleLineItemOptions): UseBundleLineItemReturn {
+  const { format } = useBundleMessages();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftSelections, setDraftSelections] = useState<BundleSelection[]>([]);
+
+  // Calculate total price
+  const totalPrice = useMemo(() => {
+    // Shopify prices natively expanded bundles on the parent line
+    if (parentLine) return parentLine.cost.totalAmount;
+
+    const currencyCode = lines[0]?.cost.totalAmount.currencyCode ?? 'USD';
+    return sumMoney(
+      lines.map((line) => line.cost.totalAmount),
+      currencyCode,
+    );
+  }, [lines, parentLine]);
+
+  // Get bundle quantity from the per-bundle component quantities on the lines
+  const bundleQuantity = useMemo(
+    () => getBundleQuantity({ bundleProductId: '', lines, parentLine }),
+    [lines, parentLine],
+  );
+
+  // Derive bundle title from product titles if not provided
+  const derivedBundleTitle = useMemo(() => {
+    if (bundleTitle) return bundleTitle;
+    if (parentLine) return parentLine.merchandise.product.title;
+
+    // Try to get bundle product ID from attributes
+    const firstLine = lines[0];
+    if (!firstLine) return format('lineItem.defaultTitle');
+
+    const bundleInfo = getBundleInfoFromLine(firstLine);
+    if (bundleInfo._bundleProductId) {
+      // Could fetch bundle title here, for now use first product
+      return format('lineItem.productTitle', { title: firstLine.merchandise.product.title });
+    }
+
+    return format('lineItem.defaultTitle');
+  }, [format, bundleTitle, lines, parentLine]);
+
+  const canEdit = !!definition && !!onEdit && !parentLine;
+  const quantityId = useId();
+
+  const startEdit = useCallback(() => {
+    setDraftSelections(getBundleSelections({ bundleProductId: '', lines }));
+    setIsEditing(true);
+  }, [lines]);
+
+  const cancelEdit = useCallback(() => {
+    setIsEditing(false);
+  }, []);
+
+  const saveEdit = useCallback(async () => {
+    let result: unknown;
+    try {
+      result = await onEdit?.(draftSelections);
+    } catch {
+      return false;
+    }
+
+    const failed =
+      typeof result === 'object' && result !== null && 'success' in result && !result.success;
+    if (failed) return false;
+
+    setIsEditing(false);
+    return true;
+  }, [onEdit, draftSelections]);
+
+  return {
+    bundleTitle: derivedBundleTitle,
+    bundleQuantity,
+    totalPrice,
+    // Use the parent or first line's image as bundle image
+    bundleImage: parentLine?.merchandise.image ?? lines[0]?.merchandise.image,
+    canEdit,
+    isEditing,
+    draftSelections,
+    setDraftSelections,
+    startEdit,
+    cancelEdit,
+    saveEdit,
+    getQuantityGroupProps: () => ({
+      role: 'group',
+      'aria-label': format('quantity.group', { title: derivedBundleTitle }),
+    }),
+    getQuantityProps: () => ({ id: quantityId }),
+    getDecrementProps: () => ({
+      type: 'button',
+      onClick: () => onQuantityChange?.(bundleQuantity - 1),
+      disabled: bundleQuantity <= 1,
+      'aria-label': format('quantity.decrease', { title: derivedBundleTitle }),
+      'aria-describedby': quantityId,
+    }),
+    getIncrementProps: () => ({
+      type: 'button',
+      onClick: () => onQuantityChange?.(bundleQuantity + 1),
+      'aria-label': format('quantity.increase', { title: derivedBundleTitle }),
+      'aria-describedby': quantityId,
+    }),
+    getRemoveProps: () => ({
+      type: 'button',
+      onClick: onRemove,
+      'aria-label': format('lineItem.removeLabel', { title: derivedBundleTitle }),
+    }),
+    getEditProps: () => ({
+      type: 'button',
+      onClick: startEdit,
+      'aria-label': format('lineItem.editLabel', { title: derivedBundleTitle }),
+    }),
+  };
+}
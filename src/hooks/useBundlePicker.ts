@@ -0,0 +1,426 @@
+/**
+ * useBundlePicker hook
+ *
+ * Headless state and prop getters for mix-and-match pickers. BundlePicker is
+ * built on it; use it directly to render a picker with your own markup.
+ */
+
+import { useCallback, useContext, useId, useMemo, useRef, useState } from 'react';
+import type { ButtonHTMLAttributes, HTMLAttributes, KeyboardEvent, RefCallback } from 'react';
+
+import type {
+  BundleDefinition,
+  BundleComponent,
+  BundleComponentVariant,
+  BundleSelection,
+  ProductImage,
+} from '../types.js';
+import { trackBundleEvent } from '../sdk/trackEvent.js';
+import { getComponentOptions, type ComponentOption } from '../utils/variantOptions.js';
+import { BundleContext, useBundleMessages } from '../components/BundleProvider.js';
+
+export interface UseBundlePickerOptions {
+  /** Bundle definition */
+  definition: BundleDefinition;
+  /** Current selections */
+  selectedComponents: BundleSelection[];
+  /** Callback when selections change */
+  onSelectionChange: (selections: BundleSelection[]) => void;
+  /** Number of columns in the grid, for Up and Down arrow navigation (default: 2) */
+  columns?: number;
+}
+
+/**
+ * A component as shown in the picker, with its current variant
+ */
+export interface BundlePickerItem {
+  component: BundleComponent;
+  /** Variant shown: the chosen one, else the selected one, else the default */
+  variant: BundleComponentVariant;
+  /** Position in the grid */
+  index: number;
+  selected: boolean;
+  /** Selected quantity (0 when not selected) */
+  quantity: number;
+  /** Whether the item can be toggled (selected, or in stock and under the limit) */
+  canSelect: boolean;
+  isOutOfStock: boolean;
+  /** Five or fewer left */
+  isLowStock: boolean;
+  /** Variant image, else the product image */
+  image?: ProductImage;
+  /** Options to choose between (Size, Color, ...) */
+  options: ComponentOption[];
+}
+
+type ButtonProps = ButtonHTMLAttributes<HTMLButtonElement>;
+
+export interface UseBundlePickerReturn {
+  /** Components with a variant to show, in grid order */
+  items: BundlePickerItem[];
+  /** Total selected quantity */
+  totalSelected: number;
+  minSelections: number;
+  maxSelections: number;
+  /** "3" or "3-5", for "{totalSelected} of {selectionRange} selected" */
+  selectionRange: string;
+  /** Whether the minimum is reached */
+  isComplete: boolean;
+  /** Whether the maximum is reached */
+  isLimitReached: boolean;
+  /** Latest screen reader announcement, rendered in the status region */
+  announcement: string;
+  /** Select or deselect an item */
+  toggle: (item: BundlePickerItem) => void;
+  /** Change an item's selected quantity (0 deselects it) */
+  setQuantity: (item: BundlePickerItem, quantity: number) => void;
+  /** Show another variant of an item, moving its selection */
+  chooseVariant: (item: BundlePickerItem, variant: BundleComponentVariant) => void;
+  /** Props for the live region that announces selection changes */
+  getStatusProps: () => HTMLAttributes<HTMLElement>;
+  /** Props for the element around the item toggles */
+  getGridProps: () => HTMLAttributes<HTMLElement>;
+  /** Props for an item's toggle button, with roving tabindex and arrow-key navigation */
+  getToggleProps: (item: BundlePickerItem) => ButtonProps & { ref: RefCallback<HTMLButtonElement> };
+  /** Props for the element around an item's quantity stepper */
+  getQuantityGroupProps: (item: BundlePickerItem) => HTMLAttributes<HTMLElement>;
+  /** Props for the element showing an item's quantity */
+  getQuantityProps: (item: BundlePickerItem) => HTMLAttributes<HTMLElement>;
+  /** Props for an item's decrease quantity button */
+  getDecrementProps: (item: BundlePickerItem) => ButtonProps;
+  /** Props for an item's increase quantity button */
+  getIncrementProps: (item: BundlePickerItem) => ButtonProps;
+}
+
+/**
+ * Headless mix-and-match picker
+ *
+ * Handles selection limits, variant choice, quantities, analytics, keyboard
+ * navigation and screen reader announcements; the markup is yours.
+ *
+ * @example
+ * ```tsx
+ * const picker = useBundlePicker({ definition, selectedComponents, onSelectionChange });
+ *
+ * <div {...picker.getStatusProps()} className="sr-only">{picker.announcement}</div>
+ * <div {...picker.getGridProps()} className="grid grid-cols-2 gap-4">
+ *   {picker.items.map((item) => (
+ *     <button key={item.component.productId} {...picker.getToggleProps(item)}>
+ *       {item.component.productTitle}
+ *     </button>
+ *   ))}
+ * </div>
+ * ```
+ */
+export function useBundlePicker({
+  definition,
+  selectedComponents,
+  onSelectionChange,
+  columns = 2,
+}: UseBundlePickerOptions): UseBundlePickerReturn {
+  // Optional: the picker also works outside a BundleProvider (without analytics)
+  const bundleContext = useContext(BundleContext);
+  const { format } = useBundleMessages();
+
+  const changeSelections = useCallback(
+    (selections: BundleSelection[]) => {
+      onSelectionChange(selections);
+
+      if (bundleContext) {
+        trackBundleEvent(
+          {
+            eventType: 'selection_change',
+            bundleId: definition.id,
+            bundleTitle: definition.title,
+            selectedComponents: selections,
+          },
+          bundleContext.config,
+        );
+      }
+    },
+    [onSelectionChange, bundleContext, definition.id, definition.title],
+  );
+  // Calculate total selected
+  const totalSelected = useMemo(
+    () => selectedComponents.reduce((sum, s) => sum + s.quantity, 0),
+    [selectedComponents],
+  );
+
+  const minSelections = definition.minSelections ?? 0;
+  const maxSelections = definition.maxSelections ?? definition.components.length;
+  const selectionRange =
+    minSelections === maxSelections ? `${minSelections}` : `${minSelections}-${maxSelections}`;
+
+  // Message for the live region, set when the customer changes the selection
+  const [announcement, setAnnouncement] = useState('');
+
+  // Describe the selection progress after a change from `previousTotal` to `total`
+  const describeProgress = useCallback(
+    (total: number, previousTotal: number): string => {
+      const messages = [
+        format('picker.progress.selected', { count: total, range: selectionRange }),
+      ];
+      if (total < minSelections) {
+        messages.push(format('picker.progress.selectMore', { count: minSelections - total }));
+      } else if (minSelections > 0 && previousTotal < minSelections) {
+        messages.push(format('picker.progress.complete'));
+      }
+      if (total >= maxSelections) messages.push(format('picker.progress.limitReached'));
+      return messages.join(' ');
+    },
+    [format, selectionRange, minSelections, maxSelections],
+  );
+
+  // Find the selection of a component's variant
+  const findSelection = useCallback(
+    (component: BundleComponent, variantId: string): BundleSelection | undefined =>
+      selectedComponents.find(
+        (s) => s.productId === component.productId && s.variantId === variantId,
+      ),
+    [selectedComponents],
+  );
+
+  // Variants chosen with the option selectors, by product ID
+  const [chosenVariantIds, setChosenVariantIds] = useState<Record<string, string>>({});
+
+  const items = useMemo(() => {
+    // Variant shown for a component: the chosen one, else the selected one, else the default
+    const shown = definition.components.flatMap((component) => {
+      const variantId =
+        chosenVariantIds[component.productId] ??
+        selectedComponents.find((s) => s.productId === component.productId)?.variantId ??
+        component.defaultVariantId;
+      const variant = component.variants.find((v) => v.id === variantId) ?? component.variants[0];
+      return variant ? [{ component, variant }] : [];
+    });
+
+    return shown.map(({ component, variant }, index): BundlePickerItem => {
+      const selection = findSelection(component, variant.id);
+      const isOutOfStock = !variant.availableForSale;
+
+      return {
+        component,
+        variant,
+        index,
+        selected: !!selection,
+        quantity: selection?.quantity ?? 0,
+        canSelect: !!selection || (!isOutOfStock && totalSelected < maxSelections),
+        isOutOfStock,
+        isLowStock: variant.quantityAvailable !== undefined && variant.quantityAvailable <= 5,
+        image: variant.image ?? component.productImage,
+        options: getComponentOptions(component),
+      };
+    });
+  }, [
+    definition.components,
+    chosenVariantIds,
+    selectedComponents,
+    findSelection,
+    totalSelected,
+    maxSelections,
+  ]);
+
+  // Handle variant option change (moves a selection to the new variant)
+  const chooseVariant = useCallback(
+    ({ component, variant, selected }: BundlePickerItem, next: BundleComponentVariant) => {
+      setChosenVariantIds((chosen) => ({ ...chosen, [component.productId]: next.id }));
+
+      if (selected) {
+        const newSelections = selectedComponents.map((s) =>
+          s.productId === component.productId && s.variantId === variant.id
+            ? { ...s, variantId: next.id }
+            : s,
+        );
+        changeSelections(newSelections);
+      }
+    },
+    [selectedComponents, changeSelections],
+  );
+
+  // Handle selection toggle
+  const toggle = useCallback(
+    ({ component, variant, selected, quantity }: BundlePickerItem) => {
+      const title = component.productTitle;
+
+      if (selected) {
+        // Remove selection
+        const newSelections = selectedComponents.filter(
+          (s) => !(s.productId === component.productId && s.variantId === variant.id),
+        );
+        const total = totalSelected - quantity;
+        setAnnouncement(
+          format('picker.announce.removed', {
+            title,
+            progress: describeProgress(total, totalSelected),
+          }),
+        );
+        changeSelections(newSelections);
+        return;
+      }
+
+      // Unavailable items stay focusable, so explain why nothing happens
+      if (!variant.availableForSale) {
+        setAnnouncement(format('picker.announce.outOfStock', { title }));
+        return;
+      }
+
+      // Add selection (if within max)
+      if (totalSelected >= maxSelections) {
+        setAnnouncement(format('picker.announce.limit', { max: maxSelections, title }));
+        return;
+      }
+
+      const total = totalSelected + component.quantity;
+      setAnnouncement(
+        format('picker.announce.added', {
+          title,
+          progress: describeProgress(total, totalSelected),
+        }),
+      );
+      const newSelections = [
+        ...selectedComponents,
+        {
+          productId: component.productId,
+          variantId: variant.id,
+          quantity: component.quantity,
+        },
+      ];
+      changeSelections(newSelections);
+    },
+    [format, selectedComponents, totalSelected, maxSelections, describeProgress, changeSelections],
+  );
+
+  // Handle quantity change (for components with variable quantity)
+  const setQuantity = useCallback(
+    ({ component, variant, quantity }: BundlePickerItem, newQuantity: number) => {
+      const total = totalSelected - quantity + Math.max(newQuantity, 0);
+      setAnnouncement(
+        format('picker.announce.quantity', {
+          title: component.productTitle,
+          quantity: Math.max(newQuantity, 0),
+          progress: describeProgress(total, totalSelected),
+        }),
+      );
+
+      const isItem = (s: BundleSelection) =>
+        s.productId === component.productId && s.variantId === variant.id;
+
+      if (newQuantity <= 0) {
+        // Remove selection
+        changeSelections(selectedComponents.filter((s) => !isItem(s)));
+      } else if (selectedComponents.some(isItem)) {
+        // Update quantity
+        changeSelections(
+          selectedComponents.map((s) => (isItem(s) ? { ...s, quantity: newQuantity } : s)),
+        );
+      } else {
+        // Add new selection
+        changeSelections([
+          ...selectedComponents,
+          { productId: component.productId, variantId: variant.id, quantity: newQuantity },
+        ]);
+      }
+    },
+    [format, selectedComponents, totalSelected, describeProgress, changeSelections],
+  );
+
+  // Roving tabindex: only one item is in the tab order, arrow keys move between items
+  const [activeIndex, setActiveIndex] = useState(0);
+  const toggleRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const tabbableIndex = Math.min(activeIndex, items.length - 1);
+  const idPrefix = useId();
+
+  const handleToggleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+      const last = items.length - 1;
+      const moves: Record<string, number> = {
+        ArrowRight: index + 1,
+        ArrowLeft: index - 1,
+        ArrowDown: index + columns,
+        ArrowUp: index - columns,
+        Home: 0,
+        End: last,
+      };
+      const next = moves[event.key];
+      if (next === undefined) return;
+
+      event.preventDefault();
+      const target = Math.max(0, Math.min(next, last));
+      setActiveIndex(target);
+      toggleRefs.current[target]?.focus();
+    },
+    [items.length, columns],
+  );
+
+  const getStatusProps = (): HTMLAttributes<HTMLElement> => ({
+    role: 'status',
+    'aria-live': 'polite',
+    'aria-atomic': true,
+  });
+
+  const getGridProps = (): HTMLAttributes<HTMLElement> => ({
+    role: 'group',
+    'aria-label': format('picker.items', { title: definition.title }),
+  });
+
+  const getToggleProps = (item: BundlePickerItem) => ({
+    ref: (element: HTMLButtonElement | null) => {
+      toggleRefs.current[item.index] = element;
+    },
+    type: 'button' as const,
+    onClick: () => toggle(item),
+    onKeyDown: (event: KeyboardEvent<HTMLButtonElement>) => handleToggleKeyDown(event, item.index),
+    onFocus: () => setActiveIndex(item.index),
+    tabIndex: item.index === tabbableIndex ? 0 : -1,
+    'aria-disabled': !item.canSelect,
+    'aria-pressed': item.selected,
+  });
+
+  const quantityId = (item: BundlePickerItem) => `${idPrefix}-quantity-${item.index}`;
+
+  const getQuantityGroupProps = (item: BundlePickerItem): HTMLAttributes<HTMLElement> => ({
+    role: 'group',
+    'aria-label': format('quantity.group', { title: item.component.productTitle }),
+  });
+
+  const getQuantityProps = (item: BundlePickerItem): HTMLAttributes<HTMLElement> => ({
+    id: quantityId(item),
+  });
+
+  const getDecrementProps = (item: BundlePickerItem): ButtonProps => ({
+    type: 'button',
+    onClick: () => setQuantity(item, item.quantity - 1),
+    disabled: item.quantity <= (item.component.minQuantity ?? 1),
+    'aria-label': format('quantity.decrease', { title: item.component.productTitle }),
+    'aria-describedby': quantityId(item),
+  });
+
+  const getIncrementProps = (item: BundlePickerItem): ButtonProps => ({
+    type: 'button',
+    onClick: () => setQuantity(item, item.quantity + 1),
+    disabled: item.quantity >= (item.component.maxQuantity ?? 99) || totalSelected >= maxSelections,
+    'aria-label': format('quantity.increase', { title: item.component.productTitle }),
+    'aria-describedby': quantityId(item),
+  });
+
+  return {
+    items,
+    totalSelected,
+    minSelections,
+    maxSelections,
+    selectionRange,
+    isComplete: totalSelected >= minSelections,
+    isLimitReached: totalSelected >= maxSelections,
+    announcement,
+    toggle,
+    setQuantity,
+    chooseVariant,
+    getStatusProps,
+    getGridProps,
+    getToggleProps,
+    getQuantityGroupProps,
+    getQuantityProps,
+    getDecrementProps,
+    getIncrementProps,
+  };
+}
@@ -4,16 +4,26 @@
  * Calculates bundle pricing including discounts and savings.
  */
 
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import type {
   BundleDefinition,
   BundleBridgeConfig,
+  BundleNextTier,
   BundlePriceResult,
   BundleSelection,
 } from '../types.js';
-import { calculateBundlePrice, formatMoney, formatSavings } from '../sdk/calculatePrice.js';
-import { getUserMessage } from '../utils/errors.js';
+import { resolveSelections } from '../sdk/buildCartMutation.js';
+import {
+  calculateBundlePrice,
+  formatMoney,
+  formatNextTier,
+  formatSavings,
+  getNextPricingTier,
+} from '../sdk/calculatePrice.js';
+import { ERROR_CODES, isErrorCode } from '../utils/errors.js';
+import { isPositiveMoney } from '../utils/money.js';
+import { useBundleMessages } from '../components/BundleProvider.js';
 
 export interface UseBundlePriceOptions {
   /** Bundle definition (from useBundleDefinition) */
@@ -26,6 +36,12 @@ export interface UseBundlePriceOptions {
   locale?: string;
   /** Skip initial calculation */
   skip?: boolean;
+  /**
+   * Pre-loaded price (from loadBundlePageData). Skips the calculation for the
+   * definition and selections it first renders with, and replaces the state
+   * when it changes.
+   */
+  initialData?: BundlePriceResult;
 }
 
 export interface UseBundlePriceReturn {
@@ -43,6 +59,10 @@ export interface UseBundlePriceReturn {
   formattedSavings: string;
   /** Whether there is a savings */
   hasSavings: boolean;
+  /** Next tier the selection can unlock (`tiered` pricing), or null at the top tier */
+  nextTier: BundleNextTier | null;
+  /** Formatted next tier (e.g. "Add 2 more to save 20%"), or an empty string */
+  formattedNextTier: string;
   /** Recalculate price */
   recalculate: () => Promise<void>;
 }
@@ -77,41 +97,83 @@ export function useBundlePrice({
   selectedComponents,
   locale = 'en-US',
   skip = false,
+  initialData,
 }: UseBundlePriceOptions): UseBundlePriceReturn {
-  const [priceResult, setPriceResult] = useState<BundlePriceResult | null>(null);
+  const [priceResult, setPriceResult] = useState<BundlePriceResult | null>(initialData ?? null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | undefined>();
+  const [failure, setFailure] = useState<unknown>();
+  const { messages, formatError } = useBundleMessages();
+
+  // A client-side navigation reuses the component with the next page's data
+  const [hydratedData, setHydratedData] = useState(initialData);
+  if (hydratedData !== initialData) {
+    setHydratedData(initialData);
+    if (initialData) {
+      setPriceResult(initialData);
+      setIsLoading(false);
+      setFailure(undefined);
+    }
+  }
 
-  const calculatePrice = useCallback(async () => {
+  // The definition and selections the server data first rendered with, until
+  // a fetch replaces it
+  const hydratedForRef = useRef<{
+    data: BundlePriceResult;
+    definition?: BundleDefinition;
+    selectedComponents?: BundleSelection[];
+  }>(undefined);
+
+  const calculatePrice = useCallback(async (signal?: AbortSignal) => {
     if (!definition) return;
 
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
       const result = await calculateBundlePrice(definition, config, {
         selectedComponents,
+        signal,
       });
       setPriceResult(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      // A newer request or unmount cancelled this one
+      if (isErrorCode(err, ERROR_CODES.ABORTED)) return;
+      setFailure(err);
       setPriceResult(null);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   }, [definition, config, selectedComponents]);
 
   // Recalculate when definition or selections change
   useEffect(() => {
     if (skip || !definition) return;
-    calculatePrice();
-  }, [skip, definition, calculatePrice]);
+    if (initialData) {
+      const hydrated = hydratedForRef.current;
+      // Server data covers the first render
+      if (hydrated?.data !== initialData) {
+        hydratedForRef.current = { data: initialData, definition, selectedComponents };
+        return;
+      }
+      // Same inputs, e.g. StrictMode re-running the effect
+      if (
+        hydrated.definition === definition &&
+        hydrated.selectedComponents === selectedComponents
+      ) {
+        return;
+      }
+      hydratedForRef.current = { data: initialData };
+    }
+    const controller = new AbortController();
+    calculatePrice(controller.signal);
+    return () => controller.abort();
+  }, [skip, definition, selectedComponents, initialData, calculatePrice]);
 
   const recalculate = useCallback(async () => {
     if (!definition) return;
 
     setIsLoading(true);
-    setError(undefined);
+    setFailure(undefined);
 
     try {
       const result = await calculateBundlePrice(definition, config, {
@@ -120,7 +182,7 @@ export function useBundlePrice({
       });
       setPriceResult(result);
     } catch (err) {
-      setError(getUserMessage(err));
+      setFailure(err);
     } finally {
       setIsLoading(false);
     }
@@ -139,22 +201,42 @@ export function useBundlePrice({
 
   const formattedSavings = useMemo(() => {
     if (!priceResult) return '';
-    return formatSavings(priceResult.savings, priceResult.savingsPercentage, locale);
-  }, [priceResult, locale]);
+    return formatSavings(priceResult.savings, priceResult.savingsPercentage, locale, messages);
+  }, [priceResult, locale, messages]);
 
   const hasSavings = useMemo(() => {
     if (!priceResult) return false;
-    return parseFloat(priceResult.savings.amount) > 0;
+    return isPositiveMoney(priceResult.savings);
   }, [priceResult]);
 
+  // Tiers depend only on the item count, so this needs no price request
+  const nextTier = useMemo(() => {
+    if (!definition) return null;
+    const selections =
+      definition.bundleType === 'mix_and_match'
+        ? (selectedComponents ?? [])
+        : resolveSelections(definition);
+    const itemCount = selections.reduce((sum, s) => sum + s.quantity, 0);
+    return getNextPricingTier(definition.pricing, itemCount);
+  }, [definition, selectedComponents]);
+
+  const formattedNextTier = useMemo(() => {
+    if (!nextTier || !definition) return '';
+    const currencyCode =
+      priceResult?.bundlePrice.currencyCode ?? definition.pricing.currencyCode ?? 'USD';
+    return formatNextTier(nextTier, currencyCode, locale, messages);
+  }, [nextTier, definition, priceResult, locale, messages]);
+
   return {
     priceResult,
     isLoading,
-    error,
+    error: failure === undefined ? undefined : formatError(failure),
     formattedOriginalPrice,
     formattedBundlePrice,
     formattedSavings,
     hasSavings,
+    nextTier,
+    formattedNextTier,
     recalculate,
   };
 }
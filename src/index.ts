@@ -55,29 +55,73 @@
  */
 
 // Components
-export { BundleProvider, useBundleConfig } from './components/BundleProvider.js';
+export {
+  BundleProvider,
+  useBundleConfig,
+  useBundleTheme,
+  useBundleMessages,
+} from './components/BundleProvider.js';
 export { BundleAddToCart } from './components/BundleAddToCart.js';
 export { BundlePicker } from './components/BundlePicker.js';
 export { BundleLineItem } from './components/BundleLineItem.js';
 export { BundleSavings } from './components/BundleSavings.js';
+export { BundleCartForm } from './components/BundleCartForm.js';
 
 // Hooks
 export { useBundleDefinition } from './hooks/useBundleDefinition.js';
 export { useBundleInventory } from './hooks/useBundleInventory.js';
 export { useBundlePrice } from './hooks/useBundlePrice.js';
 export { useBundleCart, useBundleLines } from './hooks/useBundleCart.js';
+export { useBundlePicker } from './hooks/useBundlePicker.js';
+export { useBundleLineItem } from './hooks/useBundleLineItem.js';
+export { useBundleAddToCartButton } from './hooks/useBundleAddToCartButton.js';
 
 // SDK Functions
 export { resolveBundle, isBundle } from './sdk/resolveBundle.js';
 export { checkBundleInventory, isBundleAvailable } from './sdk/checkInventory.js';
-export { calculateBundlePrice, formatMoney, formatSavings } from './sdk/calculatePrice.js';
+export {
+  calculateBundlePrice,
+  allocateBundlePrice,
+  getPricingTier,
+  getNextPricingTier,
+  formatMoney,
+  formatSavings,
+  formatNextTier,
+} from './sdk/calculatePrice.js';
 export {
   addBundleToCart,
+  removeBundleFromCart,
+  updateBundleQuantityInCart,
+  editBundleInCart,
+  getBundleQuantity,
+  getBundleSelections,
+  getBundleLineIds,
+  buildBundleQuantityUpdates,
   buildBundleCartLines,
+  createBundleInstanceId,
+  resolveAddMode,
+  resolveSelections,
   isBundleLine,
+  isComponentizedLine,
   getBundleInfoFromLine,
   groupCartLinesByBundle,
 } from './sdk/buildCartMutation.js';
+export { trackBundleEvent, flushBundleEvents } from './sdk/trackEvent.js';
+export { storefrontRequest, fetchWithRetry } from './sdk/storefrontClient.js';
+export { loadBundlePageData, handleBundleAddToCartAction } from './sdk/loadBundlePage.js';
+export { handleBundleCartAction } from './sdk/handleBundleCartAction.js';
+export { loadCollectionComponents } from './sdk/loadComponentPool.js';
+export {
+  buildOptimisticBundleLines,
+  applyOptimisticOperations,
+  isOptimisticLineId,
+  clearOptimisticOperations,
+} from './sdk/optimisticCart.js';
+export {
+  createHydrogenAnalyticsAdapter,
+  createGa4Adapter,
+  createConsoleAdapter,
+} from './sdk/analyticsAdapters.js';
 
 // GraphQL (for advanced users)
 export * from './graphql/fragments.js';
@@ -100,12 +144,38 @@ export {
   persistCache,
   restoreCache,
 } from './utils/cache.js';
+export {
+  getVariantOptions,
+  getComponentOptions,
+  findVariantByOptions,
+  getOptionValueState,
+} from './utils/variantOptions.js';
+export { BUNDLE_THEME_TOKENS, themeVar, getThemeStyle } from './utils/theme.js';
+export { DEFAULT_MESSAGES, formatMessage } from './utils/messages.js';
+export {
+  getCurrencyDecimals,
+  toMinorUnits,
+  fromMinorUnits,
+  createMoney,
+  roundMoney,
+  sumMoney,
+  subtractMoney,
+  multiplyMoney,
+  percentageOfMoney,
+  allocateMoney,
+  compareMoney,
+  isPositiveMoney,
+  moneyToNumber,
+} from './utils/money.js';
 export {
   BundleBridgeError,
   ERROR_CODES,
   createError,
   parseApiError,
+  getErrorCodeForStatus,
   getUserMessage,
+  getResultMessage,
+  getErrorResult,
   isErrorCode,
   isRecoverableError,
 } from './utils/errors.js';
@@ -118,37 +188,90 @@ export {
   DEFAULT_ERROR_MESSAGES,
   DEFAULT_SUCCESS_MESSAGES,
   RATE_LIMITS,
+  ANALYTICS_BATCH,
+  REQUEST_DEFAULTS,
+  BUNDLE_FORM_FIELDS,
+  BUNDLE_CART_ACTIONS,
+  CART_FORM_INPUT_FIELD,
+  OPTIMISTIC_UPDATE_TTL,
+  DEFAULT_METAFIELD_NAMESPACE,
+  BUNDLE_METAFIELD_KEYS,
+  COMPONENT_POOL_PAGE_SIZE,
 } from './utils/constants.js';
 
 // Types
 export type {
   BundleType,
   BundleDiscountType,
+  BundleAddMode,
+  PriceAllocationStrategy,
   AvailabilityStatus,
   Money,
   ProductImage,
   BundleComponentVariant,
   BundleComponent,
   BundlePricing,
+  BundlePricingSource,
+  BundlePricingTier,
+  BundleNextTier,
   BundleDefinition,
   BundleSelection,
+  ComponentPoolFilters,
   ComponentInventory,
   BundleInventory,
   BundlePriceResult,
   BundleLineAttributes,
   AddBundleInput,
   AddBundleResult,
+  BundleCartLine,
+  BundleLineGroup,
+  OptimisticCartLine,
   BundleBridgeConfig,
+  BundleMarket,
+  HydrogenStorefrontClient,
+  HydrogenCartHandler,
+  StorefrontCacheStrategy,
   BundleEventType,
   BundleAnalyticsEvent,
+  BundleAnalyticsAdapter,
 } from './types.js';
+export type { RequestOptions, StorefrontRequestOptions } from './sdk/storefrontClient.js';
+export type { BundleServerContext, BundlePageData } from './sdk/loadBundlePage.js';
+export type { CartFormInput, BundleAddInputs } from './sdk/handleBundleCartAction.js';
+export type { OptimisticOperation } from './sdk/optimisticCart.js';
+export type { ComponentPoolOptions } from './sdk/loadComponentPool.js';
+export type { ComponentQuantityLimits } from './sdk/bundleMetafields.js';
+export type {
+  HydrogenAnalyticsAdapterOptions,
+  Ga4AdapterOptions,
+  ConsoleAdapterOptions,
+} from './sdk/analyticsAdapters.js';
 
 // Component props types
 export type { BundleProviderProps } from './components/BundleProvider.js';
-export type { BundleAddToCartProps } from './components/BundleAddToCart.js';
-export type { BundlePickerProps } from './components/BundlePicker.js';
-export type { BundleLineItemProps } from './components/BundleLineItem.js';
-export type { BundleSavingsProps } from './components/BundleSavings.js';
+export type { BundleAddToCartProps, BundleAddToCartSlot } from './components/BundleAddToCart.js';
+export type {
+  BundlePickerProps,
+  BundlePickerSlot,
+  VariantOptionDisplay,
+} from './components/BundlePicker.js';
+export type { ComponentOption, OptionValueState } from './utils/variantOptions.js';
+export type { BundleLineItemProps, BundleLineItemSlot } from './components/BundleLineItem.js';
+export type { BundleSavingsProps, BundleSavingsSlot } from './components/BundleSavings.js';
+export type { BundleTheme, BundleThemeToken } from './utils/theme.js';
+export type {
+  BundleMessageKey,
+  BundleMessages,
+  BundleMessageParams,
+  BundleMessageDescriptor,
+  BundleMessageOptions,
+  BundleMessageFormatter,
+} from './utils/messages.js';
+export type { BundleSelectionValidation } from './utils/validation.js';
+export type {
+  BundleCartFormProps,
+  CartFormComponentProps,
+} from './components/BundleCartForm.js';
 
 // Hook options and return types
 export type {
@@ -167,4 +290,18 @@ export type {
   UseBundleCartOptions,
   UseBundleCartReturn,
 } from './hooks/useBundleCart.js';
+export type {
+  UseBundlePickerOptions,
+  UseBundlePickerReturn,
+  BundlePickerItem,
+} from './hooks/useBundlePicker.js';
+export type {
+  UseBundleLineItemOptions,
+  UseBundleLineItemReturn,
+  CartLineData,
+} from './hooks/useBundleLineItem.js';
+export type {
+  UseBundleAddToCartButtonOptions,
+  UseBundleAddToCartButtonReturn,
+} from './hooks/useBundleAddToCartButton.js';
 export type { ErrorCode } from './utils/errors.js';
@@ -0,0 +1,190 @@
+/**
+ * Analytics adapters
+ *
+ * Built-in adapters that forward bundle analytics events to Hydrogen's
+ * Analytics bus, a GA4 dataLayer or the console. Register them with
+ * `BundleProvider`'s `analyticsAdapters` prop or `config.analyticsAdapters`.
+ */
+
+import type { BundleAnalyticsAdapter, BundleAnalyticsEvent, BundleEventType } from '../types.js';
+import { moneyToNumber, multiplyMoney } from '../utils/money.js';
+
+/**
+ * Hydrogen Analytics adapter options
+ */
+export interface HydrogenAnalyticsAdapterOptions {
+  /** `publish` from Hydrogen's `useAnalytics()` */
+  publish: (event: string, payload: unknown) => void;
+  /**
+   * Prefix for published event names (Hydrogen requires custom events to
+   * start with `custom_`)
+   * @default "custom_bundle_"
+   */
+  eventPrefix?: string;
+}
+
+/**
+ * Forward bundle events to Hydrogen's Analytics bus
+ *
+ * Events are published as custom events (e.g. `custom_bundle_add_to_cart`)
+ * with the bundle event as payload, so any subscribed analytics provider
+ * receives them.
+ *
+ * @example
+ * ```tsx
+ * const { publish } = useAnalytics();
+ * const adapters = useMemo(() => [createHydrogenAnalyticsAdapter({ publish })], [publish]);
+ *
+ * <BundleProvider config={config} analyticsAdapters={adapters}>
+ * ```
+ */
+export function createHydrogenAnalyticsAdapter({
+  publish,
+  eventPrefix = 'custom_bundle_',
+}: HydrogenAnalyticsAdapterOptions): BundleAnalyticsAdapter {
+  return {
+    name: 'hydrogen',
+    track: (event) => {
+      publish(`${eventPrefix}${event.eventType}`, event);
+    },
+  };
+}
+
+/**
+ * GA4 adapter options
+ */
+export interface Ga4AdapterOptions {
+  /** dataLayer to push to (default: `window.dataLayer`) */
+  dataLayer?: unknown[];
+}
+
+/**
+ * GA4 item (ecommerce events)
+ */
+interface Ga4Item {
+  item_id: string;
+  item_variant: string;
+  item_list_id: string;
+  item_list_name?: string;
+  price?: number;
+  quantity: number;
+}
+
+/** GA4 recommended events for bundle events; others use `bundle_<type>` */
+const GA4_EVENT_NAMES: Partial<Record<BundleEventType, string>> = {
+  view: 'view_item_list',
+  add_to_cart: 'add_to_cart',
+  remove_from_cart: 'remove_from_cart',
+  purchase: 'purchase',
+};
+
+/**
+ * Build one GA4 item per selected component
+ */
+function buildGa4Items(event: BundleAnalyticsEvent): Ga4Item[] {
+  const bundleQuantity = event.quantity ?? 1;
+
+  if (event.componentPrices && event.componentPrices.length > 0) {
+    return event.componentPrices.map((component) => ({
+      item_id: component.productId,
+      item_variant: component.variantId,
+      item_list_id: event.bundleId,
+      item_list_name: event.bundleTitle,
+      // Discounted unit price when the bundle price was allocated
+      price: component.allocatedTotal
+        ? moneyToNumber(component.allocatedTotal) / component.quantity
+        : moneyToNumber(component.unitPrice),
+      quantity: component.quantity * bundleQuantity,
+    }));
+  }
+
+  return (event.selectedComponents ?? []).map((selection) => ({
+    item_id: selection.productId,
+    item_variant: selection.variantId,
+    item_list_id: event.bundleId,
+    item_list_name: event.bundleTitle,
+    quantity: selection.quantity * bundleQuantity,
+  }));
+}
+
+/**
+ * Push bundle events to a GA4 dataLayer
+ *
+ * Views, adds, removals and purchases use GA4's recommended ecommerce events
+ * with one item per component and the bundle as item list. Other events are
+ * pushed as `bundle_<eventType>`.
+ *
+ * @example
+ * ```tsx
+ * <BundleProvider config={config} analyticsAdapters={[createGa4Adapter()]}>
+ * ```
+ */
+export function createGa4Adapter(options: Ga4AdapterOptions = {}): BundleAnalyticsAdapter {
+  return {
+    name: 'ga4',
+    track: (event) => {
+      const dataLayer =
+        options.dataLayer ??
+        (typeof window !== 'undefined'
+          ? ((window as unknown as { dataLayer?: unknown[] }).dataLayer ??= [])
+          : undefined);
+
+      if (!dataLayer) return;
+
+      const ecommerceEvent = GA4_EVENT_NAMES[event.eventType];
+
+      if (!ecommerceEvent) {
+        dataLayer.push({
+          event: `bundle_${event.eventType}`,
+          bundle_id: event.bundleId,
+          bundle_title: event.bundleTitle,
+          error: event.error,
+        });
+        return;
+      }
+
+      const bundleQuantity = event.quantity ?? 1;
+      const value = event.price
+        ? moneyToNumber(multiplyMoney(event.price, bundleQuantity))
+        : undefined;
+
+      // Clear the previous ecommerce object, as recommended by Google
+      dataLayer.push({ ecommerce: null });
+      dataLayer.push({
+        event: ecommerceEvent,
+        ecommerce: {
+          currency: event.price?.currencyCode,
+          value,
+          item_list_id: event.bundleId,
+          item_list_name: event.bundleTitle,
+          items: buildGa4Items(event),
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Console adapter options
+ */
+export interface ConsoleAdapterOptions {
+  /** Log prefix (default: "[bundles]") */
+  prefix?: string;
+  /** Log function (default: console.debug) */
+  log?: (...args: unknown[]) => void;
+}
+
+/**
+ * Log bundle events to the console (for development)
+ */
+export function createConsoleAdapter(options: ConsoleAdapterOptions = {}): BundleAnalyticsAdapter {
+  const prefix = options.prefix ?? '[bundles]';
+
+  return {
+    name: 'console',
+    track: (event) => {
+      const log = options.log ?? console.debug;
+      log(prefix, event.eventType, event);
+    },
+  };
+}
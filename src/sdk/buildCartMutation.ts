@@ -10,32 +10,99 @@ import type {
   BundleDefinition,
   AddBundleInput,
   AddBundleResult,
+  BundleAddMode,
   BundleBridgeConfig,
+  BundleCartLine,
   BundleLineAttributes,
+  BundleLineGroup,
+  BundleSelection,
 } from '../types.js';
-import { CART_LINES_ADD_MUTATION, CART_CREATE_MUTATION } from '../graphql/mutations.js';
-import { BUNDLE_ATTRIBUTES, DEFAULT_API_VERSION } from '../utils/constants.js';
-import { createError, ERROR_CODES } from '../utils/errors.js';
+import {
+  CART_LINES_ADD_MUTATION,
+  CART_CREATE_MUTATION,
+  CART_LINES_REMOVE_MUTATION,
+  CART_LINES_UPDATE_MUTATION,
+} from '../graphql/mutations.js';
+import { BUNDLE_ATTRIBUTES } from '../utils/constants.js';
+import { ERROR_CODES, getErrorResult } from '../utils/errors.js';
+import { formatMessage } from '../utils/messages.js';
 import { validateBundleSelection } from '../utils/validation.js';
+import { storefrontRequest, withMarket } from './storefrontClient.js';
+
+/**
+ * Generate a unique bundle instance ID
+ */
+export function createBundleInstanceId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
 
 /**
  * Build line item attributes for bundle identification
  */
 function buildBundleAttributes(
   bundleId: string,
+  instanceId: string,
   componentIndex: number,
   totalComponents: number,
   componentProductId: string,
+  componentQuantity: number,
 ): Array<{ key: string; value: string }> {
   return [
     { key: BUNDLE_ATTRIBUTES.bundleParent, value: 'true' },
     { key: BUNDLE_ATTRIBUTES.bundleProductId, value: bundleId },
+    { key: BUNDLE_ATTRIBUTES.bundleInstanceId, value: instanceId },
     { key: BUNDLE_ATTRIBUTES.componentIndex, value: String(componentIndex) },
     { key: BUNDLE_ATTRIBUTES.totalComponents, value: String(totalComponents) },
     { key: BUNDLE_ATTRIBUTES.componentProductId, value: componentProductId },
+    { key: BUNDLE_ATTRIBUTES.componentQuantity, value: String(componentQuantity) },
   ];
 }
 
+/**
+ * Resolve the add mode for a bundle
+ *
+ * Native mode requires a fixed bundle with a parent variant that Shopify can
+ * expand. Mix-and-match bundles always use the exploded-attribute strategy.
+ */
+export function resolveAddMode(
+  definition: BundleDefinition,
+  addMode: BundleAddMode = 'exploded',
+): BundleAddMode {
+  if (addMode === 'native' && definition.bundleType === 'fixed' && definition.variantId) {
+    return 'native';
+  }
+  return 'exploded';
+}
+
+/**
+ * Resolve the components a bundle add covers
+ *
+ * Mix-and-match bundles use the customer selections; fixed bundles use the
+ * default variant of every component.
+ */
+export function resolveSelections(
+  definition: BundleDefinition,
+  selectedComponents?: BundleSelection[],
+): BundleSelection[] {
+  if (selectedComponents && selectedComponents.length > 0) {
+    return selectedComponents.map((s) => ({
+      productId: s.productId,
+      variantId: s.variantId,
+      quantity: s.quantity,
+    }));
+  }
+
+  return definition.components.map((c) => ({
+    productId: c.productId,
+    variantId: c.defaultVariantId ?? c.variants[0]!.id,
+    quantity: c.quantity,
+  }));
+}
+
 /**
  * Build cart line inputs for a bundle
  */
@@ -54,34 +121,34 @@ export function buildBundleCartLines(
     attributes: Array<{ key: string; value: string }>;
   }> = [];
 
-  // Determine which variants to add
-  let componentsToAdd: Array<{ productId: string; variantId: string; quantity: number }>;
-
-  if (input.selectedComponents && input.selectedComponents.length > 0) {
-    // Mix-and-match: use customer selections
-    componentsToAdd = input.selectedComponents.map((s) => ({
-      productId: s.productId,
-      variantId: s.variantId,
-      quantity: s.quantity,
-    }));
-  } else {
-    // Fixed bundle: use default variants from definition
-    componentsToAdd = definition.components.map((c) => ({
-      productId: c.productId,
-      variantId: c.defaultVariantId ?? c.variants[0]!.id,
-      quantity: c.quantity,
-    }));
+  // Native mode: add the bundle parent variant and let Shopify expand it
+  if (resolveAddMode(definition, input.addMode) === 'native') {
+    lines.push({
+      merchandiseId: definition.variantId!,
+      quantity,
+      attributes: Object.entries(input.customAttributes ?? {}).map(([key, value]) => ({
+        key,
+        value,
+      })),
+    });
+    return lines;
   }
 
+  // Determine which variants to add
+  const componentsToAdd = resolveSelections(definition, input.selectedComponents);
+
   const totalComponents = componentsToAdd.length;
+  const instanceId = input.instanceId ?? createBundleInstanceId();
 
   // Build line item for each component
   componentsToAdd.forEach((component, index) => {
     const attributes = buildBundleAttributes(
       definition.id,
+      instanceId,
       index,
       totalComponents,
       component.productId,
+      component.quantity,
     );
 
     // Add any custom attributes
@@ -101,6 +168,14 @@ export function buildBundleCartLines(
   return lines;
 }
 
+/**
+ * Cart mutation payload (cart plus user errors)
+ */
+interface CartMutationPayload {
+  cart?: AddBundleResult['cart'];
+  userErrors?: Array<{ field: string[]; message: string; code: string }>;
+}
+
 /**
  * Execute cart mutation via Storefront API
  */
@@ -108,41 +183,21 @@ async function executeCartMutation(
   config: BundleBridgeConfig,
   mutation: string,
   variables: Record<string, unknown>,
-): Promise<{
-  cart?: AddBundleResult['cart'];
-  userErrors?: Array<{ field: string[]; message: string; code: string }>;
-}> {
-  if (!config.storefrontAccessToken) {
-    throw createError(
-      ERROR_CODES.INVALID_CONFIG,
-      'storefrontAccessToken is required for cart operations',
-    );
-  }
-
-  const apiVersion = config.apiVersion ?? DEFAULT_API_VERSION;
-  const url = `https://${config.storeDomain}/api/${apiVersion}/graphql.json`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Shopify-Storefront-Access-Token': config.storefrontAccessToken,
-    },
-    body: JSON.stringify({ query: mutation, variables }),
-  });
-
-  if (!response.ok) {
-    throw createError(ERROR_CODES.NETWORK_ERROR, `Storefront API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  if (data.errors) {
-    throw createError(ERROR_CODES.CART_ERROR, data.errors[0]?.message ?? 'GraphQL error');
-  }
+): Promise<CartMutationPayload> {
+  // Cart mutations are not idempotent, so only rate-limited attempts are retried
+  const data = await storefrontRequest<Record<string, CartMutationPayload | undefined>>(
+    config,
+    mutation,
+    variables,
+    { errorCode: ERROR_CODES.CART_ERROR, retryFailures: false, mutation: true },
+  );
 
   // Handle different mutation response structures
-  const result = data.data?.cartCreate ?? data.data?.cartLinesAdd;
+  const result =
+    data?.cartCreate ??
+    data?.cartLinesAdd ??
+    data?.cartLinesUpdate ??
+    data?.cartLinesRemove;
 
   return {
     cart: result?.cart,
@@ -178,19 +233,21 @@ export async function addBundleToCart(
     if (!validation.valid) {
       return {
         success: false,
-        error: validation.error ?? 'Invalid bundle selection',
+        error: validation.error ?? formatMessage('cart.invalidSelection'),
+        errorKey: validation.errorKey ?? 'cart.invalidSelection',
+        errorParams: validation.errorParams,
       };
     }
   }
 
-  // Build the cart lines
-  const lines = buildBundleCartLines(definition, input);
+  // Build the cart lines (per-call add mode takes precedence over config)
+  const lines = buildBundleCartLines(definition, {
+    ...input,
+    addMode: input.addMode ?? config.addMode,
+  });
 
   try {
-    let result: {
-      cart?: AddBundleResult['cart'];
-      userErrors?: Array<{ field: string[]; message: string; code: string }>;
-    };
+    let result: CartMutationPayload;
 
     if (input.cartId) {
       // Add to existing cart
@@ -199,9 +256,10 @@ export async function addBundleToCart(
         lines,
       });
     } else {
-      // Create new cart with bundle
+      // Create new cart with bundle (its buyer country sets the cart's market)
+      const { country } = withMarket(config);
       result = await executeCartMutation(config, CART_CREATE_MUTATION, {
-        input: { lines },
+        input: { lines, ...(country && { buyerIdentity: { countryCode: country } }) },
       });
     }
 
@@ -243,27 +301,367 @@ export async function addBundleToCart(
       cart: result.cart,
     };
   } catch (error) {
-    if (error instanceof Error) {
-      return {
-        success: false,
-        error: error.message,
-      };
+    return {
+      success: false,
+      ...getErrorResult(error, 'cart.addFailed'),
+    };
+  }
+}
+
+/**
+ * Greatest common divisor (for deriving bundle quantity from line quantities)
+ */
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Get the per-bundle quantity recorded on a component line
+ */
+function getComponentQuantity(line: BundleCartLine): number | undefined {
+  const value = getBundleInfoFromLine(line)._bundleComponentQuantity;
+  const quantity = value ? parseInt(value, 10) : NaN;
+  return quantity > 0 ? quantity : undefined;
+}
+
+/**
+ * Get the number of bundles a group of cart lines represents
+ *
+ * Native bundles carry the quantity on the parent line. Exploded bundles
+ * divide a line's quantity by the component quantity recorded on it. Lines
+ * added without that attribute fall back to the greatest common divisor of
+ * the line quantities.
+ */
+export function getBundleQuantity(group: BundleLineGroup): number {
+  if (group.parentLine) return group.parentLine.quantity;
+
+  for (const line of group.lines) {
+    const componentQuantity = getComponentQuantity(line);
+    if (componentQuantity) {
+      return Math.max(1, Math.floor(line.quantity / componentQuantity));
+    }
+  }
+
+  const quantity = group.lines.reduce((result, line) => gcd(line.quantity, result), 0);
+  return Math.max(1, quantity);
+}
+
+/**
+ * Get the per-bundle selections a bundle group was added with
+ */
+export function getBundleSelections(group: BundleLineGroup): BundleSelection[] {
+  const bundleQuantity = getBundleQuantity(group);
+
+  return group.lines.map((line) => ({
+    productId:
+      getBundleInfoFromLine(line)._bundleComponentProductId ??
+      line.merchandise.product.id ??
+      '',
+    variantId: line.merchandise.id,
+    quantity: getComponentQuantity(line) ?? line.quantity / bundleQuantity,
+  }));
+}
+
+/**
+ * Convert a mutation payload into a result
+ */
+function toCartResult(result: CartMutationPayload): AddBundleResult {
+  if (result.userErrors && result.userErrors.length > 0) {
+    return {
+      success: false,
+      error: result.userErrors[0]!.message,
+    };
+  }
+
+  return {
+    success: true,
+    cart: result.cart,
+  };
+}
+
+/**
+ * Cart line IDs to remove for a bundle group
+ */
+export function getBundleLineIds(group: BundleLineGroup): string[] {
+  return group.parentLine ? [group.parentLine.id] : group.lines.map((line) => line.id);
+}
+
+/**
+ * Cart line updates that set a bundle group to a new bundle quantity
+ */
+export function buildBundleQuantityUpdates(
+  group: BundleLineGroup,
+  quantity: number,
+): Array<{ id: string; quantity: number }> {
+  if (group.parentLine) {
+    // Shopify scales the components of a native bundle itself
+    return [{ id: group.parentLine.id, quantity }];
+  }
+
+  const currentQuantity = getBundleQuantity(group);
+  return group.lines.map((line) => ({
+    id: line.id,
+    quantity: (getComponentQuantity(line) ?? line.quantity / currentQuantity) * quantity,
+  }));
+}
+
+/**
+ * Remove a bundle from the cart
+ *
+ * Removes every line of the group in a single mutation, so the cart never
+ * holds a partial bundle.
+ *
+ * @param group - Bundle group (from groupCartLinesByBundle)
+ * @param config - BundleBridge configuration
+ * @param input - Cart to remove the bundle from
+ */
+export async function removeBundleFromCart(
+  group: BundleLineGroup,
+  config: BundleBridgeConfig,
+  input: { cartId: string },
+): Promise<AddBundleResult> {
+  const lineIds = getBundleLineIds(group);
+
+  try {
+    const result = await executeCartMutation(config, CART_LINES_REMOVE_MUTATION, {
+      cartId: input.cartId,
+      lineIds,
+    });
+
+    return toCartResult(result);
+  } catch (error) {
+    return {
+      success: false,
+      ...getErrorResult(error, 'cart.removeFailed'),
+    };
+  }
+}
+
+/**
+ * Change the quantity of a bundle in the cart
+ *
+ * Each component line is scaled by its per-bundle multiplier, so a bundle
+ * with 2 socks and 1 shirt at quantity 3 becomes 6 socks and 3 shirts.
+ * A quantity of 0 removes the bundle.
+ *
+ * @param group - Bundle group (from groupCartLinesByBundle)
+ * @param config - BundleBridge configuration
+ * @param input - Cart and new bundle quantity
+ */
+export async function updateBundleQuantityInCart(
+  group: BundleLineGroup,
+  config: BundleBridgeConfig,
+  input: { cartId: string; quantity: number },
+): Promise<AddBundleResult> {
+  if (input.quantity <= 0) {
+    return removeBundleFromCart(group, config, { cartId: input.cartId });
+  }
+
+  const lines = buildBundleQuantityUpdates(group, input.quantity);
+
+  try {
+    const result = await executeCartMutation(config, CART_LINES_UPDATE_MUTATION, {
+      cartId: input.cartId,
+      lines,
+    });
+
+    return toCartResult(result);
+  } catch (error) {
+    return {
+      success: false,
+      ...getErrorResult(error, 'cart.updateFailed'),
+    };
+  }
+}
+
+/**
+ * Replace the selections of a bundle already in the cart
+ *
+ * Re-validates the new selections, then updates lines whose component is
+ * still selected (swapping the variant in place) and removes deselected ones
+ * in one call, and adds newly selected components in a second. If the add
+ * fails, the first call is undone, so the cart never holds a half-edited
+ * bundle. The bundle's instance ID, custom attributes and quantity are
+ * preserved.
+ *
+ * @param definition - Bundle definition (from resolveBundle)
+ * @param config - BundleBridge configuration
+ * @param input - Cart, bundle group (from groupCartLinesByBundle) and new selections
+ */
+export async function editBundleInCart(
+  definition: BundleDefinition,
+  config: BundleBridgeConfig,
+  input: {
+    cartId: string;
+    group: BundleLineGroup;
+    selectedComponents: BundleSelection[];
+  },
+): Promise<AddBundleResult> {
+  const { group } = input;
+
+  if (group.parentLine) {
+    return {
+      success: false,
+      error: formatMessage('cart.nativeBundleEdit'),
+      errorKey: 'cart.nativeBundleEdit',
+    };
+  }
+
+  const validation = validateBundleSelection(definition, input.selectedComponents);
+
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: validation.error ?? formatMessage('cart.invalidSelection'),
+      errorKey: validation.errorKey ?? 'cart.invalidSelection',
+      errorParams: validation.errorParams,
+    };
+  }
+
+  // Preserve non-bundle attributes (gift notes, etc.) from the existing lines
+  const bundleAttributeKeys = new Set<string>(Object.values(BUNDLE_ATTRIBUTES));
+  const customAttributes = Object.fromEntries(
+    (group.lines[0]?.attributes ?? [])
+      .filter((attr) => !bundleAttributeKeys.has(attr.key))
+      .map((attr) => [attr.key, attr.value]),
+  );
+
+  const newLines = buildBundleCartLines(definition, {
+    bundleId: definition.id,
+    selectedComponents: input.selectedComponents,
+    quantity: getBundleQuantity(group),
+    customAttributes,
+    instanceId: group.instanceId,
+    addMode: 'exploded',
+  });
+
+  // Match new lines to existing lines by component product
+  const remainingLines = [...group.lines];
+  const swappedLines: BundleCartLine[] = [];
+  const updates: Array<{
+    id: string;
+    merchandiseId: string;
+    quantity: number;
+    attributes: Array<{ key: string; value: string }>;
+  }> = [];
+  const additions: typeof newLines = [];
+
+  for (const line of newLines) {
+    const productId = line.attributes.find(
+      (a) => a.key === BUNDLE_ATTRIBUTES.componentProductId,
+    )?.value;
+    const matchIndex = remainingLines.findIndex(
+      (existing) =>
+        (getBundleInfoFromLine(existing)._bundleComponentProductId ??
+          existing.merchandise.product.id) === productId,
+    );
+
+    if (matchIndex === -1) {
+      additions.push(line);
+    } else {
+      const [existing] = remainingLines.splice(matchIndex, 1);
+      swappedLines.push(existing!);
+      updates.push({ id: existing!.id, ...line });
+    }
+  }
+
+  // Deselected components are dropped (quantity 0) in the same call as the swaps
+  const lineUpdates = [...updates, ...remainingLines.map((line) => ({ id: line.id, quantity: 0 }))];
+
+  try {
+    let result: CartMutationPayload = {};
+
+    if (lineUpdates.length > 0) {
+      result = await executeCartMutation(config, CART_LINES_UPDATE_MUTATION, {
+        cartId: input.cartId,
+        lines: lineUpdates,
+      });
+      if (result.userErrors?.length) return toCartResult(result);
     }
+
+    if (additions.length > 0) {
+      const restore = () => restoreBundleLines(config, input.cartId, swappedLines, remainingLines);
+
+      result = await executeCartMutation(config, CART_LINES_ADD_MUTATION, {
+        cartId: input.cartId,
+        lines: additions,
+      }).catch(async (error: unknown) => {
+        await restore();
+        throw error;
+      });
+      if (result.userErrors?.length) {
+        await restore();
+        return toCartResult(result);
+      }
+    }
+
+    return toCartResult(result);
+  } catch (error) {
     return {
       success: false,
-      error: 'Failed to add bundle to cart',
+      ...getErrorResult(error, 'cart.editFailed'),
     };
   }
 }
 
+/**
+ * Put a bundle's lines back after its edit failed halfway: swapped lines get
+ * their variant, quantity and attributes back, removed lines are re-added.
+ * Failures are ignored so the edit's own error is reported.
+ */
+async function restoreBundleLines(
+  config: BundleBridgeConfig,
+  cartId: string,
+  swappedLines: BundleCartLine[],
+  removedLines: BundleCartLine[],
+): Promise<void> {
+  const toLineInput = (line: BundleCartLine) => ({
+    merchandiseId: line.merchandise.id,
+    quantity: line.quantity,
+    attributes: line.attributes,
+  });
+
+  try {
+    if (swappedLines.length > 0) {
+      await executeCartMutation(config, CART_LINES_UPDATE_MUTATION, {
+        cartId,
+        lines: swappedLines.map((line) => ({ id: line.id, ...toLineInput(line) })),
+      });
+    }
+    if (removedLines.length > 0) {
+      await executeCartMutation(config, CART_LINES_ADD_MUTATION, {
+        cartId,
+        lines: removedLines.map(toLineInput),
+      });
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Check if a cart line is a bundle expanded natively by Shopify
+ * (a ComponentizableCartLine with component lines)
+ */
+export function isComponentizedLine(
+  line: {
+    lineComponents?: unknown[];
+  },
+): boolean {
+  return Array.isArray(line.lineComponents) && line.lineComponents.length > 0;
+}
+
 /**
  * Check if a cart line is part of a bundle
  */
 export function isBundleLine(
   line: {
     attributes: Array<{ key: string; value: string }>;
+    lineComponents?: unknown[];
   },
 ): boolean {
+  if (isComponentizedLine(line)) return true;
+
   return line.attributes.some(
     (attr) => attr.key === BUNDLE_ATTRIBUTES.bundleParent && attr.value === 'true',
   );
@@ -284,8 +682,14 @@ export function getBundleInfoFromLine(
       attrs._bundleParent = attr.value;
     } else if (attr.key === BUNDLE_ATTRIBUTES.bundleProductId) {
       attrs._bundleProductId = attr.value;
+    } else if (attr.key === BUNDLE_ATTRIBUTES.bundleInstanceId) {
+      attrs._bundleInstanceId = attr.value;
     } else if (attr.key === BUNDLE_ATTRIBUTES.componentIndex) {
       attrs._bundleComponentIndex = attr.value;
+    } else if (attr.key === BUNDLE_ATTRIBUTES.componentProductId) {
+      attrs._bundleComponentProductId = attr.value;
+    } else if (attr.key === BUNDLE_ATTRIBUTES.componentQuantity) {
+      attrs._bundleComponentQuantity = attr.value;
     }
   }
 
@@ -294,50 +698,53 @@ export function getBundleInfoFromLine(
 
 /**
  * Group cart lines by bundle
+ *
+ * Exploded bundles are grouped per add by their `_bundle_instance_id`
+ * attribute, so the same bundle added twice with different selections stays
+ * two groups. Lines without an instance ID fall back to `_bundle_product_id`.
+ * Native bundles (ComponentizableCartLine) become a group keyed by the parent
+ * line ID, with the parent in `parentLine` and its components in `lines`.
  */
-export function groupCartLinesByBundle(
-  lines: Array<{
-    id: string;
-    quantity: number;
-    attributes: Array<{ key: string; value: string }>;
-    merchandise: {
-      id: string;
-      title: string;
-      product: { title: string };
-    };
-  }>,
-): Map<
-  string,
-  {
-    bundleProductId: string;
-    lines: typeof lines;
-  }
-> {
-  const groups = new Map<
-    string,
-    {
-      bundleProductId: string;
-      lines: typeof lines;
-    }
-  >();
+export function groupCartLinesByBundle<TLine extends BundleCartLine>(
+  lines: TLine[],
+): Map<string, BundleLineGroup<TLine>> {
+  const groups = new Map<string, BundleLineGroup<TLine>>();
 
   for (const line of lines) {
+    if (isComponentizedLine(line)) {
+      groups.set(line.id, {
+        bundleProductId: line.merchandise.product.id ?? line.merchandise.id,
+        // Component lines share the parent's fragment shape
+        lines: line.lineComponents as TLine[],
+        parentLine: line,
+      });
+      continue;
+    }
+
     if (!isBundleLine(line)) continue;
 
     const bundleInfo = getBundleInfoFromLine(line);
     const bundleId = bundleInfo._bundleProductId;
+    const instanceId = bundleInfo._bundleInstanceId;
 
     if (!bundleId) continue;
 
-    if (!groups.has(bundleId)) {
-      groups.set(bundleId, {
+    const groupKey = instanceId ?? bundleId;
+
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, {
         bundleProductId: bundleId,
+        instanceId,
         lines: [],
       });
     }
 
-    groups.get(bundleId)!.lines.push(line);
+    groups.get(groupKey)!.lines.push(line);
   }
 
+  groups.forEach((group) => {
+    group.bundleQuantity = getBundleQuantity(group);
+  });
+
   return groups;
 }
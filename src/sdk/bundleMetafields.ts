@@ -0,0 +1,344 @@
+/**
+ * Bundle metafields
+ *
+ * Reads bundle configuration from the product metafields fetched with
+ * BUNDLE_METAFIELDS_FRAGMENT. Metafields are authoritative: values that are
+ * present but invalid are ignored rather than guessed at.
+ */
+
+import type {
+  BundleComponent,
+  BundleComponentVariant,
+  BundleDiscountType,
+  BundlePricing,
+  BundlePricingTier,
+  BundleType,
+  ComponentPoolFilters,
+  ProductImage,
+} from '../types.js';
+import { BUNDLE_METAFIELD_KEYS } from '../utils/constants.js';
+
+/**
+ * Cursor pagination info of a Storefront API connection
+ */
+export interface StorefrontPageInfo {
+  hasNextPage: boolean;
+  endCursor?: string | null;
+}
+
+/**
+ * Product of a mix-and-match component pool (EligibleProductFragment)
+ */
+export interface StorefrontEligibleProduct {
+  id: string;
+  title: string;
+  handle: string;
+  productType?: string;
+  tags?: string[];
+  availableForSale: boolean;
+  featuredImage?: ProductImage;
+  variants: {
+    nodes: BundleComponentVariant[];
+    pageInfo?: StorefrontPageInfo;
+  };
+}
+
+/**
+ * Metafield as returned by the Storefront API
+ */
+export interface StorefrontMetafield {
+  key: string;
+  value: string;
+  type?: string;
+  /** Referenced products (`list.product_reference` metafields) */
+  references?: {
+    nodes: Array<StorefrontEligibleProduct | Record<string, never>>;
+  } | null;
+}
+
+/**
+ * Quantity limits of one mix-and-match component
+ */
+export type ComponentQuantityLimits = Pick<BundleComponent, 'minQuantity' | 'maxQuantity'>;
+
+/**
+ * Bundle settings read from metafields
+ */
+export interface BundleMetafieldSettings {
+  bundleType: BundleType;
+  minSelections?: number;
+  maxSelections?: number;
+  /** Limits by product GID or handle */
+  componentLimits: Record<string, ComponentQuantityLimits>;
+  /** Filters for the eligible products */
+  filters?: ComponentPoolFilters;
+  /** GID of the `eligible_collection` */
+  eligibleCollectionId?: string;
+}
+
+const DISCOUNT_TYPES: BundleDiscountType[] = [
+  'percentage',
+  'fixed_amount',
+  'fixed_price',
+  'tiered',
+  'custom',
+];
+
+const TIER_DISCOUNT_TYPES = ['percentage', 'fixed_amount', 'fixed_price'] as const;
+
+/**
+ * Index metafield values by key (metafields the product lacks are left out)
+ */
+export function getMetafieldValues(
+  metafields: Array<StorefrontMetafield | null> | undefined,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const metafield of metafields ?? []) {
+    if (metafield) values[metafield.key] = metafield.value;
+  }
+  return values;
+}
+
+/**
+ * Parse a non-negative number metafield
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Parse a non-negative integer (from a metafield or JSON value)
+ */
+function parseInteger(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Parse the `component_limits` JSON metafield
+ */
+function parseComponentLimits(value: string | undefined): Record<string, ComponentQuantityLimits> {
+  if (!value) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    return {};
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const limits: Record<string, ComponentQuantityLimits> = {};
+  for (const [product, item] of Object.entries(raw as Record<string, Record<string, unknown>>)) {
+    const minQuantity = parseInteger(item?.min_quantity);
+    const maxQuantity = parseInteger(item?.max_quantity);
+
+    // Skip contradictory limits rather than enforce either one
+    if (minQuantity !== undefined && maxQuantity !== undefined && minQuantity > maxQuantity) {
+      continue;
+    }
+
+    limits[product] = { minQuantity, maxQuantity };
+  }
+  return limits;
+}
+
+/**
+ * Parse a list of strings from a JSON value
+ */
+function parseStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value.filter((item): item is string => typeof item === 'string' && !!item);
+  return strings.length > 0 ? strings : undefined;
+}
+
+/**
+ * Parse the `eligible_filters` JSON metafield
+ */
+function parseFilters(value: string | undefined): ComponentPoolFilters | undefined {
+  if (!value) return undefined;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const filters: ComponentPoolFilters = {
+    tags: parseStringList(raw.tags),
+    productTypes: parseStringList(raw.product_types),
+    availableOnly: raw.available_only === true || undefined,
+  };
+  return filters.tags || filters.productTypes || filters.availableOnly ? filters : undefined;
+}
+
+/**
+ * Parse the `pricing_tiers` JSON metafield
+ */
+function parseTiers(value: string | undefined): BundlePricingTier[] | undefined {
+  if (!value) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) return undefined;
+
+  const tiers: BundlePricingTier[] = [];
+  for (const item of raw as Array<Record<string, unknown>>) {
+    const minQuantity = Number(item?.min_quantity);
+    const discountValue = Number(item?.discount_value);
+    const discountType = item?.discount_type ?? 'percentage';
+
+    if (
+      !Number.isInteger(minQuantity) ||
+      minQuantity < 1 ||
+      !Number.isFinite(discountValue) ||
+      discountValue < 0 ||
+      !TIER_DISCOUNT_TYPES.includes(discountType as (typeof TIER_DISCOUNT_TYPES)[number])
+    ) {
+      return undefined;
+    }
+
+    tiers.push({
+      minQuantity,
+      discountType: discountType as BundlePricingTier['discountType'],
+      discountValue,
+    });
+  }
+
+  return tiers.length > 0 ? tiers : undefined;
+}
+
+/**
+ * Read the discount rule from bundle metafields
+ *
+ * Returns null when the metafields are missing or invalid: an unknown
+ * `discount_type`, a missing or negative `discount_value`, or `tiered`
+ * without valid `pricing_tiers`.
+ *
+ * @param values - Metafield values by key (from getMetafieldValues)
+ */
+export function parsePricingMetafields(
+  values: Record<string, string>,
+): Pick<BundlePricing, 'discountType' | 'discountValue' | 'tiers'> | null {
+  const discountType = values[BUNDLE_METAFIELD_KEYS.discountType]?.trim() as BundleDiscountType;
+  if (!DISCOUNT_TYPES.includes(discountType)) return null;
+
+  switch (discountType) {
+    case 'tiered': {
+      const tiers = parseTiers(values[BUNDLE_METAFIELD_KEYS.pricingTiers]);
+      return tiers ? { discountType, tiers } : null;
+    }
+    case 'custom':
+      return { discountType };
+    default: {
+      const discountValue = parseNumber(values[BUNDLE_METAFIELD_KEYS.discountValue]);
+      if (discountValue === undefined) return null;
+      if (discountType === 'percentage' && discountValue > 100) return null;
+      return { discountType, discountValue };
+    }
+  }
+}
+
+/**
+ * Read the bundle type, selection limits, component limits and pool filters
+ * from bundle metafields
+ *
+ * Bundles without a valid `bundle_type` are fixed. A `max_selections` below
+ * `min_selections` is ignored.
+ *
+ * @param values - Metafield values by key (from getMetafieldValues)
+ */
+export function parseBundleMetafields(values: Record<string, string>): BundleMetafieldSettings {
+  const bundleType: BundleType =
+    values[BUNDLE_METAFIELD_KEYS.bundleType]?.trim() === 'mix_and_match'
+      ? 'mix_and_match'
+      : 'fixed';
+  const minSelections = parseInteger(values[BUNDLE_METAFIELD_KEYS.minSelections]);
+  const maxSelections = parseInteger(values[BUNDLE_METAFIELD_KEYS.maxSelections]);
+
+  return {
+    bundleType,
+    minSelections,
+    maxSelections:
+      maxSelections !== undefined && maxSelections >= (minSelections ?? 0)
+        ? maxSelections
+        : undefined,
+    componentLimits: parseComponentLimits(values[BUNDLE_METAFIELD_KEYS.componentLimits]),
+    filters: parseFilters(values[BUNDLE_METAFIELD_KEYS.eligibleFilters]),
+    eligibleCollectionId: values[BUNDLE_METAFIELD_KEYS.eligibleCollection]?.trim() || undefined,
+  };
+}
+
+/**
+ * Get the products the `eligible_products` metafield references (the first
+ * 50; use `eligible_collection` for larger pools)
+ */
+export function getEligibleProducts(
+  metafield: StorefrontMetafield | null | undefined,
+): StorefrontEligibleProduct[] {
+  return (metafield?.references?.nodes ?? []).filter(
+    (node): node is StorefrontEligibleProduct => 'id' in node,
+  );
+}
+
+/**
+ * Whether a product passes component pool filters
+ */
+export function matchesPoolFilters(
+  product: StorefrontEligibleProduct,
+  filters: ComponentPoolFilters = {},
+): boolean {
+  const includesAny = (wanted: string[] | undefined, values: string[]) =>
+    !wanted?.length ||
+    wanted.some((item) => values.some((value) => value.toLowerCase() === item.toLowerCase()));
+
+  return (
+    (!filters.availableOnly || product.availableForSale) &&
+    includesAny(filters.tags, product.tags ?? []) &&
+    includesAny(filters.productTypes, product.productType ? [product.productType] : [])
+  );
+}
+
+/**
+ * Build mix-and-match components from eligible products, with every variant
+ *
+ * Components start at their minimum quantity (or 1) and allow quantity
+ * selection unless limited to one. Products without variants are skipped.
+ *
+ * @param products - Eligible products (from getEligibleProducts)
+ * @param limits - Quantity limits by product GID or handle
+ */
+export function buildEligibleComponents(
+  products: StorefrontEligibleProduct[],
+  limits: Record<string, ComponentQuantityLimits> = {},
+): BundleComponent[] {
+  return products
+    .filter((product) => product.variants.nodes.length > 0)
+    .map((product) => {
+      const { minQuantity, maxQuantity } = limits[product.id] ?? limits[product.handle] ?? {};
+      const variants = product.variants.nodes;
+
+      return {
+        productId: product.id,
+        productTitle: product.title,
+        productHandle: product.handle,
+        productImage: product.featuredImage,
+        variants,
+        defaultVariantId: (variants.find((v) => v.availableForSale) ?? variants[0]!).id,
+        quantity: Math.max(minQuantity ?? 1, 1),
+        allowQuantitySelection: maxQuantity !== 1,
+        minQuantity,
+        maxQuantity,
+        required: false,
+      };
+    });
+}
@@ -6,14 +6,34 @@
 
 import type {
   BundleBridgeConfig,
+  BundleComponentVariant,
   BundleDefinition,
+  BundleMarket,
+  BundleNextTier,
   BundlePriceResult,
+  BundlePricing,
+  BundlePricingTier,
   BundleSelection,
   Money,
+  PriceAllocationStrategy,
 } from '../types.js';
 import { API_ENDPOINTS } from '../utils/constants.js';
-import { cachePrice, getCachedPrice } from '../utils/cache.js';
+import { cachePrice, getCachedDefinition, getCachedPrice } from '../utils/cache.js';
 import { parseApiError } from '../utils/errors.js';
+import { formatMessage, type BundleMessages } from '../utils/messages.js';
+import {
+  allocateMoney,
+  createMoney,
+  fromMinorUnits,
+  moneyToNumber,
+  multiplyMoney,
+  percentageOfMoney,
+  roundMoney,
+  subtractMoney,
+  sumMoney,
+  toMinorUnits,
+} from '../utils/money.js';
+import { fetchWithRetry, withMarket } from './storefrontClient.js';
 
 /**
  * Calculate price via hosted backend
@@ -22,18 +42,28 @@ async function calculatePriceFromBackend(
   bundleId: string,
   config: BundleBridgeConfig,
   selectedComponents?: BundleSelection[],
+  signal?: AbortSignal,
 ): Promise<BundlePriceResult> {
   const url = `${config.apiUrl}${API_ENDPOINTS.price.replace(':productId', encodeURIComponent(bundleId))}`;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-Key': config.apiKey!,
-      'X-Shop-Domain': config.storeDomain,
+  const response = await fetchWithRetry(
+    config,
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': config.apiKey!,
+        'X-Shop-Domain': config.storeDomain,
+      },
+      body: JSON.stringify({
+        selectedComponents,
+        country: config.country,
+        language: config.language,
+      }),
     },
-    body: JSON.stringify({ selectedComponents }),
-  });
+    { signal },
+  );
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -44,18 +74,102 @@ async function calculatePriceFromBackend(
   return data.price as BundlePriceResult;
 }
 
+/**
+ * Apply a percentage, fixed amount or fixed price discount
+ */
+function applyDiscount(
+  originalPrice: Money,
+  discountType: 'percentage' | 'fixed_amount' | 'fixed_price',
+  discountValue: number | undefined,
+): Money {
+  switch (discountType) {
+    case 'percentage':
+      return subtractMoney(originalPrice, percentageOfMoney(originalPrice, discountValue ?? 0));
+    case 'fixed_amount':
+      return subtractMoney(
+        originalPrice,
+        createMoney(discountValue ?? 0, originalPrice.currencyCode),
+      );
+    case 'fixed_price':
+      return discountValue !== undefined
+        ? createMoney(discountValue, originalPrice.currencyCode)
+        : originalPrice;
+  }
+}
+
+/**
+ * Tiers sorted by the item count that unlocks them
+ */
+function getSortedTiers(pricing: BundlePricing): BundlePricingTier[] {
+  return [...(pricing.tiers ?? [])].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/**
+ * Get the tier a number of selected items unlocks
+ *
+ * @param pricing - Bundle pricing (with `tiers`)
+ * @param itemCount - Total quantity of selected items
+ * @returns The highest unlocked tier, or null when none is reached
+ */
+export function getPricingTier(
+  pricing: BundlePricing,
+  itemCount: number,
+): BundlePricingTier | null {
+  const unlocked = getSortedTiers(pricing).filter((tier) => tier.minQuantity <= itemCount);
+  return unlocked[unlocked.length - 1] ?? null;
+}
+
+/**
+ * Get the next tier a selection can unlock
+ *
+ * @param pricing - Bundle pricing (with `tiers`)
+ * @param itemCount - Total quantity of selected items
+ * @returns The next tier and how many more items unlock it, or null at the top tier
+ *
+ * @example
+ * ```ts
+ * // Tiers: 3 items 10% off, 5 items 20% off
+ * getNextPricingTier(definition.pricing, 3);
+ * // → { tier: { minQuantity: 5, discountValue: 20 }, itemsNeeded: 2 }
+ * ```
+ */
+export function getNextPricingTier(
+  pricing: BundlePricing,
+  itemCount: number,
+): BundleNextTier | null {
+  if (pricing.discountType !== 'tiered') return null;
+
+  const tier = getSortedTiers(pricing).find((t) => t.minQuantity > itemCount);
+  return tier ? { tier, itemsNeeded: tier.minQuantity - itemCount } : null;
+}
+
 /**
  * Calculate price from bundle definition
+ *
+ * All arithmetic runs on integer minor units (see utils/money), so totals
+ * match Shopify's to the cent, yen or fils.
  */
 function calculatePriceFromDefinition(
   definition: BundleDefinition,
   selectedComponents?: BundleSelection[],
 ): BundlePriceResult {
-  const currencyCode = definition.pricing.currencyCode ?? 'USD';
-
   // Build component prices
   const componentPrices: BundlePriceResult['componentPrices'] = [];
-  let originalPriceTotal = 0;
+
+  const addComponentPrice = (
+    productId: string,
+    variant: BundleComponentVariant,
+    quantity: number,
+  ) => {
+    const unitPrice = roundMoney(variant.price);
+    componentPrices.push({
+      productId,
+      variantId: variant.id,
+      quantity,
+      unitPrice,
+      lineTotal: multiplyMoney(unitPrice, quantity),
+    });
+  };
 
   if (selectedComponents && selectedComponents.length > 0) {
     // Mix-and-match: use customer selections
@@ -66,20 +180,7 @@ function calculatePriceFromDefinition(
       const variant = component.variants.find((v) => v.id === selection.variantId);
       if (!variant) continue;
 
-      const unitPrice = parseFloat(variant.price.amount);
-      const lineTotal = unitPrice * selection.quantity;
-      originalPriceTotal += lineTotal;
-
-      componentPrices.push({
-        productId: selection.productId,
-        variantId: selection.variantId,
-        quantity: selection.quantity,
-        unitPrice: variant.price,
-        lineTotal: {
-          amount: lineTotal.toFixed(2),
-          currencyCode,
-        },
-      });
+      addComponentPrice(selection.productId, variant, selection.quantity);
     }
   } else {
     // Fixed bundle: use default variants from definition
@@ -88,71 +189,63 @@ function calculatePriceFromDefinition(
         component.variants[0];
       if (!variant) continue;
 
-      const unitPrice = parseFloat(variant.price.amount);
-      const lineTotal = unitPrice * component.quantity;
-      originalPriceTotal += lineTotal;
-
-      componentPrices.push({
-        productId: component.productId,
-        variantId: variant.id,
-        quantity: component.quantity,
-        unitPrice: variant.price,
-        lineTotal: {
-          amount: lineTotal.toFixed(2),
-          currencyCode,
-        },
-      });
+      addComponentPrice(component.productId, variant, component.quantity);
     }
   }
 
+  const currencyCode =
+    definition.pricing.currencyCode ?? componentPrices[0]?.unitPrice.currencyCode ?? 'USD';
+  const originalPrice = sumMoney(
+    componentPrices.map((c) => c.lineTotal),
+    currencyCode,
+  );
+
   // Calculate bundle price based on discount type
-  let bundlePriceAmount: number;
+  let bundlePrice: Money;
+  let appliedTier: BundlePricingTier | undefined;
 
   switch (definition.pricing.discountType) {
-    case 'percentage': {
-      const discountMultiplier = 1 - (definition.pricing.discountValue ?? 0) / 100;
-      bundlePriceAmount = originalPriceTotal * discountMultiplier;
-      break;
-    }
-    case 'fixed_amount': {
-      bundlePriceAmount = originalPriceTotal - (definition.pricing.discountValue ?? 0);
+    case 'percentage':
+    case 'fixed_amount':
+    case 'fixed_price': {
+      bundlePrice = applyDiscount(
+        originalPrice,
+        definition.pricing.discountType,
+        definition.pricing.discountValue,
+      );
       break;
     }
-    case 'fixed_price': {
-      bundlePriceAmount = definition.pricing.discountValue ?? originalPriceTotal;
+    case 'tiered': {
+      const itemCount = componentPrices.reduce((sum, c) => sum + c.quantity, 0);
+      appliedTier = getPricingTier(definition.pricing, itemCount) ?? undefined;
+      bundlePrice = appliedTier
+        ? applyDiscount(
+            originalPrice,
+            appliedTier.discountType ?? 'percentage',
+            appliedTier.discountValue,
+          )
+        : originalPrice;
       break;
     }
     case 'custom':
     default: {
       // For custom pricing, use the pre-calculated bundle price from definition
-      bundlePriceAmount = definition.pricing.bundlePrice
-        ? parseFloat(definition.pricing.bundlePrice.amount)
-        : originalPriceTotal;
+      bundlePrice = definition.pricing.bundlePrice
+        ? roundMoney(definition.pricing.bundlePrice)
+        : originalPrice;
       break;
     }
   }
 
   // Ensure bundle price isn't negative
-  bundlePriceAmount = Math.max(0, bundlePriceAmount);
+  if (toMinorUnits(bundlePrice) < 0) {
+    bundlePrice = fromMinorUnits(0, currencyCode);
+  }
 
-  const savingsAmount = originalPriceTotal - bundlePriceAmount;
+  const savings = subtractMoney(originalPrice, bundlePrice);
+  const originalMinorUnits = toMinorUnits(originalPrice);
   const savingsPercentage =
-    originalPriceTotal > 0 ? (savingsAmount / originalPriceTotal) * 100 : 0;
-
-  const originalPrice: Money = {
-    amount: originalPriceTotal.toFixed(2),
-    currencyCode,
-  };
-
-  const bundlePrice: Money = {
-    amount: bundlePriceAmount.toFixed(2),
-    currencyCode,
-  };
-
-  const savings: Money = {
-    amount: savingsAmount.toFixed(2),
-    currencyCode,
-  };
+    originalMinorUnits > 0 ? (toMinorUnits(savings) / originalMinorUnits) * 100 : 0;
 
   return {
     originalPrice,
@@ -160,6 +253,53 @@ function calculatePriceFromDefinition(
     savings,
     savingsPercentage,
     componentPrices,
+    appliedTier,
+  };
+}
+
+/**
+ * Split the bundle price across components
+ *
+ * Sets `allocatedTotal` on every component price: its share of
+ * `bundlePrice`, in whole minor units, with the rounding remainder assigned
+ * deterministically so allocations sum exactly to `bundlePrice` (see
+ * allocateMoney).
+ *
+ * @param priceResult - Price to allocate
+ * @param strategy - `proportional` to line totals, `equal` per component, or
+ *   `weighted` by `allocationWeight` times quantity
+ * @param definition - Bundle definition (for `weighted`)
+ */
+export function allocateBundlePrice(
+  priceResult: BundlePriceResult,
+  strategy: PriceAllocationStrategy = 'proportional',
+  definition?: BundleDefinition,
+): BundlePriceResult {
+  const weights = priceResult.componentPrices.map((componentPrice) => {
+    switch (strategy) {
+      case 'equal':
+        return 1;
+      case 'weighted': {
+        const component = definition?.components.find(
+          (c) => c.productId === componentPrice.productId,
+        );
+        return (component?.allocationWeight ?? 1) * componentPrice.quantity;
+      }
+      case 'proportional':
+      default:
+        return toMinorUnits(componentPrice.lineTotal);
+    }
+  });
+
+  const allocations = allocateMoney(priceResult.bundlePrice, weights);
+
+  return {
+    ...priceResult,
+    allocationStrategy: strategy,
+    componentPrices: priceResult.componentPrices.map((componentPrice, index) => ({
+      ...componentPrice,
+      allocatedTotal: allocations[index]!,
+    })),
   };
 }
 
@@ -171,22 +311,32 @@ function calculatePriceFromDefinition(
  *
  * @param bundleIdOrDefinition - Bundle ID or pre-fetched definition
  * @param config - BundleBridge configuration
- * @param options - Optional settings
+ * @param options - Optional settings (`country` and `language` override the configured market)
  */
 export async function calculateBundlePrice(
   bundleIdOrDefinition: string | BundleDefinition,
   config: BundleBridgeConfig,
-  options?: {
+  options?: BundleMarket & {
     /** Selected components for mix-and-match bundles */
     selectedComponents?: BundleSelection[];
     /** Skip cache */
     skipCache?: boolean;
+    /** Cancels the request */
+    signal?: AbortSignal;
+    /** How the bundle price is split across components (default: `config.priceAllocation`) */
+    allocationStrategy?: PriceAllocationStrategy;
   },
 ): Promise<BundlePriceResult> {
   const bundleId =
     typeof bundleIdOrDefinition === 'string'
       ? bundleIdOrDefinition
       : bundleIdOrDefinition.id;
+  const strategy = options?.allocationStrategy ?? config.priceAllocation ?? 'proportional';
+  const marketConfig = withMarket(config, options);
+  const knownDefinition =
+    typeof bundleIdOrDefinition === 'string'
+      ? (getCachedDefinition(bundleIdOrDefinition, marketConfig) ?? undefined)
+      : bundleIdOrDefinition;
 
   // Check cache first
   if (!options?.skipCache) {
@@ -196,9 +346,12 @@ export async function calculateBundlePrice(
         variantId: s.variantId,
         quantity: s.quantity,
       })),
+      marketConfig,
     );
     if (cached) {
-      return cached;
+      return cached.allocationStrategy === strategy
+        ? cached
+        : allocateBundlePrice(cached, strategy, knownDefinition);
     }
   }
 
@@ -208,20 +361,32 @@ export async function calculateBundlePrice(
     // Use hosted backend for authoritative pricing
     priceResult = await calculatePriceFromBackend(
       bundleId,
-      config,
+      marketConfig,
       options?.selectedComponents,
+      options?.signal,
     );
+
+    // Keep the backend's allocations when it made them with this strategy
+    if (priceResult.allocationStrategy !== strategy) {
+      priceResult = allocateBundlePrice(priceResult, strategy, knownDefinition);
+    }
   } else {
     // Calculate from definition
     let definition: BundleDefinition;
     if (typeof bundleIdOrDefinition === 'string') {
       const { resolveBundle } = await import('./resolveBundle.js');
-      definition = await resolveBundle(bundleIdOrDefinition, config);
+      definition = await resolveBundle(bundleIdOrDefinition, marketConfig, {
+        signal: options?.signal,
+      });
     } else {
       definition = bundleIdOrDefinition;
     }
 
-    priceResult = calculatePriceFromDefinition(definition, options?.selectedComponents);
+    priceResult = allocateBundlePrice(
+      calculatePriceFromDefinition(definition, options?.selectedComponents),
+      strategy,
+      definition,
+    );
   }
 
   // Cache the result
@@ -232,6 +397,7 @@ export async function calculateBundlePrice(
       variantId: s.variantId,
       quantity: s.quantity,
     })),
+    marketConfig,
   );
 
   return priceResult;
@@ -244,7 +410,48 @@ export function formatMoney(money: Money, locale = 'en-US'): string {
   return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency: money.currencyCode,
-  }).format(parseFloat(money.amount));
+  }).format(moneyToNumber(money));
+}
+
+/**
+ * Format the next tier for display (e.g. "Add 2 more to save 20%")
+ *
+ * @param nextTier - Next tier (from getNextPricingTier or useBundlePrice)
+ * @param currencyCode - Currency of fixed amount and fixed price tiers
+ * @param locale - Locale for price formatting
+ * @param messages - Message translations
+ */
+export function formatNextTier(
+  nextTier: BundleNextTier,
+  currencyCode: string,
+  locale = 'en-US',
+  messages?: BundleMessages,
+): string {
+  const { tier, itemsNeeded } = nextTier;
+  const formatValue = () => formatMoney(createMoney(tier.discountValue, currencyCode), locale);
+  const options = { messages, locale };
+
+  switch (tier.discountType ?? 'percentage') {
+    case 'fixed_amount':
+      return formatMessage(
+        'savings.nextTier.fixedAmount',
+        { count: itemsNeeded, value: formatValue() },
+        options,
+      );
+    case 'fixed_price':
+      return formatMessage(
+        'savings.nextTier.fixedPrice',
+        { count: itemsNeeded, quantity: tier.minQuantity, value: formatValue() },
+        options,
+      );
+    case 'percentage':
+    default:
+      return formatMessage(
+        'savings.nextTier.percentage',
+        { count: itemsNeeded, value: Math.round(tier.discountValue) },
+        options,
+      );
+  }
 }
 
 /**
@@ -254,8 +461,11 @@ export function formatSavings(
   savings: Money,
   percentage: number,
   locale = 'en-US',
+  messages?: BundleMessages,
 ): string {
-  const formattedAmount = formatMoney(savings, locale);
-  const formattedPercentage = `${Math.round(percentage)}%`;
-  return `Save ${formattedAmount} (${formattedPercentage})`;
+  return formatMessage(
+    'savings.amountAndPercentage',
+    { amount: formatMoney(savings, locale), percentage: `${Math.round(percentage)}%` },
+    { messages, locale },
+  );
 }
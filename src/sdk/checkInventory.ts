@@ -9,14 +9,16 @@ import type {
   BundleBridgeConfig,
   BundleDefinition,
   BundleInventory,
+  BundleMarket,
   BundleSelection,
   ComponentInventory,
   AvailabilityStatus,
 } from '../types.js';
 import { VARIANTS_INVENTORY_QUERY } from '../graphql/queries.js';
-import { API_ENDPOINTS, DEFAULT_API_VERSION } from '../utils/constants.js';
+import { API_ENDPOINTS } from '../utils/constants.js';
 import { cacheInventory, getCachedInventory } from '../utils/cache.js';
-import { createError, ERROR_CODES, parseApiError } from '../utils/errors.js';
+import { parseApiError } from '../utils/errors.js';
+import { fetchWithRetry, storefrontRequest, withMarket } from './storefrontClient.js';
 
 /**
  * Low stock threshold (configurable)
@@ -56,18 +58,28 @@ async function checkInventoryFromBackend(
   bundleId: string,
   config: BundleBridgeConfig,
   selectedComponents?: BundleSelection[],
+  signal?: AbortSignal,
 ): Promise<BundleInventory> {
   const url = `${config.apiUrl}${API_ENDPOINTS.inventory.replace(':productId', encodeURIComponent(bundleId))}`;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-Key': config.apiKey!,
-      'X-Shop-Domain': config.storeDomain,
+  const response = await fetchWithRetry(
+    config,
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': config.apiKey!,
+        'X-Shop-Domain': config.storeDomain,
+      },
+      body: JSON.stringify({
+        selectedComponents,
+        country: config.country,
+        language: config.language,
+      }),
     },
-    body: JSON.stringify({ selectedComponents }),
-  });
+    { signal },
+  );
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -85,14 +97,8 @@ async function checkInventoryFromStorefrontApi(
   definition: BundleDefinition,
   config: BundleBridgeConfig,
   selectedComponents?: BundleSelection[],
+  signal?: AbortSignal,
 ): Promise<BundleInventory> {
-  if (!config.storefrontAccessToken) {
-    throw createError(
-      ERROR_CODES.INVALID_CONFIG,
-      'storefrontAccessToken is required when not using hosted backend',
-    );
-  }
-
   // Determine which variants to check
   let variantsToCheck: Array<{ productId: string; variantId: string; quantity: number }>;
 
@@ -113,30 +119,14 @@ async function checkInventoryFromStorefrontApi(
   }
 
   // Query variant inventory
-  const apiVersion = config.apiVersion ?? DEFAULT_API_VERSION;
-  const url = `https://${config.storeDomain}/api/${apiVersion}/graphql.json`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Shopify-Storefront-Access-Token': config.storefrontAccessToken,
-    },
-    body: JSON.stringify({
-      query: VARIANTS_INVENTORY_QUERY,
-      variables: { ids: variantsToCheck.map((v) => v.variantId) },
-    }),
-  });
-
-  if (!response.ok) {
-    throw createError(ERROR_CODES.NETWORK_ERROR, `Storefront API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  if (data.errors) {
-    throw createError(ERROR_CODES.UNKNOWN_ERROR, data.errors[0]?.message ?? 'GraphQL error');
-  }
+  const data = await storefrontRequest<{
+    nodes: Array<{ id: string; availableForSale?: boolean; quantityAvailable?: number } | null>;
+  }>(
+    config,
+    VARIANTS_INVENTORY_QUERY,
+    { ids: variantsToCheck.map((v) => v.variantId) },
+    { signal, cache: config.storefrontCache?.inventory },
+  );
 
   // Build component inventory results
   const components: ComponentInventory[] = [];
@@ -144,9 +134,7 @@ async function checkInventoryFromStorefrontApi(
   let limitingComponent: ComponentInventory | undefined;
 
   for (const check of variantsToCheck) {
-    const variant = data.data?.nodes?.find(
-      (n: { id: string }) => n?.id === check.variantId,
-    );
+    const variant = data?.nodes?.find((n) => n?.id === check.variantId);
 
     const availableForSale = variant?.availableForSale ?? false;
     const quantityAvailable = variant?.quantityAvailable;
@@ -209,22 +197,25 @@ async function checkInventoryFromStorefrontApi(
  *
  * @param bundleIdOrDefinition - Bundle ID or pre-fetched definition
  * @param config - BundleBridge configuration
- * @param options - Optional settings
+ * @param options - Optional settings (`country` and `language` override the configured market)
  */
 export async function checkBundleInventory(
   bundleIdOrDefinition: string | BundleDefinition,
   config: BundleBridgeConfig,
-  options?: {
+  options?: BundleMarket & {
     /** Selected components for mix-and-match bundles */
     selectedComponents?: BundleSelection[];
     /** Skip cache and fetch fresh data */
     skipCache?: boolean;
+    /** Cancels the request */
+    signal?: AbortSignal;
   },
 ): Promise<BundleInventory> {
   const bundleId =
     typeof bundleIdOrDefinition === 'string'
       ? bundleIdOrDefinition
       : bundleIdOrDefinition.id;
+  const marketConfig = withMarket(config, options);
 
   // Check cache first
   if (!options?.skipCache) {
@@ -234,6 +225,7 @@ export async function checkBundleInventory(
         variantId: s.variantId,
         quantity: s.quantity,
       })),
+      marketConfig,
     );
     if (cached) {
       return cached;
@@ -246,8 +238,9 @@ export async function checkBundleInventory(
     // Use hosted backend
     inventory = await checkInventoryFromBackend(
       bundleId,
-      config,
+      marketConfig,
       options?.selectedComponents,
+      options?.signal,
     );
   } else {
     // Use Storefront API directly (requires definition)
@@ -255,15 +248,18 @@ export async function checkBundleInventory(
     if (typeof bundleIdOrDefinition === 'string') {
       // Need to import dynamically to avoid circular dependency
       const { resolveBundle } = await import('./resolveBundle.js');
-      definition = await resolveBundle(bundleIdOrDefinition, config);
+      definition = await resolveBundle(bundleIdOrDefinition, marketConfig, {
+        signal: options?.signal,
+      });
     } else {
       definition = bundleIdOrDefinition;
     }
 
     inventory = await checkInventoryFromStorefrontApi(
       definition,
-      config,
+      marketConfig,
       options?.selectedComponents,
+      options?.signal,
     );
   }
 
@@ -275,6 +271,7 @@ export async function checkBundleInventory(
       variantId: s.variantId,
       quantity: s.quantity,
     })),
+    marketConfig,
   );
 
   return inventory;
@@ -0,0 +1,151 @@
+/**
+ * Hydrogen cart action handling
+ *
+ * Translates the bundle intents posted by BundleCartForm into calls on
+ * Hydrogen's cart handler, so bundles go through the same cart session and
+ * optimistic UI as every other cart change.
+ */
+
+import type {
+  BundleAddMode,
+  BundleBridgeConfig,
+  BundleSelection,
+  HydrogenCartHandler,
+} from '../types.js';
+import { BUNDLE_CART_ACTIONS, CART_FORM_INPUT_FIELD } from '../utils/constants.js';
+import { createError, ERROR_CODES } from '../utils/errors.js';
+import { validateBundleSelection } from '../utils/validation.js';
+import { buildBundleCartLines } from './buildCartMutation.js';
+import { resolveBundle } from './resolveBundle.js';
+
+/**
+ * CartForm action and inputs (as returned by Hydrogen's `CartForm.getFormInput`)
+ */
+export interface CartFormInput {
+  action: string;
+  inputs?: Record<string, unknown>;
+}
+
+/**
+ * Inputs of a bundle add intent
+ */
+export interface BundleAddInputs {
+  bundleId: string;
+  selectedComponents?: BundleSelection[];
+  quantity?: number;
+  customAttributes?: Record<string, string>;
+  addMode?: BundleAddMode;
+}
+
+/**
+ * Read the CartForm input from a form post
+ */
+function getFormInput(formData: FormData): CartFormInput | null {
+  const value = formData.get(CART_FORM_INPUT_FIELD);
+  if (typeof value !== 'string') return null;
+
+  try {
+    return JSON.parse(value) as CartFormInput;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle a bundle cart action in a Hydrogen cart route
+ *
+ * - `CustomBundleAdd` resolves the bundle, validates the selection and adds
+ *   the lines from buildBundleCartLines with `cart.addLines`
+ * - `CustomBundleRemove` removes the bundle's lines with `cart.removeLines`
+ * - `CustomBundleUpdate` sets new line quantities with `cart.updateLines`
+ *
+ * Returns the cart handler's result, or null when the action is not a bundle
+ * action. Throws a BundleBridgeError for a missing bundle or invalid selection.
+ *
+ * @param cart - Hydrogen cart handler (`context.cart`)
+ * @param input - Form data, or the output of `CartForm.getFormInput`
+ * @param config - BundleBridge configuration (e.g. with `storefront: context.storefront`)
+ *
+ * @example
+ * ```ts
+ * // app/routes/cart.tsx
+ * export async function action({ request, context }: ActionFunctionArgs) {
+ *   const { cart, storefront, env } = context;
+ *   const formData = await request.formData();
+ *   const { action, inputs } = CartForm.getFormInput(formData);
+ *
+ *   let result = await handleBundleCartAction(cart, { action, inputs }, {
+ *     storeDomain: env.PUBLIC_STORE_DOMAIN,
+ *     storefront,
+ *   });
+ *
+ *   if (!result) {
+ *     switch (action) {
+ *       case CartForm.ACTIONS.LinesAdd:
+ *         result = await cart.addLines(inputs.lines);
+ *         break;
+ *       // ...the route's other CartForm actions
+ *     }
+ *   }
+ *
+ *   const headers = cart.setCartId(result.cart.id);
+ *   return data(result, { headers });
+ * }
+ * ```
+ */
+export async function handleBundleCartAction<TResult>(
+  cart: HydrogenCartHandler<TResult>,
+  input: FormData | CartFormInput,
+  config: BundleBridgeConfig,
+): Promise<TResult | null> {
+  const formInput = input instanceof FormData ? getFormInput(input) : input;
+  if (!formInput) return null;
+
+  const inputs = formInput.inputs ?? {};
+
+  switch (formInput.action) {
+    case BUNDLE_CART_ACTIONS.add: {
+      const { bundleId, selectedComponents, quantity, customAttributes, addMode } =
+        inputs as Partial<BundleAddInputs>;
+
+      if (!bundleId) {
+        throw createError(ERROR_CODES.INVALID_SELECTION, { key: 'validation.bundleIdRequired' });
+      }
+
+      const definition = await resolveBundle(bundleId, config);
+
+      if (definition.bundleType === 'mix_and_match') {
+        const validation = validateBundleSelection(definition, selectedComponents ?? []);
+        if (!validation.valid) {
+          throw createError(
+            ERROR_CODES.INVALID_SELECTION,
+            validation.errorKey && { key: validation.errorKey, params: validation.errorParams },
+          );
+        }
+      }
+
+      const lines = buildBundleCartLines(definition, {
+        bundleId: definition.id,
+        selectedComponents,
+        quantity,
+        customAttributes,
+        addMode: addMode ?? config.addMode,
+      });
+
+      return cart.addLines(lines);
+    }
+
+    case BUNDLE_CART_ACTIONS.remove: {
+      const { lineIds } = inputs as { lineIds?: string[] };
+      return cart.removeLines(lineIds ?? []);
+    }
+
+    case BUNDLE_CART_ACTIONS.update: {
+      const { lines } = inputs as { lines?: Array<{ id: string; quantity: number }> };
+      return cart.updateLines(lines ?? []);
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Server helpers for bundle pages
+ *
+ * Remix/Hydrogen loader and action helpers: load everything a bundle page
+ * needs in one call, and add a bundle to the cart from a plain form post so
+ * add-to-cart works without JavaScript.
+ */
+
+import type {
+  AddBundleResult,
+  BundleBridgeConfig,
+  BundleDefinition,
+  BundleInventory,
+  BundlePriceResult,
+  BundleSelection,
+  HydrogenStorefrontClient,
+} from '../types.js';
+import { BUNDLE_FORM_FIELDS } from '../utils/constants.js';
+import { getErrorResult } from '../utils/errors.js';
+import { formatMessage } from '../utils/messages.js';
+import { addBundleToCart } from './buildCartMutation.js';
+import { calculateBundlePrice } from './calculatePrice.js';
+import { checkBundleInventory } from './checkInventory.js';
+import { resolveBundle } from './resolveBundle.js';
+
+/**
+ * Loader/action context (a Hydrogen app load context satisfies this)
+ */
+export interface BundleServerContext {
+  /** Hydrogen storefront client */
+  storefront?: HydrogenStorefrontClient;
+  /** Hydrogen cart handler (its `setCartId` persists carts created by an action) */
+  cart?: {
+    setCartId: (cartId: string) => Headers;
+  };
+  /** Environment variables (`PUBLIC_STORE_DOMAIN` is used as storeDomain) */
+  env?: {
+    PUBLIC_STORE_DOMAIN?: string;
+  };
+}
+
+/**
+ * Data for a server-rendered bundle page
+ *
+ * Pass each field to the matching hook's `initialData` to hydrate without
+ * client fetches.
+ */
+export interface BundlePageData {
+  /** Bundle definition (for useBundleDefinition) */
+  definition: BundleDefinition;
+  /** Inventory, or null when the check failed (for useBundleInventory) */
+  inventory: BundleInventory | null;
+  /** Price, or null when the calculation failed (for useBundlePrice) */
+  price: BundlePriceResult | null;
+}
+
+/**
+ * Build the configuration for a loader or action (in the storefront's
+ * `i18n` market unless the config sets one)
+ */
+function getServerConfig(
+  context: BundleServerContext,
+  config?: Partial<BundleBridgeConfig>,
+): BundleBridgeConfig {
+  return {
+    storeDomain: context.env?.PUBLIC_STORE_DOMAIN ?? '',
+    storefront: context.storefront,
+    country: context.storefront?.i18n?.country,
+    language: context.storefront?.i18n?.language,
+    ...config,
+  };
+}
+
+/**
+ * Load the definition, inventory and price of a bundle page
+ *
+ * With the hosted backend all three load in parallel; otherwise inventory
+ * and price load in parallel once the definition is resolved. Inventory and
+ * price failures resolve to null so the page still renders; a missing bundle
+ * throws a BundleBridgeError with code BUNDLE_NOT_FOUND.
+ *
+ * @param request - Loader request (its signal cancels the requests)
+ * @param context - Loader context
+ * @param handle - Bundle product handle or ID
+ * @param options - Configuration overrides and initial selections
+ *
+ * @example
+ * ```ts
+ * export async function loader({ request, context, params }: LoaderFunctionArgs) {
+ *   return loadBundlePageData(request, context, params.handle!);
+ * }
+ *
+ * export default function BundlePage() {
+ *   const data = useLoaderData<typeof loader>();
+ *   const { definition } = useBundleDefinition({
+ *     bundleId: data.definition.id,
+ *     config,
+ *     initialData: data.definition,
+ *   });
+ *   const { isAvailable } = useBundleInventory({
+ *     definition,
+ *     config,
+ *     initialData: data.inventory ?? undefined,
+ *   });
+ * }
+ * ```
+ */
+export async function loadBundlePageData(
+  request: Request,
+  context: BundleServerContext,
+  handle: string,
+  options?: {
+    /** Configuration (merged over the context's storefront, store domain and market) */
+    config?: Partial<BundleBridgeConfig>;
+    /** Selections to price and check (defaults to the bundle's components) */
+    selectedComponents?: BundleSelection[];
+  },
+): Promise<BundlePageData> {
+  const config = getServerConfig(context, options?.config);
+  const { signal } = request;
+  const selectedComponents = options?.selectedComponents;
+
+  const settle = <T>(promise: Promise<T>): Promise<T | null> =>
+    promise.catch(() => null);
+
+  if (config.apiKey && config.apiUrl) {
+    // The backend resolves inventory and price from the bundle ID alone
+    const [definition, inventory, price] = await Promise.all([
+      resolveBundle(handle, config, { signal }),
+      settle(checkBundleInventory(handle, config, { selectedComponents, signal })),
+      settle(calculateBundlePrice(handle, config, { selectedComponents, signal })),
+    ]);
+
+    return { definition, inventory, price };
+  }
+
+  const definition = await resolveBundle(handle, config, { signal });
+  const [inventory, price] = await Promise.all([
+    settle(checkBundleInventory(definition, config, { selectedComponents, signal })),
+    settle(calculateBundlePrice(definition, config, { selectedComponents, signal })),
+  ]);
+
+  return { definition, inventory, price };
+}
+
+/**
+ * Parse a JSON form field
+ */
+function parseJsonField<T>(value: FormDataEntryValue | null): T | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a redirect target against the request, keeping it only when it
+ * stays on the request's origin (browsers read `/\host` as `//host`)
+ *
+ * @returns The path to redirect to, or undefined for other origins
+ */
+function getSafeRedirect(path: string, requestUrl: string): string | undefined {
+  if (!path.startsWith('/') || path.includes('\\')) return undefined;
+
+  try {
+    const origin = new URL(requestUrl).origin;
+    const url = new URL(path, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add a bundle to the cart from a form post
+ *
+ * Reads the fields in BUNDLE_FORM_FIELDS (as posted by
+ * `<BundleAddToCart action="...">`). On success, redirects (303) to the
+ * posted `redirectTo` path or `options.redirectTo`, so the form works
+ * without JavaScript; otherwise returns the AddBundleResult.
+ *
+ * Without a posted cart ID the bundle goes into a new cart. Its ID is
+ * persisted with `options.setCartId` or `context.cart.setCartId`, whose
+ * headers (the cart cookie) are added to the redirect. When neither is
+ * available the result is returned instead, so the caller can store
+ * `result.cart.id`.
+ *
+ * @param request - Action request
+ * @param context - Action context
+ * @param options - Configuration overrides and default redirect
+ *
+ * @example
+ * ```ts
+ * export async function action({ request, context }: ActionFunctionArgs) {
+ *   return handleBundleAddToCartAction(request, context, { redirectTo: '/cart' });
+ * }
+ * ```
+ */
+export async function handleBundleAddToCartAction(
+  request: Request,
+  context: BundleServerContext,
+  options?: {
+    /** Configuration (merged over the context's storefront, store domain and market) */
+    config?: Partial<BundleBridgeConfig>;
+    /** Path to redirect to after a successful add */
+    redirectTo?: string;
+    /** Persist a newly created cart (default: `context.cart.setCartId`) */
+    setCartId?: (cartId: string) => Headers;
+  },
+): Promise<AddBundleResult | Response> {
+  const config = getServerConfig(context, options?.config);
+  const formData = await request.formData();
+
+  const bundleId = formData.get(BUNDLE_FORM_FIELDS.bundleId);
+  if (typeof bundleId !== 'string' || !bundleId) {
+    return {
+      success: false,
+      error: formatMessage('validation.bundleIdRequired'),
+      errorKey: 'validation.bundleIdRequired',
+    };
+  }
+
+  const quantity = Number(formData.get(BUNDLE_FORM_FIELDS.quantity) ?? 1);
+  const postedCartId = formData.get(BUNDLE_FORM_FIELDS.cartId);
+  const cartId = typeof postedCartId === 'string' && postedCartId ? postedCartId : undefined;
+  const addMode = formData.get(BUNDLE_FORM_FIELDS.addMode);
+  const redirectTo = formData.get(BUNDLE_FORM_FIELDS.redirectTo) ?? options?.redirectTo;
+
+  let result: AddBundleResult;
+
+  try {
+    const definition = await resolveBundle(bundleId, config, { signal: request.signal });
+
+    result = await addBundleToCart(definition, config, {
+      bundleId: definition.id,
+      quantity: Number.isInteger(quantity) && quantity > 0 ? quantity : 1,
+      cartId,
+      selectedComponents: parseJsonField<BundleSelection[]>(
+        formData.get(BUNDLE_FORM_FIELDS.selectedComponents),
+      ),
+      customAttributes: parseJsonField<Record<string, string>>(
+        formData.get(BUNDLE_FORM_FIELDS.customAttributes),
+      ),
+      addMode: addMode === 'native' || addMode === 'exploded' ? addMode : undefined,
+    });
+  } catch (err) {
+    return { success: false, ...getErrorResult(err) };
+  }
+
+  const location =
+    typeof redirectTo === 'string' ? getSafeRedirect(redirectTo, request.url) : undefined;
+  if (!result.success || !location) return result;
+
+  const headers = new Headers();
+  if (!cartId) {
+    const setCartId = options?.setCartId ?? context.cart?.setCartId;
+    if (!setCartId || !result.cart) return result;
+
+    setCartId(result.cart.id).forEach((value, key) => headers.append(key, value));
+  }
+  headers.set('Location', location);
+
+  return new Response(null, { status: 303, headers });
+}
@@ -0,0 +1,163 @@
+/**
+ * Mix-and-match component pools
+ *
+ * Loads the products customers pick from, following product and variant
+ * cursors until every page is loaded, so large build-a-box collections are
+ * never cut off at the first page.
+ */
+
+import type { BundleBridgeConfig, BundleComponent, ComponentPoolFilters } from '../types.js';
+import { COLLECTION_PRODUCTS_QUERY, PRODUCT_VARIANTS_QUERY } from '../graphql/queries.js';
+import { COMPONENT_POOL_PAGE_SIZE } from '../utils/constants.js';
+import { createError, ERROR_CODES } from '../utils/errors.js';
+import { isValidGid } from '../utils/validation.js';
+import {
+  buildEligibleComponents,
+  matchesPoolFilters,
+  type ComponentQuantityLimits,
+  type StorefrontEligibleProduct,
+  type StorefrontPageInfo,
+} from './bundleMetafields.js';
+import { storefrontRequest } from './storefrontClient.js';
+
+/**
+ * Options for loading a component pool
+ */
+export interface ComponentPoolOptions {
+  /** Products to keep */
+  filters?: ComponentPoolFilters;
+  /** Quantity limits by product GID or handle */
+  limits?: Record<string, ComponentQuantityLimits>;
+  /** Cancels the requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Load the variants of a product beyond its first page
+ */
+async function loadRemainingVariants(
+  product: StorefrontEligibleProduct,
+  config: BundleBridgeConfig,
+  signal?: AbortSignal,
+): Promise<StorefrontEligibleProduct> {
+  const variants = [...product.variants.nodes];
+  let pageInfo = product.variants.pageInfo;
+
+  while (pageInfo?.hasNextPage && pageInfo.endCursor) {
+    const data = await storefrontRequest<{
+      product: {
+        variants: {
+          nodes: StorefrontEligibleProduct['variants']['nodes'];
+          pageInfo: StorefrontPageInfo;
+        };
+      } | null;
+    }>(
+      config,
+      PRODUCT_VARIANTS_QUERY,
+      { id: product.id, first: COMPONENT_POOL_PAGE_SIZE.variants, after: pageInfo.endCursor },
+      { signal, cache: config.storefrontCache?.definition },
+    );
+
+    if (!data?.product) break;
+    variants.push(...data.product.variants.nodes);
+    pageInfo = data.product.variants.pageInfo;
+  }
+
+  return { ...product, variants: { nodes: variants } };
+}
+
+/**
+ * Complete and filter pool products: loads every variant of the products
+ * that pass the filters
+ *
+ * @param products - Products with their first page of variants
+ * @param config - BundleBridge configuration
+ * @param options - Filters and abort signal
+ */
+export async function completePoolProducts(
+  products: StorefrontEligibleProduct[],
+  config: BundleBridgeConfig,
+  options: Pick<ComponentPoolOptions, 'filters' | 'signal'> = {},
+): Promise<StorefrontEligibleProduct[]> {
+  const matching = products.filter((product) => matchesPoolFilters(product, options.filters));
+
+  // One product at a time: most products have a single variant page
+  const completed: StorefrontEligibleProduct[] = [];
+  for (const product of matching) {
+    completed.push(await loadRemainingVariants(product, config, options.signal));
+  }
+  return completed;
+}
+
+/**
+ * Load every product of a collection, with all variants, that passes the
+ * filters
+ *
+ * @param collection - Collection GID or handle
+ * @param config - BundleBridge configuration
+ * @param options - Filters and abort signal
+ */
+export async function loadCollectionProducts(
+  collection: string,
+  config: BundleBridgeConfig,
+  options: Pick<ComponentPoolOptions, 'filters' | 'signal'> = {},
+): Promise<StorefrontEligibleProduct[]> {
+  const collectionVariables = isValidGid(collection) ? { id: collection } : { handle: collection };
+  const products: StorefrontEligibleProduct[] = [];
+  let after: string | null | undefined = null;
+
+  do {
+    const data: {
+      collection: {
+        products: { nodes: StorefrontEligibleProduct[]; pageInfo: StorefrontPageInfo };
+      } | null;
+    } = await storefrontRequest(
+      config,
+      COLLECTION_PRODUCTS_QUERY,
+      { ...collectionVariables, first: COMPONENT_POOL_PAGE_SIZE.products, after },
+      { signal: options.signal, cache: config.storefrontCache?.definition },
+    );
+
+    if (!data?.collection) {
+      throw createError(ERROR_CODES.BUNDLE_NOT_FOUND, {
+        key: 'errors.collectionNotFound',
+        params: { collection },
+      });
+    }
+
+    const { nodes, pageInfo } = data.collection.products;
+    products.push(...nodes);
+    after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (after);
+
+  return completePoolProducts(products, config, options);
+}
+
+/**
+ * Load a collection as mix-and-match components, with every product and
+ * variant
+ *
+ * Use it to build the pool of a bundle defined in code, or to replace the
+ * components of a resolved definition.
+ *
+ * @param collection - Collection GID or handle
+ * @param config - BundleBridge configuration
+ * @param options - Filters, quantity limits and abort signal
+ *
+ * @example
+ * ```ts
+ * const components = await loadCollectionComponents('build-a-box', config, {
+ *   filters: { tags: ['box-eligible'], availableOnly: true },
+ * });
+ *
+ * const definition = { ...baseDefinition, bundleType: 'mix_and_match', components };
+ * ```
+ */
+export async function loadCollectionComponents(
+  collection: string,
+  config: BundleBridgeConfig,
+  options: ComponentPoolOptions = {},
+): Promise<BundleComponent[]> {
+  const products = await loadCollectionProducts(collection, config, options);
+  return buildEligibleComponents(products, options.limits);
+}
@@ -0,0 +1,390 @@
+/**
+ * Optimistic cart updates
+ *
+ * Pending bundle adds, removals and quantity changes, applied on top of the
+ * app's cart lines so useBundleLines reflects a change before the cart
+ * mutation returns. Adds are shown as lines synthesized from the bundle
+ * definition and price, then as the real lines from the mutation response
+ * until the app's cart includes them. Failed changes are rolled back.
+ */
+
+import type {
+  AddBundleInput,
+  BundleCartLine,
+  BundleComponentVariant,
+  BundleDefinition,
+  BundlePriceResult,
+  OptimisticCartLine,
+} from '../types.js';
+import { OPTIMISTIC_UPDATE_TTL } from '../utils/constants.js';
+import { multiplyMoney, sumMoney } from '../utils/money.js';
+import {
+  buildBundleCartLines,
+  createBundleInstanceId,
+  getBundleInfoFromLine,
+  resolveAddMode,
+} from './buildCartMutation.js';
+
+/**
+ * A cart change shown before the app's cart reflects it
+ */
+export type OptimisticOperation =
+  | {
+      id: string;
+      type: 'add';
+      /** Synthesized lines */
+      lines: OptimisticCartLine[];
+      /** Lines from the mutation response (once confirmed) */
+      confirmedLines?: OptimisticCartLine[];
+      confirmed: boolean;
+    }
+  | {
+      id: string;
+      type: 'remove';
+      lineIds: string[];
+      confirmed: boolean;
+    }
+  | {
+      id: string;
+      type: 'update';
+      lines: Array<{ id: string; quantity: number }>;
+      confirmed: boolean;
+    };
+
+/**
+ * Operation as registered (before it gets an ID)
+ */
+export type OptimisticOperationInput =
+  | { type: 'add'; lines: OptimisticCartLine[] }
+  | { type: 'remove'; lineIds: string[] }
+  | { type: 'update'; lines: Array<{ id: string; quantity: number }> };
+
+/** Prefix of synthesized line IDs */
+const OPTIMISTIC_LINE_PREFIX = 'optimistic:';
+
+// Pending operations (replaced, never mutated, so it can be a store snapshot)
+let operations: OptimisticOperation[] = [];
+let nextOperationId = 0;
+const listeners = new Set<() => void>();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Replace the operations and notify subscribers
+ */
+function setOperations(next: OptimisticOperation[]): void {
+  operations = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Find a component variant in a bundle definition
+ */
+function findVariant(
+  definition: BundleDefinition,
+  variantId: string,
+): { component: BundleDefinition['components'][number]; variant: BundleComponentVariant } | null {
+  for (const component of definition.components) {
+    const variant = component.variants.find((v) => v.id === variantId);
+    if (variant) return { component, variant };
+  }
+  return null;
+}
+
+/**
+ * Synthesize the cart line of one component
+ */
+function buildComponentLine(
+  definition: BundleDefinition,
+  line: ReturnType<typeof buildBundleCartLines>[number],
+  id: string,
+  priceResult?: BundlePriceResult,
+): OptimisticCartLine | null {
+  const match = findVariant(definition, line.merchandiseId);
+  if (!match) return null;
+
+  const { component, variant } = match;
+  const unitPrice =
+    priceResult?.componentPrices.find((c) => c.variantId === variant.id)?.unitPrice ??
+    variant.price;
+
+  return {
+    id,
+    quantity: line.quantity,
+    merchandise: {
+      id: variant.id,
+      title: variant.title,
+      image: variant.image ?? component.productImage,
+      price: unitPrice,
+      product: {
+        id: component.productId,
+        title: component.productTitle,
+        handle: component.productHandle,
+      },
+    },
+    attributes: line.attributes,
+    cost: {
+      totalAmount: multiplyMoney(unitPrice, line.quantity),
+    },
+    isOptimistic: true,
+  };
+}
+
+/**
+ * Build the lines a bundle add will create, for display before the cart
+ * mutation returns
+ *
+ * Exploded bundles get one line per component, carrying the same attributes
+ * (and instance ID) as the lines buildBundleCartLines sends. Native bundles
+ * get a parent line with the components in `lineComponents`, like the
+ * ComponentizableCartLine Shopify returns. Prices come from the price result
+ * when given, otherwise from the variants.
+ *
+ * @param definition - Bundle definition (from resolveBundle)
+ * @param input - Add to cart input (pass the same instanceId to addBundleToCart)
+ * @param priceResult - Bundle price (from useBundlePrice)
+ */
+export function buildOptimisticBundleLines(
+  definition: BundleDefinition,
+  input: AddBundleInput,
+  priceResult?: BundlePriceResult,
+): OptimisticCartLine[] {
+  const instanceId = input.instanceId ?? createBundleInstanceId();
+  const quantity = input.quantity ?? 1;
+  const lineId = (suffix: string | number) =>
+    `${OPTIMISTIC_LINE_PREFIX}${instanceId}:${suffix}`;
+
+  if (resolveAddMode(definition, input.addMode) === 'native') {
+    const [parent] = buildBundleCartLines(definition, { ...input, instanceId });
+    // Component lines as Shopify expands them, for one bundle
+    const components = buildBundleCartLines(definition, {
+      ...input,
+      instanceId,
+      quantity,
+      addMode: 'exploded',
+    })
+      .map((line, index) => buildComponentLine(definition, line, lineId(index), priceResult))
+      .filter((line): line is OptimisticCartLine => line !== null);
+
+    const componentTotal = sumMoney(
+      components.map((line) => line.cost.totalAmount),
+      components[0]?.cost.totalAmount.currencyCode ?? 'USD',
+    );
+    const unitPrice =
+      priceResult?.bundlePrice ?? definition.pricing.bundlePrice ?? componentTotal;
+
+    return [
+      {
+        id: lineId('parent'),
+        quantity,
+        merchandise: {
+          id: parent!.merchandiseId,
+          title: definition.title,
+          image: definition.featuredImage,
+          price: unitPrice,
+          product: {
+            id: definition.id,
+            title: definition.title,
+            handle: definition.handle,
+          },
+        },
+        attributes: parent!.attributes,
+        cost: {
+          totalAmount: multiplyMoney(unitPrice, quantity),
+        },
+        lineComponents: components,
+        isOptimistic: true,
+      },
+    ];
+  }
+
+  return buildBundleCartLines(definition, { ...input, instanceId })
+    .map((line, index) => buildComponentLine(definition, line, lineId(index), priceResult))
+    .filter((line): line is OptimisticCartLine => line !== null);
+}
+
+/**
+ * Whether a line ID belongs to a synthesized line
+ */
+export function isOptimisticLineId(id: string): boolean {
+  return id.startsWith(OPTIMISTIC_LINE_PREFIX);
+}
+
+/**
+ * Pick the lines of a mutation response that an add created or changed
+ */
+function getConfirmedLines(
+  operation: Extract<OptimisticOperation, { type: 'add' }>,
+  cartLines: BundleCartLine[],
+): OptimisticCartLine[] {
+  const instanceIds = new Set(
+    operation.lines.map((line) => getBundleInfoFromLine(line)._bundleInstanceId),
+  );
+  const parentVariantIds = new Set(
+    operation.lines.filter((line) => line.lineComponents).map((line) => line.merchandise.id),
+  );
+
+  // Response lines come from CART_FRAGMENT, which has the optimistic line shape
+  return (cartLines as OptimisticCartLine[]).filter((line) =>
+    parentVariantIds.size > 0
+      ? parentVariantIds.has(line.merchandise.id)
+      : instanceIds.has(getBundleInfoFromLine(line)._bundleInstanceId),
+  );
+}
+
+/**
+ * Whether the app's cart lines already reflect an operation
+ */
+function isReconciled(operation: OptimisticOperation, lines: BundleCartLine[]): boolean {
+  const quantities = new Map(lines.map((line) => [line.id, line.quantity]));
+
+  switch (operation.type) {
+    case 'add':
+      return (
+        !!operation.confirmedLines &&
+        operation.confirmedLines.every((line) => quantities.get(line.id) === line.quantity)
+      );
+    case 'remove':
+      return operation.lineIds.every((id) => !quantities.has(id));
+    case 'update':
+      return operation.lines.every(
+        (line) => !quantities.has(line.id) || quantities.get(line.id) === line.quantity,
+      );
+  }
+}
+
+/**
+ * Apply pending operations to cart lines, in the order they were made
+ *
+ * Operations the lines already reflect are skipped. Unconfirmed adds append
+ * their synthesized lines; confirmed adds replace or append the lines from
+ * the mutation response.
+ *
+ * @param lines - The app's cart lines
+ * @param pending - Operations (default: every pending operation)
+ */
+export function applyOptimisticOperations<TLine extends BundleCartLine>(
+  lines: TLine[],
+  pending: OptimisticOperation[] = operations,
+): Array<TLine | OptimisticCartLine> {
+  let result: Array<TLine | OptimisticCartLine> = lines;
+
+  for (const operation of pending) {
+    if (isReconciled(operation, lines)) continue;
+
+    switch (operation.type) {
+      case 'add': {
+        const added = operation.confirmedLines ?? operation.lines;
+        const addedIds = new Set(added.map((line) => line.id));
+        result = [...result.filter((line) => !addedIds.has(line.id)), ...added];
+        break;
+      }
+      case 'remove': {
+        const removedIds = new Set(operation.lineIds);
+        result = result.filter((line) => !removedIds.has(line.id));
+        break;
+      }
+      case 'update': {
+        const updates = new Map(operation.lines.map((line) => [line.id, line.quantity]));
+        result = result
+          .filter((line) => updates.get(line.id) !== 0)
+          .map((line) =>
+            updates.has(line.id) ? { ...line, quantity: updates.get(line.id)! } : line,
+          );
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Subscribe to changes of the pending operations
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToOptimisticCart(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the pending operations
+ */
+export function getOptimisticOperations(): OptimisticOperation[] {
+  return operations;
+}
+
+/**
+ * Register a cart change that is about to be sent
+ *
+ * @returns Operation ID (pass to confirm or roll back the operation)
+ */
+export function addOptimisticOperation(operation: OptimisticOperationInput): string {
+  const id = String(++nextOperationId);
+  setOperations([...operations, { ...operation, id, confirmed: false }]);
+  return id;
+}
+
+/**
+ * Mark an operation as confirmed by the cart mutation
+ *
+ * The operation stays applied until the app's cart lines reflect it (see
+ * pruneOptimisticOperations), or at most OPTIMISTIC_UPDATE_TTL.
+ *
+ * @param id - Operation ID
+ * @param cartLines - Lines of the cart returned by the mutation
+ */
+export function confirmOptimisticOperation(id: string, cartLines?: BundleCartLine[]): void {
+  setOperations(
+    operations.map((operation) => {
+      if (operation.id !== id) return operation;
+      if (operation.type === 'add' && cartLines) {
+        return {
+          ...operation,
+          confirmed: true,
+          confirmedLines: getConfirmedLines(operation, cartLines),
+        };
+      }
+      return { ...operation, confirmed: true };
+    }),
+  );
+
+  expiryTimers.set(
+    id,
+    setTimeout(() => rollbackOptimisticOperation(id), OPTIMISTIC_UPDATE_TTL),
+  );
+}
+
+/**
+ * Drop an operation (when its cart mutation failed, or once it expired)
+ */
+export function rollbackOptimisticOperation(id: string): void {
+  clearTimeout(expiryTimers.get(id));
+  expiryTimers.delete(id);
+
+  if (!operations.some((operation) => operation.id === id)) return;
+  setOperations(operations.filter((operation) => operation.id !== id));
+}
+
+/**
+ * Drop confirmed operations that the app's cart lines reflect
+ *
+ * @param lines - The app's cart lines
+ */
+export function pruneOptimisticOperations(lines: BundleCartLine[]): void {
+  operations
+    .filter((operation) => operation.confirmed && isReconciled(operation, lines))
+    .forEach((operation) => rollbackOptimisticOperation(operation.id));
+}
+
+/**
+ * Drop every pending operation
+ */
+export function clearOptimisticOperations(): void {
+  expiryTimers.forEach((timer) => clearTimeout(timer));
+  expiryTimers.clear();
+  setOperations([]);
+}
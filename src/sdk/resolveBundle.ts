@@ -9,15 +9,35 @@ import type {
   BundleBridgeConfig,
   BundleComponent,
   BundleDefinition,
-  BundleDiscountType,
-  BundleType,
+  BundleMarket,
+  BundlePricing,
   Money,
 } from '../types.js';
 import { BUNDLE_PRODUCT_QUERY, BUNDLE_PRODUCT_BY_HANDLE_QUERY } from '../graphql/queries.js';
-import { API_ENDPOINTS, DEFAULT_API_VERSION } from '../utils/constants.js';
+import { API_ENDPOINTS, DEFAULT_METAFIELD_NAMESPACE } from '../utils/constants.js';
 import { cacheDefinition, getCachedDefinition } from '../utils/cache.js';
 import { createError, ERROR_CODES, parseApiError } from '../utils/errors.js';
+import {
+  moneyToNumber,
+  multiplyMoney,
+  roundMoney,
+  subtractMoney,
+  sumMoney,
+  toMinorUnits,
+} from '../utils/money.js';
 import { isValidGid } from '../utils/validation.js';
+import {
+  buildEligibleComponents,
+  getEligibleProducts,
+  getMetafieldValues,
+  parseBundleMetafields,
+  parsePricingMetafields,
+  type BundleMetafieldSettings,
+  type StorefrontEligibleProduct,
+  type StorefrontMetafield,
+} from './bundleMetafields.js';
+import { completePoolProducts, loadCollectionProducts } from './loadComponentPool.js';
+import { fetchWithRetry, storefrontRequest, withMarket } from './storefrontClient.js';
 
 /**
  * Resolve bundle definition from hosted backend
@@ -25,17 +45,27 @@ import { isValidGid } from '../utils/validation.js';
 async function resolveFromBackend(
   bundleId: string,
   config: BundleBridgeConfig,
+  signal?: AbortSignal,
 ): Promise<BundleDefinition> {
-  const url = `${config.apiUrl}${API_ENDPOINTS.bundle}/${encodeURIComponent(bundleId)}`;
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-Key': config.apiKey!,
-      'X-Shop-Domain': config.storeDomain,
+  const market = new URLSearchParams();
+  if (config.country) market.set('country', config.country);
+  if (config.language) market.set('language', config.language);
+  const search = market.toString() ? `?${market}` : '';
+  const url = `${config.apiUrl}${API_ENDPOINTS.bundle}/${encodeURIComponent(bundleId)}${search}`;
+
+  const response = await fetchWithRetry(
+    config,
+    url,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': config.apiKey!,
+        'X-Shop-Domain': config.storeDomain,
+      },
     },
-  });
+    { signal },
+  );
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -43,13 +73,18 @@ async function resolveFromBackend(
   }
 
   const data = await response.json();
-  return data.bundle as BundleDefinition;
+  const bundle = data.bundle as BundleDefinition;
+
+  return {
+    ...bundle,
+    pricing: { ...bundle.pricing, pricingSource: bundle.pricing.pricingSource ?? 'backend' },
+  };
 }
 
 /**
- * Parse raw Storefront API response into BundleDefinition
+ * Product as returned by the bundle product queries
  */
-function parseStorefrontResponse(product: {
+interface StorefrontBundleProduct {
   id: string;
   title: string;
   handle: string;
@@ -110,7 +145,92 @@ function parseStorefrontResponse(product: {
     minVariantPrice: Money;
     maxVariantPrice: Money;
   };
-}): BundleDefinition | null {
+  bundleMetafields?: Array<StorefrontMetafield | null>;
+  eligibleProductsMetafield?: StorefrontMetafield | null;
+}
+
+/**
+ * Discount fields of BundlePricing
+ */
+type DiscountRule = Pick<
+  BundlePricing,
+  'discountType' | 'discountValue' | 'tiers' | 'pricingSource'
+>;
+
+/**
+ * Parse a mix-and-match bundle product
+ *
+ * Components are the eligible products (with all their variants) when the
+ * metafields name a pool, or else the bundle variant's components. Prices
+ * depend on the selection, so the definition has only the discount rule.
+ */
+function parseMixAndMatchProduct(
+  product: StorefrontBundleProduct,
+  settings: BundleMetafieldSettings,
+  discountRule: DiscountRule | null,
+  eligibleProducts?: StorefrontEligibleProduct[],
+): BundleDefinition | null {
+  const bundleVariant = product.variants.nodes.find(
+    (v) => v.bundleComponents?.nodes && v.bundleComponents.nodes.length > 0,
+  );
+
+  const components = eligibleProducts
+    ? buildEligibleComponents(eligibleProducts, settings.componentLimits)
+    : buildEligibleComponents(
+        (bundleVariant?.bundleComponents?.nodes ?? []).map((bc) => ({
+          ...bc.product,
+          availableForSale: bc.variant.availableForSale,
+          variants: { nodes: [bc.variant] },
+        })),
+        settings.componentLimits,
+      );
+
+  if (components.length === 0) {
+    return null;
+  }
+
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    description: product.description,
+    bundleType: 'mix_and_match',
+    components,
+    pricing: {
+      ...(discountRule ?? { discountType: 'custom', pricingSource: 'variant_price' }),
+      currencyCode: components[0]!.variants[0]!.price.currencyCode,
+    },
+    minSelections: settings.minSelections,
+    maxSelections: settings.maxSelections,
+    featuredImage: product.featuredImage,
+    availableForSale: product.availableForSale,
+    variantId: (bundleVariant ?? product.variants.nodes[0])?.id,
+  };
+}
+
+/**
+ * Parse raw Storefront API response into BundleDefinition
+ *
+ * The bundle type and discount rule come from the bundle metafields. Without
+ * a discount rule, fixed bundles infer one from the variant price when
+ * `inferDiscountType` is set, and use `custom` pricing (the variant price)
+ * otherwise. Mix-and-match pools are loaded beforehand (loadEligibleProducts).
+ */
+function parseStorefrontResponse(
+  product: StorefrontBundleProduct,
+  options: { inferDiscountType?: boolean; eligibleProducts?: StorefrontEligibleProduct[] } = {},
+): BundleDefinition | null {
+  const values = getMetafieldValues(product.bundleMetafields);
+  const settings = parseBundleMetafields(values);
+  const metafieldPricing = parsePricingMetafields(values);
+  const metafieldRule: DiscountRule | null = metafieldPricing
+    ? { ...metafieldPricing, pricingSource: 'metafields' }
+    : null;
+
+  if (settings.bundleType === 'mix_and_match') {
+    return parseMixAndMatchProduct(product, settings, metafieldRule, options.eligibleProducts);
+  }
+
   // Find the variant with bundle components
   const bundleVariant = product.variants.nodes.find(
     (v) => v.bundleComponents?.nodes && v.bundleComponents.nodes.length > 0,
@@ -143,49 +263,55 @@ function parseStorefrontResponse(product: {
     required: true,
   }));
 
+  const currencyCode = bundleVariant.price.currencyCode;
+
   // Calculate original price (sum of components)
-  const originalPriceAmount = components.reduce((sum, comp) => {
-    const variant = comp.variants[0]!;
-    return sum + parseFloat(variant.price.amount) * comp.quantity;
-  }, 0);
+  const originalPrice = sumMoney(
+    components.map((comp) => multiplyMoney(comp.variants[0]!.price, comp.quantity)),
+    currencyCode,
+  );
 
-  const bundlePriceAmount = parseFloat(bundleVariant.price.amount);
-  const savingsAmount = originalPriceAmount - bundlePriceAmount;
+  const bundlePrice = roundMoney(bundleVariant.price);
+  const savings = subtractMoney(originalPrice, bundlePrice);
+  const originalMinorUnits = toMinorUnits(originalPrice);
   const savingsPercentage =
-    originalPriceAmount > 0 ? (savingsAmount / originalPriceAmount) * 100 : 0;
-
-  // Determine discount type from the pricing difference
-  let discountType: BundleDiscountType = 'fixed_amount';
-  if (savingsPercentage === Math.round(savingsPercentage)) {
-    discountType = 'percentage';
+    originalMinorUnits > 0 ? (toMinorUnits(savings) / originalMinorUnits) * 100 : 0;
+
+  let discountRule: DiscountRule;
+
+  if (metafieldRule) {
+    discountRule = metafieldRule;
+  } else if (options.inferDiscountType) {
+    // Guess from the pricing difference: a whole percentage is likely a percentage discount
+    discountRule =
+      savingsPercentage === Math.round(savingsPercentage)
+        ? {
+            discountType: 'percentage',
+            discountValue: savingsPercentage,
+            pricingSource: 'inferred',
+          }
+        : {
+            discountType: 'fixed_amount',
+            discountValue: moneyToNumber(savings),
+            pricingSource: 'inferred',
+          };
+  } else {
+    discountRule = { discountType: 'custom', pricingSource: 'variant_price' };
   }
 
-  // Determine bundle type (for now, assume fixed - mix-and-match detection requires backend)
-  const bundleType: BundleType = 'fixed';
-
-  const currencyCode = bundleVariant.price.currencyCode;
-
   return {
     id: product.id,
     title: product.title,
     handle: product.handle,
     description: product.description,
-    bundleType,
+    bundleType: 'fixed',
     components,
     pricing: {
-      discountType,
-      discountValue:
-        discountType === 'percentage' ? savingsPercentage : savingsAmount,
+      ...discountRule,
       currencyCode,
-      originalPrice: {
-        amount: originalPriceAmount.toFixed(2),
-        currencyCode,
-      },
-      bundlePrice: bundleVariant.price,
-      savings: {
-        amount: savingsAmount.toFixed(2),
-        currencyCode,
-      },
+      originalPrice,
+      bundlePrice,
+      savings,
       savingsPercentage,
     },
     featuredImage: product.featuredImage,
@@ -194,57 +320,73 @@ function parseStorefrontResponse(product: {
   };
 }
 
+/**
+ * Load the component pool a mix-and-match bundle's metafields name: the
+ * `eligible_products`, or else every product of the `eligible_collection`
+ *
+ * @returns The filtered products with all variants, or undefined when the
+ * bundle names no pool
+ */
+async function loadEligibleProducts(
+  product: StorefrontBundleProduct,
+  settings: BundleMetafieldSettings,
+  config: BundleBridgeConfig,
+  signal?: AbortSignal,
+): Promise<StorefrontEligibleProduct[] | undefined> {
+  const options = { filters: settings.filters, signal };
+  const referenced = getEligibleProducts(product.eligibleProductsMetafield);
+
+  if (referenced.length > 0) {
+    return completePoolProducts(referenced, config, options);
+  }
+  if (settings.eligibleCollectionId) {
+    return loadCollectionProducts(settings.eligibleCollectionId, config, options);
+  }
+  return undefined;
+}
+
 /**
  * Resolve bundle definition from Storefront API directly
  */
 async function resolveFromStorefrontApi(
   bundleId: string,
   config: BundleBridgeConfig,
+  signal?: AbortSignal,
 ): Promise<BundleDefinition> {
-  if (!config.storefrontAccessToken) {
-    throw createError(
-      ERROR_CODES.INVALID_CONFIG,
-      'storefrontAccessToken is required when not using hosted backend',
-    );
-  }
-
-  const apiVersion = config.apiVersion ?? DEFAULT_API_VERSION;
   const isGid = isValidGid(bundleId);
 
   const query = isGid ? BUNDLE_PRODUCT_QUERY : BUNDLE_PRODUCT_BY_HANDLE_QUERY;
-  const variables = isGid ? { id: bundleId } : { handle: bundleId };
-
-  const url = `https://${config.storeDomain}/api/${apiVersion}/graphql.json`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Shopify-Storefront-Access-Token': config.storefrontAccessToken,
-    },
-    body: JSON.stringify({ query, variables }),
-  });
-
-  if (!response.ok) {
-    throw createError(ERROR_CODES.NETWORK_ERROR, `Storefront API error: ${response.status}`);
-  }
-
-  const data = await response.json();
+  const variables = {
+    ...(isGid ? { id: bundleId } : { handle: bundleId }),
+    metafieldNamespace: config.metafieldNamespace ?? DEFAULT_METAFIELD_NAMESPACE,
+  };
 
-  if (data.errors) {
-    throw createError(ERROR_CODES.UNKNOWN_ERROR, data.errors[0]?.message ?? 'GraphQL error');
-  }
+  const data = await storefrontRequest<{ product: StorefrontBundleProduct | null }>(
+    config,
+    query,
+    variables,
+    { signal, cache: config.storefrontCache?.definition },
+  );
 
-  const product = data.data?.product;
+  const product = data?.product;
 
   if (!product) {
     throw createError(ERROR_CODES.BUNDLE_NOT_FOUND);
   }
 
-  const definition = parseStorefrontResponse(product);
+  const settings = parseBundleMetafields(getMetafieldValues(product.bundleMetafields));
+  const eligibleProducts =
+    settings.bundleType === 'mix_and_match'
+      ? await loadEligibleProducts(product, settings, config, signal)
+      : undefined;
+
+  const definition = parseStorefrontResponse(product, {
+    inferDiscountType: config.inferDiscountType,
+    eligibleProducts,
+  });
 
   if (!definition) {
-    throw createError(ERROR_CODES.BUNDLE_NOT_FOUND, 'Product is not a bundle');
+    throw createError(ERROR_CODES.BUNDLE_NOT_FOUND, { key: 'errors.notABundle' });
   }
 
   return definition;
@@ -258,19 +400,23 @@ async function resolveFromStorefrontApi(
  *
  * @param bundleId - Shopify product ID or handle
  * @param config - BundleBridge configuration
- * @param options - Optional settings
+ * @param options - Optional settings (`country` and `language` override the configured market)
  */
 export async function resolveBundle(
   bundleId: string,
   config: BundleBridgeConfig,
-  options?: {
+  options?: BundleMarket & {
     /** Skip cache and fetch fresh data */
     skipCache?: boolean;
+    /** Cancels the request */
+    signal?: AbortSignal;
   },
 ): Promise<BundleDefinition> {
+  const marketConfig = withMarket(config, options);
+
   // Check cache first (unless skipCache is true)
   if (config.enableCache !== false && !options?.skipCache) {
-    const cached = getCachedDefinition(bundleId);
+    const cached = getCachedDefinition(bundleId, marketConfig);
     if (cached) {
       return cached;
     }
@@ -280,15 +426,15 @@ export async function resolveBundle(
   let definition: BundleDefinition;
 
   if (config.apiKey && config.apiUrl) {
-    definition = await resolveFromBackend(bundleId, config);
+    definition = await resolveFromBackend(bundleId, marketConfig, options?.signal);
   } else {
-    definition = await resolveFromStorefrontApi(bundleId, config);
+    definition = await resolveFromStorefrontApi(bundleId, marketConfig, options?.signal);
   }
 
   // Cache the result
   if (config.enableCache !== false) {
     const ttl = config.cacheTtl ? config.cacheTtl * 1000 : undefined;
-    cacheDefinition(bundleId, definition, ttl);
+    cacheDefinition(bundleId, definition, marketConfig, ttl);
   }
 
   return definition;
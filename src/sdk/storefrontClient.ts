@@ -0,0 +1,340 @@
+/**
+ * Storefront API client
+ *
+ * Shared request layer for the Storefront API and the hosted backend:
+ * per-attempt timeouts, exponential backoff honoring Retry-After,
+ * cancellation through AbortSignal and a custom fetch injection point.
+ * Failures are mapped onto ERROR_CODES. Storefront API operations run in the
+ * configured market through their `@inContext` variables.
+ */
+
+import type { BundleBridgeConfig, BundleMarket, StorefrontCacheStrategy } from '../types.js';
+import { DEFAULT_API_VERSION, REQUEST_DEFAULTS } from '../utils/constants.js';
+import {
+  BundleBridgeError,
+  createError,
+  ERROR_CODES,
+  getErrorCodeForStatus,
+  type ErrorCode,
+} from '../utils/errors.js';
+
+export interface RequestOptions {
+  /** Cancels the request (e.g. when a hook unmounts) */
+  signal?: AbortSignal;
+  /**
+   * Retry server errors (5xx) and network failures. Disable for requests that
+   * must not run twice; rate-limited requests are always retried.
+   * @default true
+   */
+  retryFailures?: boolean;
+}
+
+export interface StorefrontRequestOptions extends RequestOptions, BundleMarket {
+  /** Error code for GraphQL errors (default: STOREFRONT_ERROR) */
+  errorCode?: ErrorCode;
+  /** Whether the document is a mutation (runs through `storefront.mutate`) */
+  mutation?: boolean;
+  /** Hydrogen caching strategy for queries run through `config.storefront` */
+  cache?: StorefrontCacheStrategy;
+}
+
+/**
+ * Apply per-call country and language overrides to a configuration
+ *
+ * Codes are upper-cased (and `pt-BR` becomes `PT_BR`) to match the Storefront
+ * API's CountryCode and LanguageCode enums.
+ *
+ * @param config - BundleBridge configuration
+ * @param market - Overrides (unset fields keep the configured market)
+ */
+export function withMarket(config: BundleBridgeConfig, market?: BundleMarket): BundleBridgeConfig {
+  const country = market?.country ?? config.country;
+  const language = market?.language ?? config.language;
+  if (!country && !language) return config;
+
+  return {
+    ...config,
+    country: country?.toUpperCase(),
+    language: language?.toUpperCase().replace('-', '_'),
+  };
+}
+
+/**
+ * Add the market to the `@inContext` variables a document declares. Explicit
+ * variables win; unset ones are left to Hydrogen's `i18n`.
+ */
+function withMarketVariables(
+  config: BundleBridgeConfig,
+  query: string,
+  variables: Record<string, unknown>,
+): Record<string, unknown> {
+  const { country, language } = config;
+
+  return {
+    ...(country && query.includes('$country') && { country }),
+    ...(language && query.includes('$language') && { language }),
+    ...variables,
+  };
+}
+
+/**
+ * Wait for a delay, rejecting early when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createError(ERROR_CODES.ABORTED));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createError(ERROR_CODES.ABORTED));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before the given retry (0-based), capped at maxRetryDelay
+ */
+function getRetryDelay(retry: number, retryAfter?: number): number {
+  const delay = retryAfter ?? REQUEST_DEFAULTS.retryDelay * 2 ** retry;
+  return Math.min(delay, REQUEST_DEFAULTS.maxRetryDelay);
+}
+
+/**
+ * Run one attempt with a timeout, linked to the caller's signal
+ */
+async function fetchAttempt(
+  fetchFn: typeof fetch,
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    return await fetchFn(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (signal?.aborted) {
+      throw createError(ERROR_CODES.ABORTED);
+    }
+    if (timedOut) {
+      throw createError(ERROR_CODES.TIMEOUT);
+    }
+    throw createError(ERROR_CODES.NETWORK_ERROR, undefined, {
+      cause: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fetch with timeout, retries and cancellation
+ *
+ * Retries 429 responses (honoring Retry-After) and, unless `retryFailures` is
+ * false, 5xx responses, timeouts and network failures, with exponential
+ * backoff. Returns the last response, which may not be ok; throws
+ * BundleBridgeError (NETWORK_ERROR, TIMEOUT or ABORTED) when no response
+ * arrives.
+ *
+ * @param config - BundleBridge configuration (fetch, requestTimeout, maxRetries)
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @param options - Signal and retry behavior
+ */
+export async function fetchWithRetry(
+  config: BundleBridgeConfig,
+  url: string,
+  init: RequestInit,
+  options?: RequestOptions,
+): Promise<Response> {
+  const fetchFn = config.fetch ?? fetch;
+  const timeout = config.requestTimeout ?? REQUEST_DEFAULTS.timeout;
+  const maxRetries = config.maxRetries ?? REQUEST_DEFAULTS.maxRetries;
+  const retryFailures = options?.retryFailures ?? true;
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < maxRetries;
+    let response: Response;
+
+    try {
+      response = await fetchAttempt(fetchFn, url, init, timeout, options?.signal);
+    } catch (err) {
+      const retryable =
+        err instanceof BundleBridgeError && err.code !== ERROR_CODES.ABORTED && retryFailures;
+      if (!retryable || !canRetry) throw err;
+
+      await sleep(getRetryDelay(attempt), options?.signal);
+      continue;
+    }
+
+    const retryable =
+      response.status === 429 || (response.status >= 500 && retryFailures);
+    if (!retryable || !canRetry) return response;
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    await sleep(getRetryDelay(attempt, retryAfter), options?.signal);
+  }
+}
+
+/**
+ * GraphQL error as returned by the Storefront API
+ */
+interface GraphQLError {
+  message: string;
+  extensions?: { code?: string };
+}
+
+/**
+ * Run a request through a Hydrogen storefront client
+ *
+ * Hydrogen handles its own retries, so only errors are mapped here.
+ */
+async function hydrogenRequest<TData>(
+  config: BundleBridgeConfig,
+  query: string,
+  variables: Record<string, unknown>,
+  options?: StorefrontRequestOptions,
+): Promise<TData> {
+  const storefront = config.storefront!;
+
+  try {
+    const data = options?.mutation
+      ? await storefront.mutate(query, { variables })
+      : await storefront.query(query, { variables, cache: options?.cache });
+    return data as TData;
+  } catch (err) {
+    if (err instanceof BundleBridgeError) throw err;
+    throw createError(
+      options?.errorCode ?? ERROR_CODES.STOREFRONT_ERROR,
+      err instanceof Error ? err.message : 'Storefront API error',
+    );
+  }
+}
+
+/**
+ * Run a Storefront API query or mutation
+ *
+ * Uses `config.storefront` (Hydrogen) when set, otherwise calls the Storefront
+ * API with `storeDomain` and `storefrontAccessToken`.
+ *
+ * @param config - BundleBridge configuration (storefront, or storefrontAccessToken)
+ * @param query - GraphQL document
+ * @param variables - GraphQL variables
+ * @param options - Signal, retry behavior, cache strategy, error code for GraphQL errors and
+ *   market overrides
+ * @returns The `data` field of the response
+ *
+ * @example
+ * ```ts
+ * const data = await storefrontRequest<{ product: { id: string } | null }>(
+ *   config,
+ *   BUNDLE_PRODUCT_QUERY,
+ *   { id },
+ *   { signal },
+ * );
+ * ```
+ */
+export async function storefrontRequest<TData>(
+  config: BundleBridgeConfig,
+  query: string,
+  variables: Record<string, unknown>,
+  options?: StorefrontRequestOptions,
+): Promise<TData> {
+  const requestVariables = withMarketVariables(withMarket(config, options), query, variables);
+
+  if (config.storefront) {
+    return hydrogenRequest<TData>(config, query, requestVariables, options);
+  }
+
+  if (!config.storefrontAccessToken) {
+    throw createError(
+      ERROR_CODES.INVALID_CONFIG,
+      'storefront or storefrontAccessToken is required for Storefront API requests',
+    );
+  }
+
+  const apiVersion = config.apiVersion ?? DEFAULT_API_VERSION;
+  const url = `https://${config.storeDomain}/api/${apiVersion}/graphql.json`;
+
+  const response = await fetchWithRetry(
+    config,
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Storefront-Access-Token': config.storefrontAccessToken,
+      },
+      body: JSON.stringify({ query, variables: requestVariables }),
+    },
+    options,
+  );
+
+  if (!response.ok) {
+    throw createError(
+      getErrorCodeForStatus(response.status),
+      `Storefront API error: ${response.status}`,
+      { status: response.status },
+    );
+  }
+
+  const body = (await response.json().catch(() => null)) as {
+    data?: TData;
+    errors?: GraphQLError[];
+  } | null;
+
+  if (!body) {
+    throw createError(ERROR_CODES.STOREFRONT_ERROR, 'Invalid Storefront API response');
+  }
+
+  if (body.errors && body.errors.length > 0) {
+    const [firstError] = body.errors;
+    const code =
+      firstError?.extensions?.code === 'THROTTLED'
+        ? ERROR_CODES.RATE_LIMITED
+        : (options?.errorCode ?? ERROR_CODES.STOREFRONT_ERROR);
+    throw createError(code, firstError?.message ?? 'GraphQL error', {
+      errors: body.errors,
+    });
+  }
+
+  return body.data as TData;
+}
@@ -0,0 +1,189 @@
+/**
+ * Analytics event tracking
+ *
+ * Queues bundle analytics events and sends them to the hosted backend in
+ * batches. Queued events are flushed with sendBeacon when the page is hidden,
+ * so events fired right before navigation are not lost.
+ */
+
+import type { BundleAnalyticsEvent, BundleBridgeConfig } from '../types.js';
+import { ANALYTICS_BATCH, API_ENDPOINTS, RATE_LIMITS } from '../utils/constants.js';
+
+interface EventBatch {
+  config: BundleBridgeConfig;
+  events: BundleAnalyticsEvent[];
+}
+
+/** Rate limit window (one minute, matching RATE_LIMITS) */
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+// Queued events, batched per backend and API key
+const queue = new Map<string, EventBatch>();
+
+// Timestamps of accepted events within the current rate limit window
+let recentEvents: number[] = [];
+
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let pageHideListenerAttached = false;
+
+/**
+ * Whether events for this config should be sent at all
+ */
+function isTrackingEnabled(config: BundleBridgeConfig): boolean {
+  return config.enableAnalytics !== false && !!config.apiKey && !!config.apiUrl;
+}
+
+/**
+ * Pass an event to every registered adapter
+ */
+function dispatchToAdapters(event: BundleAnalyticsEvent, config: BundleBridgeConfig): void {
+  for (const adapter of config.analyticsAdapters ?? []) {
+    try {
+      adapter.track(event);
+    } catch {
+      // A failing adapter must not break the storefront or other adapters
+    }
+  }
+}
+
+/**
+ * Check and record the analytics rate limit
+ */
+function acquireRateLimit(): boolean {
+  const now = Date.now();
+  recentEvents = recentEvents.filter((timestamp) => now - timestamp < RATE_LIMIT_WINDOW);
+
+  if (recentEvents.length >= RATE_LIMITS.analyticsEvent) {
+    return false;
+  }
+
+  recentEvents.push(now);
+  return true;
+}
+
+/**
+ * Send one batch of events
+ */
+function sendBatch(batch: EventBatch, useBeacon: boolean): Promise<void> {
+  const { config, events } = batch;
+  const url = `${config.apiUrl}${API_ENDPOINTS.event}`;
+
+  if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    // sendBeacon cannot set headers, so credentials travel in the body
+    const body = JSON.stringify({
+      apiKey: config.apiKey,
+      shopDomain: config.storeDomain,
+      events,
+    });
+    navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+    return Promise.resolve();
+  }
+
+  const fetchFn = config.fetch ?? fetch;
+
+  return fetchFn(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': config.apiKey!,
+      'X-Shop-Domain': config.storeDomain,
+    },
+    body: JSON.stringify({ events }),
+    keepalive: true,
+  }).then(
+    () => undefined,
+    () => undefined, // Analytics failures never surface to the storefront
+  );
+}
+
+/**
+ * Flush queued analytics events
+ *
+ * @param options - Use sendBeacon instead of fetch (for page unload)
+ */
+export async function flushBundleEvents(options?: { useBeacon?: boolean }): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+
+  const batches = Array.from(queue.values());
+  queue.clear();
+
+  await Promise.all(
+    batches.map((batch) => sendBatch(batch, options?.useBeacon ?? false)),
+  );
+}
+
+/**
+ * Flush with sendBeacon when the page is hidden or unloaded
+ */
+function attachPageHideListener(): void {
+  if (pageHideListenerAttached || typeof window === 'undefined') return;
+  pageHideListenerAttached = true;
+
+  const flushWithBeacon = () => {
+    void flushBundleEvents({ useBeacon: true });
+  };
+
+  window.addEventListener('pagehide', flushWithBeacon);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flushWithBeacon();
+    }
+  });
+}
+
+/**
+ * Track a bundle analytics event
+ *
+ * Every event goes to `config.analyticsAdapters`. It is also queued for the
+ * hosted backend when one is configured (apiKey and apiUrl); backend events
+ * beyond RATE_LIMITS.analyticsEvent per minute are dropped. Nothing is sent
+ * when `enableAnalytics` is false.
+ *
+ * @param event - Analytics event
+ * @param config - BundleBridge configuration
+ * @returns Whether the event was queued for the hosted backend
+ *
+ * @example
+ * ```ts
+ * trackBundleEvent(
+ *   { eventType: 'view', bundleId: definition.id, bundleTitle: definition.title },
+ *   config,
+ * );
+ * ```
+ */
+export function trackBundleEvent(
+  event: BundleAnalyticsEvent,
+  config: BundleBridgeConfig,
+): boolean {
+  if (config.enableAnalytics === false) return false;
+
+  const timestampedEvent: BundleAnalyticsEvent = {
+    ...event,
+    timestamp: event.timestamp ?? new Date().toISOString(),
+  };
+
+  dispatchToAdapters(timestampedEvent, config);
+
+  if (!isTrackingEnabled(config)) return false;
+  if (!acquireRateLimit()) return false;
+
+  const key = `${config.apiUrl}|${config.apiKey}`;
+  const batch = queue.get(key) ?? { config, events: [] };
+  batch.events.push(timestampedEvent);
+  queue.set(key, batch);
+
+  attachPageHideListener();
+
+  if (batch.events.length >= ANALYTICS_BATCH.maxSize) {
+    void flushBundleEvents();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      void flushBundleEvents();
+    }, ANALYTICS_BATCH.flushInterval);
+  }
+
+  return true;
+}
@@ -4,6 +4,8 @@
  * Types for Shopify bundle cart resolution in Hydrogen storefronts.
  */
 
+import type { BundleMessageKey, BundleMessageParams } from './utils/messages.js';
+
 /**
  * Bundle type - fixed bundles have preset components, mix-and-match allow customer selection
  */
@@ -16,8 +18,49 @@ export type BundleDiscountType =
   | 'percentage' // e.g., 15% off total
   | 'fixed_amount' // e.g., $10 off
   | 'fixed_price' // e.g., $49.99 total
+  | 'tiered' // e.g., 3 items 10% off, 5 items 20% off (see BundlePricing.tiers)
   | 'custom'; // Component-level custom pricing
 
+/**
+ * Discount tier of a "buy more, save more" bundle
+ */
+export interface BundlePricingTier {
+  /** Total number of selected items that unlocks the tier */
+  minQuantity: number;
+  /** Discount type (default: percentage) */
+  discountType?: 'percentage' | 'fixed_amount' | 'fixed_price';
+  /** Discount value (percentage, fixed amount, or total price) */
+  discountValue: number;
+}
+
+/**
+ * The next tier a selection can unlock
+ */
+export interface BundleNextTier {
+  /** The tier */
+  tier: BundlePricingTier;
+  /** How many more items unlock it */
+  itemsNeeded: number;
+}
+
+/**
+ * Cart add mode
+ *
+ * - `exploded` adds one cart line per component, linked by `_bundle_*` attributes
+ * - `native` adds the bundle parent variant as a single line and lets Shopify's
+ *   Bundles app expand it (mix-and-match bundles always fall back to `exploded`)
+ */
+export type BundleAddMode = 'native' | 'exploded';
+
+/**
+ * How the bundle price is split across components
+ *
+ * - `proportional` allocates in proportion to each component's line total
+ * - `equal` gives every component the same share
+ * - `weighted` allocates in proportion to `BundleComponent.allocationWeight`
+ */
+export type PriceAllocationStrategy = 'proportional' | 'equal' | 'weighted';
+
 /**
  * Availability status for inventory checking
  */
@@ -88,8 +131,19 @@ export interface BundleComponent {
   required?: boolean;
   /** Component-level price override */
   priceOverride?: Money;
+  /** Relative share of the bundle price per unit, for `weighted` allocation (default: 1) */
+  allocationWeight?: number;
 }
 
+/**
+ * Where bundle pricing values come from
+ * - `metafields`: the product's bundle metafields (authoritative)
+ * - `backend`: the hosted backend (authoritative)
+ * - `variant_price`: the bundle variant's price, with no discount rule (`custom`)
+ * - `inferred`: guessed from the variant price (`inferDiscountType`)
+ */
+export type BundlePricingSource = 'metafields' | 'backend' | 'variant_price' | 'inferred';
+
 /**
  * Bundle pricing configuration
  */
@@ -98,6 +152,8 @@ export interface BundlePricing {
   discountType: BundleDiscountType;
   /** Discount value (percentage, fixed amount, or total price) */
   discountValue?: number;
+  /** Discount tiers by total selection count (for `tiered` pricing) */
+  tiers?: BundlePricingTier[];
   /** Currency code for fixed amounts */
   currencyCode?: string;
   /** Original price (sum of components at regular price) */
@@ -108,6 +164,8 @@ export interface BundlePricing {
   savings?: Money;
   /** Savings percentage */
   savingsPercentage?: number;
+  /** Where the discount type and value come from */
+  pricingSource?: BundlePricingSource;
 }
 
 /**
@@ -140,6 +198,18 @@ export interface BundleDefinition {
   variantId?: string;
 }
 
+/**
+ * Filters for a mix-and-match component pool (different filters must all match)
+ */
+export interface ComponentPoolFilters {
+  /** Keep products with any of these tags (case-insensitive) */
+  tags?: string[];
+  /** Keep products of any of these product types (case-insensitive) */
+  productTypes?: string[];
+  /** Keep only products available for sale */
+  availableOnly?: boolean;
+}
+
 /**
  * Customer selection for mix-and-match bundles
  */
@@ -201,7 +271,16 @@ export interface BundlePriceResult {
     quantity: number;
     unitPrice: Money;
     lineTotal: Money;
+    /**
+     * Discounted line total: the component's share of the bundle price.
+     * Allocations sum exactly to `bundlePrice` (set by calculateBundlePrice).
+     */
+    allocatedTotal?: Money;
   }>;
+  /** Strategy used for `allocatedTotal` */
+  allocationStrategy?: PriceAllocationStrategy;
+  /** Tier applied to the selection (`tiered` pricing) */
+  appliedTier?: BundlePricingTier;
 }
 
 /**
@@ -214,8 +293,14 @@ export interface BundleLineAttributes {
   _bundleComponentOf?: string;
   /** Bundle product ID */
   _bundleProductId?: string;
+  /** Bundle instance ID (one per add to cart) */
+  _bundleInstanceId?: string;
   /** Component index within bundle */
   _bundleComponentIndex?: string;
+  /** Product ID of the component on this line */
+  _bundleComponentProductId?: string;
+  /** Quantity of this component in one bundle */
+  _bundleComponentQuantity?: string;
 }
 
 /**
@@ -232,6 +317,78 @@ export interface AddBundleInput {
   cartId?: string;
   /** Custom attributes to add to line items */
   customAttributes?: Record<string, string>;
+  /** How the bundle is added to the cart (overrides `BundleBridgeConfig.addMode`) */
+  addMode?: BundleAddMode;
+  /** Bundle instance ID stamped on every line (generated when omitted) */
+  instanceId?: string;
+}
+
+/**
+ * Cart line as returned by the Storefront API
+ *
+ * Native bundles come back as a ComponentizableCartLine, which carries the
+ * expanded component lines in `lineComponents`.
+ */
+export interface BundleCartLine {
+  id: string;
+  quantity: number;
+  merchandise: {
+    id: string;
+    title: string;
+    product: {
+      id?: string;
+      title: string;
+    };
+  };
+  attributes: Array<{
+    key: string;
+    value: string;
+  }>;
+  /** Component lines of a natively expanded bundle */
+  lineComponents?: BundleCartLine[];
+}
+
+/**
+ * Cart line shown by useBundleLines while a cart change is in flight
+ *
+ * Synthesized from the bundle definition and price before the mutation
+ * returns (`isOptimistic: true`), then replaced by the line from the
+ * mutation response until the app's cart catches up.
+ */
+export interface OptimisticCartLine extends BundleCartLine {
+  merchandise: {
+    id: string;
+    title: string;
+    image?: ProductImage;
+    price: Money;
+    product: {
+      id: string;
+      title: string;
+      handle: string;
+    };
+  };
+  cost: {
+    totalAmount: Money;
+  };
+  lineComponents?: OptimisticCartLine[];
+  /** Whether the line was synthesized and is not in the cart yet */
+  isOptimistic?: boolean;
+}
+
+/**
+ * Cart lines that belong to one bundle
+ */
+export interface BundleLineGroup<TLine extends BundleCartLine = BundleCartLine> {
+  /** Bundle product ID */
+  bundleProductId: string;
+  /** Bundle instance ID (absent for native bundles and lines added before instance IDs) */
+  instanceId?: string;
+  /** Number of bundles the lines represent (set by groupCartLinesByBundle) */
+  bundleQuantity?: number;
+  /** Component lines */
+  lines: TLine[];
+  /** Parent line when Shopify expanded the bundle (ComponentizableCartLine) */
+  parentLine?: TLine;
 }
 
 /**
@@ -242,27 +399,17 @@ export interface AddBundleResult {
   /** Updated cart */
   cart?: {
     id: string;
-    lines: Array<{
-      id: string;
-      quantity: number;
-      merchandise: {
-        id: string;
-        title: string;
-        product: {
-          title: string;
-        };
-      };
-      attributes: Array<{
-        key: string;
-        value: string;
-      }>;
-    }>;
+    lines: BundleCartLine[];
     cost: {
       totalAmount: Money;
     };
   };
   /** Error if failed */
   error?: string;
+  /** Message catalog key of `error`, when the message is from the catalog */
+  errorKey?: BundleMessageKey;
+  /** Params of the error message */
+  errorParams?: BundleMessageParams;
   /** Specific component that caused the failure */
   failedComponent?: {
     productId: string;
@@ -271,10 +418,71 @@ export interface AddBundleResult {
   };
 }
 
+/**
+ * Hydrogen caching strategy (the result of `CacheShort()`, `CacheLong()`, ...)
+ */
+export type StorefrontCacheStrategy = Record<string, unknown>;
+
+/**
+ * Hydrogen-style Storefront client, e.g. `context.storefront`
+ *
+ * `query` and `mutate` resolve to the `data` of the response and throw on
+ * GraphQL errors, as Hydrogen's client does.
+ */
+export interface HydrogenStorefrontClient {
+  /** Buyer's country and language, as set in `createStorefrontClient` */
+  i18n?: BundleMarket;
+  query: (
+    query: string,
+    options?: {
+      variables?: Record<string, unknown>;
+      cache?: StorefrontCacheStrategy;
+    },
+  ) => Promise<unknown>;
+  mutate: (
+    mutation: string,
+    options?: {
+      variables?: Record<string, unknown>;
+    },
+  ) => Promise<unknown>;
+}
+
+/**
+ * Hydrogen cart handler, e.g. `context.cart`
+ */
+export interface HydrogenCartHandler<TResult = unknown> {
+  addLines: (
+    lines: Array<{
+      merchandiseId: string;
+      quantity: number;
+      attributes?: Array<{ key: string; value: string }>;
+    }>,
+  ) => Promise<TResult>;
+  updateLines: (lines: Array<{ id: string; quantity: number }>) => Promise<TResult>;
+  removeLines: (lineIds: string[]) => Promise<TResult>;
+}
+
+/**
+ * Market of a Storefront API request, sent with `@inContext`
+ */
+export interface BundleMarket {
+  /**
+   * Country code (ISO 3166-1 alpha-2) for prices and availability
+   * @example "CA"
+   */
+  country?: string;
+
+  /**
+   * Language code for titles and descriptions
+   * @example "FR" or "PT_BR"
+   */
+  language?: string;
+}
+
 /**
  * BundleBridge API configuration
  */
-export interface BundleBridgeConfig {
+export interface BundleBridgeConfig extends BundleMarket {
   /**
    * API base URL for the BundleBridge backend
    * @example "https://bundlebridge.temperedtools.xyz"
@@ -303,6 +511,24 @@ export interface BundleBridgeConfig {
    */
   apiVersion?: string;
 
+  /**
+   * Hydrogen storefront client (`context.storefront`). When set, Storefront API
+   * queries and cart mutations run through it instead of `storeDomain` and
+   * `storefrontAccessToken` (server-side only).
+   */
+  storefront?: HydrogenStorefrontClient;
+
+  /**
+   * Hydrogen caching strategies for queries run through `storefront`
+   * @example { definition: CacheLong(), inventory: CacheShort() }
+   */
+  storefrontCache?: {
+    /** Bundle definition queries */
+    definition?: StorefrontCacheStrategy;
+    /** Inventory queries */
+    inventory?: StorefrontCacheStrategy;
+  };
+
   /**
    * Enable client-side caching of bundle definitions
    * @default true
@@ -314,6 +540,66 @@ export interface BundleBridgeConfig {
    * @default 300 (5 minutes)
    */
   cacheTtl?: number;
+
+  /**
+   * Timeout per request attempt in milliseconds
+   * @default 10000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Retries for rate-limited (429) and failed (5xx, network) requests.
+   * Cart mutations are only retried when rate-limited.
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Custom fetch implementation (e.g. for instrumentation or tests)
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Send bundle analytics events to the hosted backend (requires apiKey)
+   * and analytics adapters
+   * @default true
+   */
+  enableAnalytics?: boolean;
+
+  /**
+   * Adapters that receive every bundle analytics event
+   * (works with or without the hosted backend)
+   */
+  analyticsAdapters?: BundleAnalyticsAdapter[];
+
+  /**
+   * How bundles are added to the cart. `native` adds the bundle parent variant
+   * so Shopify applies the bundle's own price and discount at checkout.
+   * @default "exploded"
+   */
+  addMode?: BundleAddMode;
+
+  /**
+   * How the bundle price is split across components in `componentPrices`
+   * @default "proportional"
+   */
+  priceAllocation?: PriceAllocationStrategy;
+
+  /**
+   * Metafield namespace of the bundle metafields read from the Storefront API
+   * @default "bundles"
+   */
+  metafieldNamespace?: string;
+
+  /**
+   * Guess the discount type of bundles without pricing metafields from the
+   * variant price (a whole-number savings percentage is read as `percentage`,
+   * anything else as `fixed_amount`). Guessed pricing has `pricingSource:
+   * "inferred"`. When off, such bundles use `custom` pricing at the variant price.
+   * @default false
+   */
+  inferDiscountType?: boolean;
 }
 
 /**
@@ -336,9 +622,27 @@ export interface BundleAnalyticsEvent {
   bundleTitle?: string;
   selectedComponents?: BundleSelection[];
   quantity?: number;
+  /** Bundle price for one bundle (from BundlePriceResult.bundlePrice) */
   price?: Money;
+  /** Per-component prices (from BundlePriceResult.componentPrices) */
+  componentPrices?: BundlePriceResult['componentPrices'];
   error?: string;
   metadata?: Record<string, string | number | boolean>;
+  /** ISO timestamp (set when the event is queued) */
+  timestamp?: string;
+}
+
+/**
+ * Analytics adapter
+ *
+ * Receives every bundle analytics event, e.g. to forward it to Hydrogen's
+ * Analytics bus, GA4 or a custom sink.
+ */
+export interface BundleAnalyticsAdapter {
+  /** Adapter name (for debugging) */
+  name: string;
+  /** Handle an analytics event */
+  track: (event: BundleAnalyticsEvent) => void;
 }
 
 /**
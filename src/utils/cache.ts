@@ -1,8 +1,16 @@
 /**
  * Client-side caching utilities for BundleBridge
+ *
+ * Entries are partitioned by market (country and language), so a bundle
+ * cached for one market is never served to another.
  */
 
-import type { BundleDefinition, BundleInventory, BundlePriceResult } from '../types.js';
+import type {
+  BundleDefinition,
+  BundleInventory,
+  BundleMarket,
+  BundlePriceResult,
+} from '../types.js';
 import { CACHE_TTL, STORAGE_KEYS } from './constants.js';
 
 interface CacheEntry<T> {
@@ -60,11 +68,25 @@ function setInCache<T>(
   };
 }
 
+/**
+ * Generate cache key for a bundle in a market, e.g. `gid://shopify/Product/1@CA:FR`
+ */
+function getBundleCacheKey(bundleId: string, market?: BundleMarket): string {
+  if (!market?.country && !market?.language) {
+    return bundleId;
+  }
+
+  return `${bundleId}@${market.country ?? ''}:${market.language ?? ''}`;
+}
+
 /**
  * Get cached bundle definition
  */
-export function getCachedDefinition(bundleId: string): BundleDefinition | null {
-  return getFromCache(memoryCache.definitions, bundleId);
+export function getCachedDefinition(
+  bundleId: string,
+  market?: BundleMarket,
+): BundleDefinition | null {
+  return getFromCache(memoryCache.definitions, getBundleCacheKey(bundleId, market));
 }
 
 /**
@@ -73,9 +95,10 @@ export function getCachedDefinition(bundleId: string): BundleDefinition | null {
 export function cacheDefinition(
   bundleId: string,
   definition: BundleDefinition,
+  market?: BundleMarket,
   ttl = CACHE_TTL.definition,
 ): void {
-  setInCache(memoryCache.definitions, bundleId, definition, ttl);
+  setInCache(memoryCache.definitions, getBundleCacheKey(bundleId, market), definition, ttl);
 }
 
 /**
@@ -84,9 +107,12 @@ export function cacheDefinition(
 function getInventoryCacheKey(
   bundleId: string,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
 ): string {
+  const bundleKey = getBundleCacheKey(bundleId, market);
+
   if (!selections || selections.length === 0) {
-    return bundleId;
+    return bundleKey;
   }
 
   const selectionsHash = selections
@@ -94,7 +120,7 @@ function getInventoryCacheKey(
     .sort()
     .join(',');
 
-  return `${bundleId}|${selectionsHash}`;
+  return `${bundleKey}|${selectionsHash}`;
 }
 
 /**
@@ -103,8 +129,9 @@ function getInventoryCacheKey(
 export function getCachedInventory(
   bundleId: string,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
 ): BundleInventory | null {
-  const key = getInventoryCacheKey(bundleId, selections);
+  const key = getInventoryCacheKey(bundleId, selections, market);
   return getFromCache(memoryCache.inventory, key);
 }
 
@@ -115,9 +142,10 @@ export function cacheInventory(
   bundleId: string,
   inventory: BundleInventory,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
   ttl = CACHE_TTL.inventory,
 ): void {
-  const key = getInventoryCacheKey(bundleId, selections);
+  const key = getInventoryCacheKey(bundleId, selections, market);
   setInCache(memoryCache.inventory, key, inventory, ttl);
 }
 
@@ -127,9 +155,12 @@ export function cacheInventory(
 function getPriceCacheKey(
   bundleId: string,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
 ): string {
+  const bundleKey = getBundleCacheKey(bundleId, market);
+
   if (!selections || selections.length === 0) {
-    return bundleId;
+    return bundleKey;
   }
 
   const selectionsHash = selections
@@ -137,7 +168,7 @@ function getPriceCacheKey(
     .sort()
     .join(',');
 
-  return `${bundleId}|${selectionsHash}`;
+  return `${bundleKey}|${selectionsHash}`;
 }
 
 /**
@@ -146,8 +177,9 @@ function getPriceCacheKey(
 export function getCachedPrice(
   bundleId: string,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
 ): BundlePriceResult | null {
-  const key = getPriceCacheKey(bundleId, selections);
+  const key = getPriceCacheKey(bundleId, selections, market);
   return getFromCache(memoryCache.prices, key);
 }
 
@@ -158,30 +190,31 @@ export function cachePrice(
   bundleId: string,
   price: BundlePriceResult,
   selections?: Array<{ variantId: string; quantity: number }>,
+  market?: BundleMarket,
   ttl = CACHE_TTL.price,
 ): void {
-  const key = getPriceCacheKey(bundleId, selections);
+  const key = getPriceCacheKey(bundleId, selections, market);
   setInCache(memoryCache.prices, key, price, ttl);
 }
 
 /**
- * Clear all cached data for a specific bundle
+ * Whether a cache key belongs to a bundle (in any market, for any selections)
  */
-export function clearBundleCache(bundleId: string): void {
-  delete memoryCache.definitions[bundleId];
-
-  // Clear all inventory and price entries for this bundle
-  Object.keys(memoryCache.inventory).forEach((key) => {
-    if (key.startsWith(bundleId)) {
-      delete memoryCache.inventory[key];
-    }
-  });
+function isBundleCacheKey(key: string, bundleId: string): boolean {
+  return key === bundleId || key.startsWith(`${bundleId}@`) || key.startsWith(`${bundleId}|`);
+}
 
-  Object.keys(memoryCache.prices).forEach((key) => {
-    if (key.startsWith(bundleId)) {
-      delete memoryCache.prices[key];
-    }
-  });
+/**
+ * Clear all cached data for a specific bundle, in every market
+ */
+export function clearBundleCache(bundleId: string): void {
+  for (const cache of [memoryCache.definitions, memoryCache.inventory, memoryCache.prices]) {
+    Object.keys(cache).forEach((key) => {
+      if (isBundleCacheKey(key, bundleId)) {
+        delete cache[key];
+      }
+    });
+  }
 }
 
 /**
@@ -33,6 +33,26 @@ export const CACHE_TTL = {
   price: 60 * 1000,
 } as const;
 
+/**
+ * How long a confirmed optimistic cart change is shown while waiting for the
+ * app's cart to catch up (10 seconds)
+ */
+export const OPTIMISTIC_UPDATE_TTL = 10 * 1000;
+
+/**
+ * Request defaults for Storefront API and backend calls
+ */
+export const REQUEST_DEFAULTS = {
+  /** Timeout per attempt (10 seconds) */
+  timeout: 10 * 1000,
+  /** Retries after the first attempt */
+  maxRetries: 2,
+  /** Delay before the first retry, doubled for every further retry */
+  retryDelay: 500,
+  /** Longest wait between attempts, including Retry-After */
+  maxRetryDelay: 10 * 1000,
+} as const;
+
 /**
  * Local storage keys
  */
@@ -51,14 +71,95 @@ export const BUNDLE_ATTRIBUTES = {
   bundleComponentOf: '_bundle_component_of',
   /** Bundle product ID */
   bundleProductId: '_bundle_product_id',
+  /** Unique ID of one bundle add, so repeat adds of a bundle stay separate */
+  bundleInstanceId: '_bundle_instance_id',
   /** Component index */
   componentIndex: '_bundle_component_index',
   /** Component product ID */
   componentProductId: '_bundle_component_product_id',
   /** Total components in bundle */
   totalComponents: '_bundle_total_components',
+  /** Quantity of this component in one bundle */
+  componentQuantity: '_bundle_component_quantity',
 } as const;
 
+/**
+ * Default namespace of the bundle metafields
+ */
+export const DEFAULT_METAFIELD_NAMESPACE = 'bundles';
+
+/**
+ * Keys of the bundle product metafields
+ */
+export const BUNDLE_METAFIELD_KEYS = {
+  /** single_line_text_field: percentage, fixed_amount, fixed_price, tiered or custom */
+  discountType: 'discount_type',
+  /** number_decimal: percentage, amount off, or bundle total */
+  discountValue: 'discount_value',
+  /** json: [{ "min_quantity": 3, "discount_type": "percentage", "discount_value": 10 }] */
+  pricingTiers: 'pricing_tiers',
+  /** single_line_text_field: fixed or mix_and_match */
+  bundleType: 'bundle_type',
+  /** number_integer: items a mix-and-match selection needs at least */
+  minSelections: 'min_selections',
+  /** number_integer: items a mix-and-match selection may have at most */
+  maxSelections: 'max_selections',
+  /** list.product_reference: products customers pick from */
+  eligibleProducts: 'eligible_products',
+  /** collection_reference: collection customers pick from (when there are no eligible products) */
+  eligibleCollection: 'eligible_collection',
+  /** json: { "<product GID or handle>": { "min_quantity": 1, "max_quantity": 3 } } */
+  componentLimits: 'component_limits',
+  /** json: { "tags": ["summer"], "product_types": ["Socks"], "available_only": true } */
+  eligibleFilters: 'eligible_filters',
+} as const;
+
+/**
+ * Page sizes used to load mix-and-match component pools
+ */
+export const COMPONENT_POOL_PAGE_SIZE = {
+  /** Products per collection page */
+  products: 50,
+  /** Variants per product page */
+  variants: 100,
+} as const;
+
+/**
+ * Form field names posted by BundleAddToCart (with `action`) and read by
+ * handleBundleAddToCartAction
+ */
+export const BUNDLE_FORM_FIELDS = {
+  /** Bundle product ID or handle */
+  bundleId: 'bundleId',
+  /** Number of bundles */
+  quantity: 'quantity',
+  /** JSON-encoded BundleSelection[] */
+  selectedComponents: 'selectedComponents',
+  /** JSON-encoded custom line attributes */
+  customAttributes: 'customAttributes',
+  /** Cart add mode */
+  addMode: 'addMode',
+  /** Existing cart ID */
+  cartId: 'cartId',
+  /** Path to redirect to after a successful add */
+  redirectTo: 'redirectTo',
+} as const;
+
+/**
+ * Hydrogen CartForm custom actions posted by BundleCartForm and handled by
+ * handleBundleCartAction
+ */
+export const BUNDLE_CART_ACTIONS = {
+  add: 'CustomBundleAdd',
+  remove: 'CustomBundleRemove',
+  update: 'CustomBundleUpdate',
+} as const;
+
+/**
+ * Form field that holds CartForm's JSON-encoded action and inputs
+ */
+export const CART_FORM_INPUT_FIELD = 'cartFormInput';
+
 /**
  * Default error messages
  */
@@ -69,7 +170,11 @@ export const DEFAULT_ERROR_MESSAGES = {
   selectionIncomplete: 'Please complete your bundle selection.',
   cartError: 'Failed to add bundle to cart. Please try again.',
   network: 'Network error. Please check your connection.',
+  timeout: 'The request timed out. Please try again.',
+  aborted: 'The request was cancelled.',
+  storefront: 'The store could not complete the request.',
   rateLimited: 'Too many requests. Please wait a moment.',
+  invalidMoney: 'Prices could not be calculated.',
   invalidConfig: 'Invalid BundleBridge configuration.',
   providerMissing: 'useBundleContext must be used within a BundleProvider.',
   unknown: 'An unexpected error occurred.',
@@ -97,3 +202,13 @@ export const RATE_LIMITS = {
   /** Max requests per minute for analytics events */
   analyticsEvent: 300,
 } as const;
+
+/**
+ * Analytics batching settings
+ */
+export const ANALYTICS_BATCH = {
+  /** Flush as soon as this many events are queued */
+  maxSize: 20,
+  /** Flush queued events after this delay (milliseconds) */
+  flushInterval: 5 * 1000,
+} as const;
@@ -2,7 +2,13 @@
  * Error handling utilities for BundleBridge
  */
 
-import { DEFAULT_ERROR_MESSAGES } from './constants.js';
+import {
+  formatMessage,
+  type BundleMessageDescriptor,
+  type BundleMessageKey,
+  type BundleMessageOptions,
+  type BundleMessageParams,
+} from './messages.js';
 
 /**
  * BundleBridge error class
@@ -12,6 +18,10 @@ export class BundleBridgeError extends Error {
   componentId?: string;
   variantId?: string;
   details?: Record<string, unknown>;
+  /** Message catalog key, to translate the error with `formatMessage` */
+  messageKey: BundleMessageKey;
+  /** Params of the message */
+  messageParams?: BundleMessageParams;
 
   constructor(
     code: string,
@@ -21,6 +31,7 @@ export class BundleBridgeError extends Error {
       variantId?: string;
       [key: string]: unknown;
     },
+    descriptor?: BundleMessageDescriptor,
   ) {
     super(message);
     this.name = 'BundleBridgeError';
@@ -28,6 +39,8 @@ export class BundleBridgeError extends Error {
     this.componentId = details?.componentId;
     this.variantId = details?.variantId;
     this.details = details;
+    this.messageKey = descriptor?.key ?? ERROR_MESSAGE_KEYS[code as ErrorCode] ?? 'errors.unknown';
+    this.messageParams = descriptor?.params;
   }
 }
 
@@ -41,7 +54,11 @@ export const ERROR_CODES = {
   SELECTION_INCOMPLETE: 'SELECTION_INCOMPLETE',
   CART_ERROR: 'CART_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  ABORTED: 'ABORTED',
+  STOREFRONT_ERROR: 'STOREFRONT_ERROR',
   RATE_LIMITED: 'RATE_LIMITED',
+  INVALID_MONEY: 'INVALID_MONEY',
   INVALID_CONFIG: 'INVALID_CONFIG',
   PROVIDER_MISSING: 'PROVIDER_MISSING',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
@@ -49,38 +66,66 @@ export const ERROR_CODES = {
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
 
+/**
+ * Message catalog key of each error code
+ */
+const ERROR_MESSAGE_KEYS: Record<ErrorCode, BundleMessageKey> = {
+  [ERROR_CODES.BUNDLE_NOT_FOUND]: 'errors.bundleNotFound',
+  [ERROR_CODES.COMPONENT_OUT_OF_STOCK]: 'errors.componentOutOfStock',
+  [ERROR_CODES.INVALID_SELECTION]: 'errors.invalidSelection',
+  [ERROR_CODES.SELECTION_INCOMPLETE]: 'errors.selectionIncomplete',
+  [ERROR_CODES.CART_ERROR]: 'errors.cartError',
+  [ERROR_CODES.NETWORK_ERROR]: 'errors.network',
+  [ERROR_CODES.TIMEOUT]: 'errors.timeout',
+  [ERROR_CODES.ABORTED]: 'errors.aborted',
+  [ERROR_CODES.STOREFRONT_ERROR]: 'errors.storefront',
+  [ERROR_CODES.RATE_LIMITED]: 'errors.rateLimited',
+  [ERROR_CODES.INVALID_MONEY]: 'errors.invalidMoney',
+  [ERROR_CODES.INVALID_CONFIG]: 'errors.invalidConfig',
+  [ERROR_CODES.PROVIDER_MISSING]: 'errors.providerMissing',
+  [ERROR_CODES.UNKNOWN_ERROR]: 'errors.unknown',
+};
+
 /**
  * Create a standardized error
+ *
+ * @param customMessage - A catalog message (key and params), or a message
+ *   from elsewhere (e.g. the Storefront API), which keeps the code's key
  */
 export function createError(
   code: ErrorCode,
-  customMessage?: string,
+  customMessage?: string | BundleMessageDescriptor,
   details?: {
     componentId?: string;
     variantId?: string;
     [key: string]: unknown;
   },
 ): BundleBridgeError {
-  const defaultMessages: Record<ErrorCode, string> = {
-    [ERROR_CODES.BUNDLE_NOT_FOUND]: DEFAULT_ERROR_MESSAGES.bundleNotFound,
-    [ERROR_CODES.COMPONENT_OUT_OF_STOCK]: DEFAULT_ERROR_MESSAGES.componentOutOfStock,
-    [ERROR_CODES.INVALID_SELECTION]: DEFAULT_ERROR_MESSAGES.invalidSelection,
-    [ERROR_CODES.SELECTION_INCOMPLETE]: DEFAULT_ERROR_MESSAGES.selectionIncomplete,
-    [ERROR_CODES.CART_ERROR]: DEFAULT_ERROR_MESSAGES.cartError,
-    [ERROR_CODES.NETWORK_ERROR]: DEFAULT_ERROR_MESSAGES.network,
-    [ERROR_CODES.RATE_LIMITED]: DEFAULT_ERROR_MESSAGES.rateLimited,
-    [ERROR_CODES.INVALID_CONFIG]: DEFAULT_ERROR_MESSAGES.invalidConfig,
-    [ERROR_CODES.PROVIDER_MISSING]: DEFAULT_ERROR_MESSAGES.providerMissing,
-    [ERROR_CODES.UNKNOWN_ERROR]: DEFAULT_ERROR_MESSAGES.unknown,
-  };
+  if (typeof customMessage === 'string') {
+    return new BundleBridgeError(code, customMessage, details);
+  }
+
+  const descriptor = customMessage ?? { key: ERROR_MESSAGE_KEYS[code] };
 
   return new BundleBridgeError(
     code,
-    customMessage ?? defaultMessages[code],
+    formatMessage(descriptor.key, descriptor.params),
     details,
+    descriptor,
   );
 }
 
+/**
+ * Map an HTTP status onto an error code
+ */
+export function getErrorCodeForStatus(status: number): ErrorCode {
+  if (status === 429) return ERROR_CODES.RATE_LIMITED;
+  // Bad credentials, or a wrong store domain or API version
+  if (status === 401 || status === 403 || status === 404) return ERROR_CODES.INVALID_CONFIG;
+  if (status >= 500) return ERROR_CODES.NETWORK_ERROR;
+  return ERROR_CODES.UNKNOWN_ERROR;
+}
+
 /**
  * Parse API error response into a standardized error
  */
@@ -116,26 +161,70 @@ export function parseApiError(
     );
   }
 
-  return createError(ERROR_CODES.UNKNOWN_ERROR, response.error);
+  return createError(getErrorCodeForStatus(response.status), response.error);
 }
 
 /**
  * Get user-friendly error message
+ *
+ * A BundleBridgeError is translated when `options.messages` has its key;
+ * otherwise its own message is kept.
  */
-export function getUserMessage(error: unknown): string {
+export function getUserMessage(error: unknown, options?: BundleMessageOptions): string {
   if (error instanceof BundleBridgeError) {
-    return error.message;
+    return options?.messages?.[error.messageKey]
+      ? formatMessage(error.messageKey, error.messageParams, options)
+      : error.message;
   }
 
   if (error instanceof Error) {
     // Check for network errors
     if (error.message.includes('fetch') || error.message.includes('network')) {
-      return DEFAULT_ERROR_MESSAGES.network;
+      return formatMessage('errors.network', undefined, options);
     }
     return error.message;
   }
 
-  return DEFAULT_ERROR_MESSAGES.unknown;
+  return formatMessage('errors.unknown', undefined, options);
+}
+
+/**
+ * User-facing message of a failed result (e.g. an AddBundleResult), translated
+ * when `options.messages` has its key
+ *
+ * @param fallbackKey - Message for results without an error
+ */
+export function getResultMessage(
+  result: { error?: string; errorKey?: BundleMessageKey; errorParams?: BundleMessageParams },
+  fallbackKey: BundleMessageKey,
+  options?: BundleMessageOptions,
+): string {
+  if (result.errorKey && options?.messages?.[result.errorKey]) {
+    return formatMessage(result.errorKey, result.errorParams, options);
+  }
+
+  return result.error ?? formatMessage(fallbackKey, undefined, options);
+}
+
+/**
+ * Error fields of a failed result: the user-facing message, with its catalog
+ * key and params when it has them
+ *
+ * @param fallbackKey - Message for errors that are not Error instances
+ */
+export function getErrorResult(
+  error: unknown,
+  fallbackKey: BundleMessageKey = 'errors.unknown',
+): { error: string; errorKey?: BundleMessageKey; errorParams?: BundleMessageParams } {
+  if (error instanceof BundleBridgeError) {
+    return { error: error.message, errorKey: error.messageKey, errorParams: error.messageParams };
+  }
+
+  if (error instanceof Error) {
+    return { error: error.message };
+  }
+
+  return { error: formatMessage(fallbackKey), errorKey: fallbackKey };
 }
 
 /**
@@ -153,6 +242,7 @@ export function isRecoverableError(error: unknown): boolean {
 
   const recoverableCodes: ErrorCode[] = [
     ERROR_CODES.NETWORK_ERROR,
+    ERROR_CODES.TIMEOUT,
     ERROR_CODES.RATE_LIMITED,
     ERROR_CODES.CART_ERROR,
   ];
@@ -0,0 +1,278 @@
+/**
+ * Message catalog for BundleBridge
+ *
+ * Every string the components, hooks, validation and errors show comes from
+ * this catalog. Pass translations to BundleProvider; messages use ICU syntax
+ * (`{name}` arguments, `plural` and `select`).
+ */
+
+import { DEFAULT_ERROR_MESSAGES } from './constants.js';
+
+/**
+ * Default (English) messages, by key
+ */
+export const DEFAULT_MESSAGES = {
+  // BundleAddToCart
+  'addToCart.button': 'Add Bundle to Cart',
+  'addToCart.adding': 'Adding...',
+  'addToCart.selectionHint':
+    'Please select {count, plural, one {# item} other {# items}} to continue.',
+
+  // BundlePicker
+  'picker.selectedCount': '{count} of {range} selected',
+  'picker.selectMore': 'Select {count} more',
+  'picker.items': 'Items for {title}',
+  'picker.lowStock': 'Only {count} left',
+  'picker.outOfStock': 'Out of stock',
+  'picker.option': '{option} for {title}',
+  'picker.optionUnavailable': '{value} (unavailable)',
+  'picker.announce.added': '{title} added. {progress}',
+  'picker.announce.removed': '{title} removed. {progress}',
+  'picker.announce.quantity': '{title} quantity {quantity}. {progress}',
+  'picker.announce.outOfStock': '{title} is out of stock.',
+  'picker.announce.limit':
+    'Selection limit reached: {max, plural, one {# item} other {# items}}. Remove an item to add {title}.',
+  'picker.progress.selected': '{count} of {range} selected.',
+  'picker.progress.selectMore': 'Select {count} more.',
+  'picker.progress.complete': 'Bundle complete.',
+  'picker.progress.limitReached': 'Selection limit reached.',
+
+  // Quantity steppers
+  'quantity.group': 'Quantity of {title}',
+  'quantity.decrease': 'Decrease quantity of {title}',
+  'quantity.increase': 'Increase quantity of {title}',
+
+  // BundleLineItem
+  'lineItem.itemCount': '{count, plural, one {# item} other {# items}}',
+  'lineItem.defaultTitle': 'Bundle',
+  'lineItem.productTitle': '{title} Bundle',
+  'lineItem.remove': 'Remove',
+  'lineItem.removeLabel': 'Remove {title}',
+  'lineItem.edit': 'Edit',
+  'lineItem.editLabel': 'Edit {title}',
+  'lineItem.cancel': 'Cancel',
+  'lineItem.save': 'Save changes',
+
+  // BundleSavings
+  'savings.percentage': 'Save {percentage}',
+  'savings.amountAndPercentage': 'Save {amount} ({percentage})',
+  'savings.amount': 'Save {amount}',
+  'savings.percentageOff': '({percentage} off)',
+  'savings.nextTier.percentage': 'Add {count} more to save {value}%',
+  'savings.nextTier.fixedAmount': 'Add {count} more to save {value}',
+  'savings.nextTier.fixedPrice': 'Add {count} more to get {quantity} for {value}',
+
+  // validateBundleSelection
+  'validation.minSelections':
+    'Please select at least {count, plural, one {# item} other {# items}}.',
+  'validation.maxSelections':
+    'You can select at most {count, plural, one {# item} other {# items}}.',
+  'validation.invalidProduct': 'Invalid product selection: {productId}',
+  'validation.invalidVariant': 'Invalid variant selection for {title}',
+  'validation.minQuantity': 'Minimum quantity for {title} is {count}',
+  'validation.maxQuantity': 'Maximum quantity for {title} is {count}',
+  'validation.bundleIdRequired': 'A bundle ID is required',
+
+  // Cart operations
+  'cart.invalidSelection': 'Invalid bundle selection',
+  'cart.addFailed': 'Failed to add bundle to cart',
+  'cart.removeFailed': 'Failed to remove bundle from cart',
+  'cart.updateFailed': 'Failed to update bundle quantity',
+  'cart.editFailed': 'Failed to update bundle in cart',
+  'cart.nativeBundleEdit': 'Bundles expanded by Shopify cannot be edited in the cart',
+  'cart.cartIdRequired': 'A cart ID is required to change bundles in the cart',
+  'cart.bundlePending': 'This bundle is still being added to the cart',
+
+  // BundleBridgeError, by error code
+  'errors.bundleNotFound': DEFAULT_ERROR_MESSAGES.bundleNotFound,
+  'errors.notABundle': 'Product is not a bundle',
+  'errors.collectionNotFound': 'Collection not found: {collection}',
+  'errors.componentOutOfStock': DEFAULT_ERROR_MESSAGES.componentOutOfStock,
+  'errors.invalidSelection': DEFAULT_ERROR_MESSAGES.invalidSelection,
+  'errors.selectionIncomplete': DEFAULT_ERROR_MESSAGES.selectionIncomplete,
+  'errors.cartError': DEFAULT_ERROR_MESSAGES.cartError,
+  'errors.network': DEFAULT_ERROR_MESSAGES.network,
+  'errors.timeout': DEFAULT_ERROR_MESSAGES.timeout,
+  'errors.aborted': DEFAULT_ERROR_MESSAGES.aborted,
+  'errors.storefront': DEFAULT_ERROR_MESSAGES.storefront,
+  'errors.rateLimited': DEFAULT_ERROR_MESSAGES.rateLimited,
+  'errors.invalidMoney': DEFAULT_ERROR_MESSAGES.invalidMoney,
+  'errors.invalidConfig': DEFAULT_ERROR_MESSAGES.invalidConfig,
+  'errors.providerMissing': DEFAULT_ERROR_MESSAGES.providerMissing,
+  'errors.unknown': DEFAULT_ERROR_MESSAGES.unknown,
+} as const;
+
+/**
+ * A message catalog key
+ */
+export type BundleMessageKey = keyof typeof DEFAULT_MESSAGES;
+
+/**
+ * Message translations, e.g. `{ 'addToCart.button': 'Ajouter au panier' }`.
+ * Missing keys fall back to the English defaults.
+ */
+export type BundleMessages = Partial<Record<BundleMessageKey, string>>;
+
+/**
+ * Values for the `{name}` arguments of a message
+ */
+export type BundleMessageParams = Record<string, string | number>;
+
+/**
+ * A message by key and params, to translate later
+ */
+export interface BundleMessageDescriptor {
+  key: BundleMessageKey;
+  params?: BundleMessageParams;
+}
+
+export interface BundleMessageOptions {
+  /** Translations (default: English) */
+  messages?: BundleMessages;
+  /** Locale for plural rules and numbers (default: "en-US") */
+  locale?: string;
+}
+
+/**
+ * Message formatting bound to a catalog (from useBundleMessages)
+ */
+export interface BundleMessageFormatter {
+  /** Translations of the catalog */
+  messages?: BundleMessages;
+  /** Format a message */
+  format: (key: BundleMessageKey, params?: BundleMessageParams) => string;
+  /** User-facing message of an error, translated when the catalog has its key */
+  formatError: (error: unknown) => string;
+  /** User-facing message of a failed result, translated when the catalog has its key */
+  formatResultError: (
+    result: { error?: string; errorKey?: BundleMessageKey; errorParams?: BundleMessageParams },
+    fallbackKey: BundleMessageKey,
+  ) => string;
+}
+
+/**
+ * Format a catalog message
+ *
+ * @example
+ * ```ts
+ * formatMessage('addToCart.selectionHint', { count: 3 }, { messages, locale: 'fr-FR' });
+ * ```
+ */
+export function formatMessage(
+  key: BundleMessageKey,
+  params: BundleMessageParams = {},
+  options: BundleMessageOptions = {},
+): string {
+  const template = options.messages?.[key] ?? DEFAULT_MESSAGES[key];
+  return formatTemplate(template, params, options.locale ?? 'en-US');
+}
+
+/**
+ * Format an ICU message template
+ *
+ * @param pound - Value of `#` inside a plural branch
+ */
+function formatTemplate(
+  template: string,
+  params: BundleMessageParams,
+  locale: string,
+  pound?: string,
+): string {
+  let result = '';
+  let index = 0;
+
+  while (index < template.length) {
+    const char = template[index]!;
+
+    if (char === '{') {
+      const end = findClosingBrace(template, index);
+      if (end === -1) return result + template.slice(index);
+
+      result += formatArgument(template.slice(index, end + 1), params, locale);
+      index = end + 1;
+    } else {
+      result += char === '#' && pound !== undefined ? pound : char;
+      index += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Index of the brace closing the one at `start`, or -1
+ */
+function findClosingBrace(template: string, start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < template.length; index++) {
+    if (template[index] === '{') depth += 1;
+    if (template[index] === '}') {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Format `{name}`, `{name, plural, ...}` or `{name, select, ...}`. Arguments
+ * without a value are kept as written.
+ */
+function formatArgument(argument: string, params: BundleMessageParams, locale: string): string {
+  const body = argument.slice(1, -1);
+  const firstComma = body.indexOf(',');
+  const name = (firstComma === -1 ? body : body.slice(0, firstComma)).trim();
+  const value = params[name];
+
+  if (value === undefined) return argument;
+
+  if (firstComma === -1) {
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  }
+
+  const secondComma = body.indexOf(',', firstComma + 1);
+  const type = body.slice(firstComma + 1, secondComma === -1 ? undefined : secondComma).trim();
+  const branches = parseBranches(secondComma === -1 ? '' : body.slice(secondComma + 1));
+
+  if (type === 'plural') {
+    const count = Number(value);
+    const branch =
+      branches[`=${count}`] ??
+      branches[new Intl.PluralRules(locale).select(count)] ??
+      branches.other;
+    if (branch === undefined) return argument;
+
+    return formatTemplate(branch, params, locale, new Intl.NumberFormat(locale).format(count));
+  }
+
+  if (type === 'select') {
+    const branch = branches[String(value)] ?? branches.other;
+    return branch === undefined ? argument : formatTemplate(branch, params, locale);
+  }
+
+  return String(value);
+}
+
+/**
+ * Parse `one {# item} other {# items}` into branches by selector
+ */
+function parseBranches(source: string): Record<string, string> {
+  const branches: Record<string, string> = {};
+  let index = 0;
+
+  while (index < source.length) {
+    const start = source.indexOf('{', index);
+    if (start === -1) break;
+
+    const end = findClosingBrace(source, start);
+    if (end === -1) break;
+
+    const selector = source.slice(index, start).trim();
+    if (selector) branches[selector] = source.slice(start + 1, end);
+    index = end + 1;
+  }
+
+  return branches;
+}
@@ -0,0 +1,246 @@
+/**
+ * Money utilities for BundleBridge
+ *
+ * Amounts are handled as integer minor units (cents, yen, fils) with the
+ * precision ISO 4217 defines for the currency, so sums and discounts never
+ * drift the way floating-point arithmetic does. Results are `Money` values
+ * rounded half away from zero to the currency's precision.
+ */
+
+import type { Money } from '../types.js';
+import { createError, ERROR_CODES } from './errors.js';
+
+/** Currencies whose minor unit is not 1/100 (ISO 4217) */
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/**
+ * Number of decimals of a currency (2 unless ISO 4217 says otherwise)
+ */
+export function getCurrencyDecimals(currencyCode: string): number {
+  return CURRENCY_DECIMALS[currencyCode.toUpperCase()] ?? 2;
+}
+
+/**
+ * Round to an integer, half away from zero
+ *
+ * Products like `1005 * 0.9` carry floating-point noise, so the value is
+ * trimmed to 15 significant digits before rounding.
+ */
+function roundHalfAwayFromZero(value: number): number {
+  const trimmed = Number(value.toPrecision(15));
+  return Math.sign(trimmed) * Math.round(Math.abs(trimmed)) || 0;
+}
+
+/**
+ * Convert a decimal amount string into minor units
+ */
+function parseMinorUnits(amount: string, decimals: number): number {
+  const match = /^\s*([+-]?)(\d*)(?:\.(\d*))?\s*$/.exec(amount);
+
+  if (!match || (!match[2] && !match[3])) {
+    // Not a plain decimal (e.g. exponent notation)
+    const value = Number(amount);
+    if (!Number.isFinite(value)) {
+      throw createError(ERROR_CODES.INVALID_MONEY, `Invalid money amount: "${amount}"`);
+    }
+    return roundHalfAwayFromZero(value * 10 ** decimals);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  const digits = fraction.padEnd(decimals + 1, '0');
+  let minorUnits = Number(whole || '0') * 10 ** decimals + Number(digits.slice(0, decimals) || '0');
+
+  // The first dropped digit decides rounding
+  if (Number(digits[decimals]) >= 5) minorUnits += 1;
+
+  return sign === '-' && minorUnits !== 0 ? -minorUnits : minorUnits;
+}
+
+/**
+ * Convert a money amount into integer minor units (e.g. "19.99" USD → 1999)
+ */
+export function toMinorUnits(money: Money): number {
+  return parseMinorUnits(money.amount, getCurrencyDecimals(money.currencyCode));
+}
+
+/**
+ * Convert integer minor units into a money amount (e.g. 1999 USD → "19.99")
+ */
+export function fromMinorUnits(minorUnits: number, currencyCode: string): Money {
+  const decimals = getCurrencyDecimals(currencyCode);
+  const rounded = roundHalfAwayFromZero(minorUnits);
+  const digits = String(Math.abs(rounded)).padStart(decimals + 1, '0');
+  const sign = rounded < 0 ? '-' : '';
+
+  return {
+    amount:
+      decimals > 0
+        ? `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`
+        : `${sign}${digits}`,
+    currencyCode,
+  };
+}
+
+/**
+ * Create a money value from a number or decimal string, rounded to the
+ * currency's precision
+ */
+export function createMoney(amount: number | string, currencyCode: string): Money {
+  const minorUnits =
+    typeof amount === 'number'
+      ? roundHalfAwayFromZero(amount * 10 ** getCurrencyDecimals(currencyCode))
+      : parseMinorUnits(amount, getCurrencyDecimals(currencyCode));
+
+  return fromMinorUnits(minorUnits, currencyCode);
+}
+
+/**
+ * Round a money value to its currency's precision (e.g. "1500.0" JPY → "1500")
+ */
+export function roundMoney(money: Money): Money {
+  return fromMinorUnits(toMinorUnits(money), money.currencyCode);
+}
+
+/**
+ * Throw when amounts in different currencies are combined
+ */
+function assertSameCurrency(amounts: Money[], currencyCode: string): void {
+  const other = amounts.find((money) => money.currencyCode !== currencyCode);
+  if (other) {
+    throw createError(
+      ERROR_CODES.INVALID_MONEY,
+      `Cannot combine ${currencyCode} and ${other.currencyCode} amounts`,
+    );
+  }
+}
+
+/**
+ * Sum money amounts
+ *
+ * @param amounts - Amounts to add (all in `currencyCode`)
+ * @param currencyCode - Currency of the result (used when `amounts` is empty)
+ */
+export function sumMoney(amounts: Money[], currencyCode: string): Money {
+  assertSameCurrency(amounts, currencyCode);
+  return fromMinorUnits(
+    amounts.reduce((sum, money) => sum + toMinorUnits(money), 0),
+    currencyCode,
+  );
+}
+
+/**
+ * Subtract one money amount from another
+ */
+export function subtractMoney(money: Money, subtrahend: Money): Money {
+  assertSameCurrency([subtrahend], money.currencyCode);
+  return fromMinorUnits(toMinorUnits(money) - toMinorUnits(subtrahend), money.currencyCode);
+}
+
+/**
+ * Multiply a money amount by a quantity or factor, rounding the result
+ */
+export function multiplyMoney(money: Money, factor: number): Money {
+  return fromMinorUnits(toMinorUnits(money) * factor, money.currencyCode);
+}
+
+/**
+ * A percentage of a money amount, rounded (e.g. 15% of "19.99" → "3.00")
+ */
+export function percentageOfMoney(money: Money, percentage: number): Money {
+  return fromMinorUnits((toMinorUnits(money) * percentage) / 100, money.currencyCode);
+}
+
+/**
+ * Split a money amount into parts proportional to weights
+ *
+ * Each part is rounded down to whole minor units; the leftover units go one
+ * each to the parts with the largest rounding remainders, earlier parts first
+ * on ties. Parts always sum exactly to `money`. Equal parts are used when no
+ * weight is positive.
+ *
+ * @example
+ * ```ts
+ * allocateMoney({ amount: '10.00', currencyCode: 'USD' }, [1, 1, 1]);
+ * // → 3.34, 3.33, 3.33
+ * ```
+ */
+export function allocateMoney(money: Money, weights: number[]): Money[] {
+  if (weights.length === 0) return [];
+
+  const positive = weights.map((weight) => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const totalWeight = positive.reduce((sum, weight) => sum + weight, 0);
+  const shares = totalWeight > 0 ? positive : positive.map(() => 1);
+  const totalShares = totalWeight > 0 ? totalWeight : shares.length;
+
+  const total = toMinorUnits(money);
+  const sign = total < 0 ? -1 : 1;
+  const magnitude = Math.abs(total);
+
+  const exact = shares.map((share) => Number(((magnitude * share) / totalShares).toPrecision(15)));
+  const parts = exact.map(Math.floor);
+  let leftover = magnitude - parts.reduce((sum, part) => sum + part, 0);
+
+  // Largest remainder first; the stable sort keeps earlier parts first on ties
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of order) {
+    if (leftover <= 0) break;
+    parts[index]! += 1;
+    leftover -= 1;
+  }
+
+  return parts.map((part) => fromMinorUnits(sign * part, money.currencyCode));
+}
+
+/**
+ * Compare two money amounts in the same currency
+ *
+ * @returns A negative number, zero or a positive number
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency([b], a.currencyCode);
+  return toMinorUnits(a) - toMinorUnits(b);
+}
+
+/**
+ * Whether a money amount is greater than zero
+ */
+export function isPositiveMoney(money: Money): boolean {
+  return toMinorUnits(money) > 0;
+}
+
+/**
+ * A money amount as a number in major units (for display and analytics only)
+ */
+export function moneyToNumber(money: Money): number {
+  return toMinorUnits(money) / 10 ** getCurrencyDecimals(money.currencyCode);
+}
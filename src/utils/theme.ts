@@ -0,0 +1,99 @@
+/**
+ * Theme utilities for BundleBridge
+ *
+ * The built-in component styles read their colors and radii from `--bundle-*`
+ * CSS custom properties. Set them in your own CSS, or pass a theme to
+ * BundleProvider.
+ */
+
+import type { CSSProperties } from 'react';
+
+/**
+ * Design tokens: the CSS custom property behind each token and its default
+ */
+export const BUNDLE_THEME_TOKENS = {
+  /** Headings, prices and body text */
+  colorText: { property: '--bundle-color-text', defaultValue: '#1a1a1a' },
+  /** Secondary text (variant titles, option names, hints) */
+  colorTextMuted: { property: '--bundle-color-text-muted', defaultValue: '#666' },
+  /** Cards and buttons */
+  colorBackground: { property: '--bundle-color-background', defaultValue: '#fff' },
+  /** Quantity steppers and component lists */
+  colorSurface: { property: '--bundle-color-surface', defaultValue: '#f5f5f5' },
+  /** Card, control and divider borders */
+  colorBorder: { property: '--bundle-color-border', defaultValue: '#e5e5e5' },
+  /** Card border on hover */
+  colorBorderHover: { property: '--bundle-color-border-hover', defaultValue: '#999' },
+  /** Add-to-cart button, selected cards and options, focus rings */
+  colorPrimary: { property: '--bundle-color-primary', defaultValue: '#1a1a1a' },
+  /** Add-to-cart button on hover */
+  colorPrimaryHover: { property: '--bundle-color-primary-hover', defaultValue: '#333' },
+  /** Text on the primary color */
+  colorPrimaryText: { property: '--bundle-color-primary-text', defaultValue: '#fff' },
+  /** Disabled add-to-cart button */
+  colorDisabled: { property: '--bundle-color-disabled', defaultValue: '#999' },
+  /** Errors, required selections and out of stock */
+  colorError: { property: '--bundle-color-error', defaultValue: '#dc2626' },
+  /** Error message background */
+  colorErrorBackground: { property: '--bundle-color-error-background', defaultValue: '#fef2f2' },
+  /** Low stock */
+  colorWarning: { property: '--bundle-color-warning', defaultValue: '#d97706' },
+  /** Savings */
+  colorSuccess: { property: '--bundle-color-success', defaultValue: '#059669' },
+  /** Savings badge background */
+  colorSuccessBackground: {
+    property: '--bundle-color-success-background',
+    defaultValue: '#d1fae5',
+  },
+  /** Cards */
+  radius: { property: '--bundle-radius', defaultValue: '0.5rem' },
+  /** Add-to-cart button and savings badge */
+  radiusButton: { property: '--bundle-radius-button', defaultValue: '0.375rem' },
+  /** Images, options and steppers */
+  radiusSmall: { property: '--bundle-radius-small', defaultValue: '0.25rem' },
+} as const;
+
+/**
+ * A design token name
+ */
+export type BundleThemeToken = keyof typeof BUNDLE_THEME_TOKENS;
+
+/**
+ * Token values, e.g. `{ colorPrimary: '#4f46e5', radius: '1rem' }`
+ */
+export type BundleTheme = Partial<Record<BundleThemeToken, string>>;
+
+/**
+ * CSS value of a token that falls back to its default, e.g.
+ * `var(--bundle-color-text, #1a1a1a)`
+ */
+export function themeVar(token: BundleThemeToken): string {
+  const { property, defaultValue } = BUNDLE_THEME_TOKENS[token];
+  return `var(${property}, ${defaultValue})`;
+}
+
+/**
+ * Inline style that sets the custom properties of a theme
+ *
+ * @returns The style, or undefined for an empty theme
+ */
+export function getThemeStyle(theme?: BundleTheme): CSSProperties | undefined {
+  const entries = Object.entries(theme ?? {}).filter(
+    ([token, value]) => token in BUNDLE_THEME_TOKENS && value,
+  );
+  if (entries.length === 0) return undefined;
+
+  return Object.fromEntries(
+    entries.map(([token, value]) => [
+      BUNDLE_THEME_TOKENS[token as BundleThemeToken].property,
+      value,
+    ]),
+  ) as CSSProperties;
+}
+
+/**
+ * Join class names, skipping empty ones
+ */
+export function joinClassNames(...classNames: Array<string | false | null | undefined>): string {
+  return classNames.filter(Boolean).join(' ');
+}
@@ -7,6 +7,12 @@ import type {
   BundleSelection,
   BundleBridgeConfig,
 } from '../types.js';
+import {
+  formatMessage,
+  type BundleMessageKey,
+  type BundleMessageOptions,
+  type BundleMessageParams,
+} from './messages.js';
 
 /**
  * Validate a Shopify GID format
@@ -39,13 +45,39 @@ export function isValidConfig(config: Partial<BundleBridgeConfig>): config is Bu
   return true;
 }
 
+/**
+ * Result of validateBundleSelection
+ */
+export interface BundleSelectionValidation {
+  valid: boolean;
+  /** Error message, from the catalog */
+  error?: string;
+  /** Message catalog key of the error */
+  errorKey?: BundleMessageKey;
+  /** Params of the error message */
+  errorParams?: BundleMessageParams;
+}
+
 /**
  * Validate bundle selection for mix-and-match bundles
+ *
+ * @param options - Message catalog and locale for the error message
  */
 export function validateBundleSelection(
   definition: BundleDefinition,
   selections: BundleSelection[],
-): { valid: boolean; error?: string } {
+  options?: BundleMessageOptions,
+): BundleSelectionValidation {
+  const invalid = (
+    errorKey: BundleMessageKey,
+    errorParams: BundleMessageParams,
+  ): BundleSelectionValidation => ({
+    valid: false,
+    error: formatMessage(errorKey, errorParams, options),
+    errorKey,
+    errorParams,
+  });
+
   // For fixed bundles, no selection validation needed
   if (definition.bundleType === 'fixed') {
     return { valid: true };
@@ -55,18 +87,12 @@ export function validateBundleSelection(
   const totalSelections = selections.reduce((sum, s) => sum + s.quantity, 0);
 
   if (definition.minSelections && totalSelections < definition.minSelections) {
-    return {
-      valid: false,
-      error: `Please select at least ${definition.minSelections} items.`,
-    };
+    return invalid('validation.minSelections', { count: definition.minSelections });
   }
 
   // Check maximum selections
   if (definition.maxSelections && totalSelections > definition.maxSelections) {
-    return {
-      valid: false,
-      error: `You can select at most ${definition.maxSelections} items.`,
-    };
+    return invalid('validation.maxSelections', { count: definition.maxSelections });
   }
 
   // Validate each selection against available components
@@ -76,34 +102,28 @@ export function validateBundleSelection(
     );
 
     if (!component) {
-      return {
-        valid: false,
-        error: `Invalid product selection: ${selection.productId}`,
-      };
+      return invalid('validation.invalidProduct', { productId: selection.productId });
     }
 
     const variant = component.variants.find((v) => v.id === selection.variantId);
 
     if (!variant) {
-      return {
-        valid: false,
-        error: `Invalid variant selection for ${component.productTitle}`,
-      };
+      return invalid('validation.invalidVariant', { title: component.productTitle });
     }
 
     // Check quantity constraints
     if (component.allowQuantitySelection) {
       if (component.minQuantity && selection.quantity < component.minQuantity) {
-        return {
-          valid: false,
-          error: `Minimum quantity for ${component.productTitle} is ${component.minQuantity}`,
-        };
+        return invalid('validation.minQuantity', {
+          title: component.productTitle,
+          count: component.minQuantity,
+        });
       }
       if (component.maxQuantity && selection.quantity > component.maxQuantity) {
-        return {
-          valid: false,
-          error: `Maximum quantity for ${component.productTitle} is ${component.maxQuantity}`,
-        };
+        return invalid('validation.maxQuantity', {
+          title: component.productTitle,
+          count: component.maxQuantity,
+        });
       }
     }
   }
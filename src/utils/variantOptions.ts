@@ -0,0 +1,111 @@
+/**
+ * Variant option utilities for BundleBridge
+ *
+ * Maps between a component's variants and its product options (Size, Color,
+ * ...) so customers can pick a variant option by option.
+ */
+
+import type { BundleComponent, BundleComponentVariant } from '../types.js';
+
+/**
+ * A product option and its values, in the order the variants list them
+ */
+export interface ComponentOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * State of one option value, given the other options currently chosen
+ */
+export interface OptionValueState {
+  /**
+   * The variant choosing this value leads to: the one with the other current
+   * options, or else the available variant with this value that keeps the
+   * most of them
+   */
+  variant?: BundleComponentVariant;
+  /** Whether any variant with this value is available for sale */
+  available: boolean;
+}
+
+/**
+ * The options of a variant by name
+ */
+export function getVariantOptions(variant: BundleComponentVariant): Record<string, string> {
+  return Object.fromEntries(
+    (variant.selectedOptions ?? []).map((option) => [option.name, option.value]),
+  );
+}
+
+/**
+ * The options customers choose between for a component
+ *
+ * Options with a single value (like Shopify's "Title: Default Title") are
+ * left out, so single-variant products have none.
+ */
+export function getComponentOptions(component: BundleComponent): ComponentOption[] {
+  const options = new Map<string, string[]>();
+
+  for (const variant of component.variants) {
+    for (const { name, value } of variant.selectedOptions ?? []) {
+      const values = options.get(name) ?? [];
+      if (!values.includes(value)) values.push(value);
+      options.set(name, values);
+    }
+  }
+
+  return [...options.entries()]
+    .filter(([, values]) => values.length > 1)
+    .map(([name, values]) => ({ name, values }));
+}
+
+/**
+ * Find the variant with exactly the given options
+ */
+export function findVariantByOptions(
+  component: BundleComponent,
+  options: Record<string, string>,
+): BundleComponentVariant | undefined {
+  return component.variants.find((variant) => {
+    const variantOptions = getVariantOptions(variant);
+    return Object.entries(options).every(([name, value]) => variantOptions[name] === value);
+  });
+}
+
+/**
+ * The variant an option value leads to, and whether it can be chosen
+ *
+ * Keeps the other options of the current variant when that combination is
+ * available. Otherwise falls back to the available variant with the value
+ * that shares the most options with the current one, so values of sparse or
+ * partly sold-out option matrices stay reachable.
+ */
+export function getOptionValueState(
+  component: BundleComponent,
+  current: BundleComponentVariant,
+  name: string,
+  value: string,
+): OptionValueState {
+  const currentOptions = getVariantOptions(current);
+  const exact = findVariantByOptions(component, { ...currentOptions, [name]: value });
+  if (exact?.availableForSale) return { variant: exact, available: true };
+
+  let fallback: BundleComponentVariant | undefined;
+  let fallbackShared = -1;
+
+  for (const variant of component.variants) {
+    const options = getVariantOptions(variant);
+    if (!variant.availableForSale || options[name] !== value) continue;
+
+    const shared = Object.entries(currentOptions).filter(
+      ([optionName, optionValue]) => options[optionName] === optionValue,
+    ).length;
+    if (shared > fallbackShared) {
+      fallback = variant;
+      fallbackShared = shared;
+    }
+  }
+
+  return fallback ? { variant: fallback, available: true } : { variant: exact, available: false };
+}